@@ -0,0 +1,172 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { INITIAL_RULES } from '../src/constants';
+import { detectColumnMapping, IMPORT_FIELDS, rowToFormState } from '../src/lib/candidateImport';
+import { parseCsv } from '../src/lib/csv';
+import { parseRuleConfig, RuleConfigError } from '../src/lib/rules';
+import { ImportPreviewRow, RuleConfig } from '../src/types';
+import { screenBatch } from '../src/validation';
+
+// Exit codes: every row passed strict validation, some row failed it, or the command could not run.
+const EXIT_OK = 0;
+const EXIT_STRICT_ERRORS = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: npm run validate -- <candidates.json|candidates.csv|-> [--rules rules.json] [--format table|json]
+
+Runs the admission form's strict and soft checks and risk classification over
+candidate records, without a server or database. Rows are checked for
+duplicates against the earlier rows of the same file.
+
+  <file>          A CSV file with a header row, or a JSON array of records.
+                  Columns and keys are matched like the bulk import does.
+                  Pass - to read from standard input.
+  --rules <file>  A JSON rule config shaped like INITIAL_RULES. Missing keys
+                  take their defaults. Without it the default rules apply.
+  --format        table (default) or json.
+
+Exits with 1 when any row has strict errors and 2 when the input is unusable.`;
+
+class UsageError extends Error {}
+
+interface RowReport extends ImportPreviewRow {
+  row: number;
+  fullName: string;
+}
+
+function readInput(file: string): string {
+  try {
+    return readFileSync(file === '-' ? 0 : file, 'utf8');
+  } catch (err) {
+    throw new UsageError(`Cannot read ${file}: ${(err as Error).message}`);
+  }
+}
+
+function parseJson(text: string, file: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new UsageError(`${file} is not valid JSON: ${(err as Error).message}`);
+  }
+}
+
+/** JSON records go through the CSV mapping so both formats accept the same column names. */
+function toTable(text: string, file: string): { headers: string[]; rows: string[][] } {
+  const isJson = path.extname(file).toLowerCase() === '.json' || (file === '-' && /^\s*\[/.test(text));
+  if (!isJson) {
+    const [headers = [], ...rows] = parseCsv(text);
+    return { headers, rows };
+  }
+
+  const records = parseJson(text, file);
+  if (!Array.isArray(records)) throw new UsageError(`${file} must hold a JSON array of candidate records`);
+  records.forEach((record, index) => {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      throw new UsageError(`Record ${index + 1} in ${file} is not an object`);
+    }
+  });
+  const headers = [...new Set(records.flatMap(record => Object.keys(record)))];
+  const rows = records.map(record => headers.map(header => {
+    const value = (record as Record<string, unknown>)[header];
+    return value === null || value === undefined ? '' : String(value);
+  }));
+  return { headers, rows };
+}
+
+/** Missing keys take their defaults; the rest are checked as the server checks a published rule set. */
+function readRules(file: string | undefined): RuleConfig {
+  if (!file) return INITIAL_RULES;
+  const stored = parseJson(readInput(file), file);
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+    throw new UsageError(`${file} must hold a JSON object shaped like INITIAL_RULES`);
+  }
+  for (const key of Object.keys(stored)) {
+    if (!(key in INITIAL_RULES)) console.error(`Ignoring unknown rule "${key}" in ${file}`);
+  }
+  try {
+    return parseRuleConfig({ ...INITIAL_RULES, ...stored });
+  } catch (err) {
+    if (err instanceof RuleConfigError) throw new UsageError(`${file}: ${err.message}`);
+    throw err;
+  }
+}
+
+const pad = (value: string, width: number) => value.length > width ? `${value.slice(0, width - 1)}…` : value.padEnd(width);
+
+function formatTable(reports: RowReport[]): string {
+  const lines = [`${pad('Row', 5)} ${pad('Name', 24)} ${pad('Risk', 7)} ${pad('Score', 6)} Result`];
+  for (const report of reports) {
+    const errorCount = Object.keys(report.errors).length;
+    const result = errorCount > 0
+      ? `${errorCount} strict error${errorCount === 1 ? '' : 's'}`
+      : report.needsReview ? 'Needs review' : 'OK';
+    lines.push(`${pad(String(report.row), 5)} ${pad(report.fullName || '—', 24)} ${pad(report.riskLevel, 7)} ${pad(String(report.riskScore), 6)} ${result}`);
+    for (const [field, message] of Object.entries(report.errors)) lines.push(`      ✗ ${field}: ${message}`);
+    for (const [field, message] of Object.entries(report.warnings)) lines.push(`      ! ${field}: ${message}`);
+  }
+  return lines.join('\n');
+}
+
+function summarize(reports: RowReport[]) {
+  return {
+    rows: reports.length,
+    withStrictErrors: reports.filter(report => Object.keys(report.errors).length > 0).length,
+    needsReview: reports.filter(report => report.needsReview).length,
+    riskLevels: {
+      Low: reports.filter(report => report.riskLevel === 'Low').length,
+      Medium: reports.filter(report => report.riskLevel === 'Medium').length,
+      High: reports.filter(report => report.riskLevel === 'High').length,
+    },
+  };
+}
+
+function run(argv: string[]): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      rules: { type: 'string' },
+      format: { type: 'string', default: 'table' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+  if (positionals.length !== 1) throw new UsageError('Pass exactly one candidates file');
+  if (values.format !== 'table' && values.format !== 'json') throw new UsageError('--format must be table or json');
+
+  const [file] = positionals;
+  const rules = readRules(values.rules);
+  const { headers, rows } = toTable(readInput(file), file);
+  const mapping = detectColumnMapping(headers, IMPORT_FIELDS);
+  if (mapping.fullName === undefined) throw new UsageError(`No name column found in ${file}`);
+
+  const forms = rows.map(row => rowToFormState(row, mapping, headers));
+  const reports = screenBatch(forms, () => rules).map((report, index): RowReport => ({
+    row: index + 1,
+    fullName: forms[index].fullName,
+    ...report,
+  }));
+  const summary = summarize(reports);
+
+  if (values.format === 'json') {
+    console.log(JSON.stringify({ summary, rows: reports }, null, 2));
+  } else {
+    console.log(formatTable(reports));
+    console.log(`\n${summary.rows} rows: ${summary.withStrictErrors} with strict errors, ${summary.needsReview} need review `
+      + `(${summary.riskLevels.Low} Low, ${summary.riskLevels.Medium} Medium, ${summary.riskLevels.High} High risk)`);
+  }
+  return summary.withStrictErrors > 0 ? EXIT_STRICT_ERRORS : EXIT_OK;
+}
+
+try {
+  process.exitCode = run(process.argv.slice(2));
+} catch (err) {
+  const isParseError = (err as { code?: string }).code?.startsWith('ERR_PARSE_ARGS');
+  if (!(err instanceof UsageError) && !isParseError) throw err;
+  console.error(`${(err as Error).message}\n\n${USAGE}`);
+  process.exitCode = EXIT_USAGE;
+}
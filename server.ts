@@ -0,0 +1,65 @@
+import 'dotenv/config';
+import express from 'express';
+import path from 'path';
+import { createServer as createViteServer } from 'vite';
+import { authenticate, requirePartner, requirePermission, requireUser } from './server/auth';
+import { errorHandler } from './server/http';
+import { analyticsRouter } from './server/routes/analytics';
+import { apiKeysRouter } from './server/routes/apiKeys';
+import { auditRouter } from './server/routes/audit';
+import { authRouter } from './server/routes/auth';
+import { candidatesRouter } from './server/routes/candidates';
+import { draftsRouter } from './server/routes/drafts';
+import { formSchemaRouter } from './server/routes/formSchema';
+import { intakeRouter } from './server/routes/intake';
+import { offerLetterTemplatesRouter } from './server/routes/offerLetters';
+import { programsRouter } from './server/routes/programs';
+import { rulesRouter } from './server/routes/rules';
+import { usersRouter } from './server/routes/users';
+import { sealAuditChain } from './server/store';
+
+const PORT = Number(process.env.PORT) || 3000;
+
+async function startServer() {
+  // Records that predate the hash chain are linked in by a migration and hashed here.
+  sealAuditChain();
+
+  const app = express();
+  app.use(express.json({ limit: '5mb' }));
+
+  // API routes. Everything except signing in and partner intake needs a session; routers check finer permissions.
+  app.use('/api', authenticate);
+  app.use('/api/auth', authRouter);
+  app.use('/api/intake', requirePartner, intakeRouter);
+  app.use('/api/candidates', requireUser, candidatesRouter);
+  app.use('/api/audit', requireUser, auditRouter);
+  app.use('/api/analytics', requireUser, analyticsRouter);
+  app.use('/api/programs', requireUser, programsRouter);
+  app.use('/api/rules', requireUser, rulesRouter);
+  app.use('/api/form-schema', requireUser, formSchemaRouter);
+  app.use('/api/offer-letter-templates', requireUser, offerLetterTemplatesRouter);
+  app.use('/api/drafts', requirePermission('enterCandidates'), draftsRouter);
+  app.use('/api/users', requirePermission('manageUsers'), usersRouter);
+  app.use('/api/api-keys', requirePermission('manageUsers'), apiKeysRouter);
+  app.use('/api', errorHandler);
+
+  if (process.env.NODE_ENV !== 'production') {
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.resolve('dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`AdmitGuard server running on http://localhost:${PORT}`);
+  });
+}
+
+startServer();
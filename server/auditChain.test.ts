@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalJson, chainHash } from './auditChain';
+
+describe('canonicalJson', () => {
+  it('sorts object keys at every depth', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: 'x' } }))
+      .toBe('{"a":{"c":"x","d":[2,{"e":4,"f":3}]},"b":1}');
+  });
+
+  it('drops undefined fields, as JSON.stringify does', () => {
+    expect(canonicalJson({ a: 1, b: undefined })).toBe('{"a":1}');
+  });
+
+  it('writes null, and undefined outside an object, as null', () => {
+    expect(canonicalJson({ a: null })).toBe('{"a":null}');
+    expect(canonicalJson(undefined)).toBe('null');
+  });
+});
+
+describe('chainHash', () => {
+  it('does not depend on key order', () => {
+    expect(chainHash(null, { a: 1, b: 2 })).toBe(chainHash(null, { b: 2, a: 1 }));
+  });
+
+  it('changes with the content and with the previous link', () => {
+    const hash = chainHash('abc', { a: 1 });
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(chainHash('abc', { a: 2 })).not.toBe(hash);
+    expect(chainHash('abd', { a: 1 })).not.toBe(hash);
+    expect(chainHash(null, { a: 1 })).not.toBe(hash);
+  });
+
+  // Stored chains were hashed this way; changing it would break every one of them.
+  it('hashes the previous hash, a newline and the canonical JSON with SHA-256', () => {
+    expect(chainHash(null, { a: 1 })).toBe('7395dc66860499cb2b8970e17094ec53ed1ff54e7067ad619f884917096166b0');
+  });
+});
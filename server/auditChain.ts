@@ -0,0 +1,19 @@
+import { createHash } from 'crypto';
+
+/** JSON with object keys sorted, so the same content always hashes the same way. */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (typeof value === 'object' && value !== null) {
+    const fields = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/** Hash of one chain link: the previous link's hash followed by the content it vouches for. */
+export function chainHash(previousHash: string | null, content: unknown): string {
+  return createHash('sha256').update(`${previousHash ?? ''}\n${canonicalJson(content)}`).digest('hex');
+}
@@ -0,0 +1,101 @@
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { HttpError } from './http';
+import { createSession, deleteSessionsExpiredBefore, getSessionUser, useApiKey } from './store';
+import { can, Permission } from '../src/lib/permissions';
+import { ApiKey, User } from '../src/types';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by `authenticate` when the request carries a live session. */
+      user?: User;
+      /** Set by `requirePartner` on intake API requests. */
+      partner?: ApiKey;
+    }
+  }
+}
+
+export const SESSION_COOKIE = 'admitguard_session';
+export const SESSION_TTL_HOURS = Number(process.env.SESSION_TTL_HOURS) || 12;
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  return `${salt}:${scryptSync(password, salt, 64).toString('hex')}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  return timingSafeEqual(scryptSync(password, salt, expected.length), expected);
+}
+
+export function newSessionToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/** Partner keys are prefixed so they are easy to spot in configs and leaked-secret scans. */
+export function newApiKeyToken(): string {
+  return `agk_${randomBytes(32).toString('hex')}`;
+}
+
+// Only the hash is stored, so a copy of the database cannot be used to sign in.
+// Partner API keys are hashed the same way.
+export function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+}
+
+export function sessionTokenOf(req: Request): string | undefined {
+  return readCookie(req, SESSION_COOKIE);
+}
+
+/** Issues a new session for `userId` in an HTTP-only cookie. */
+export function startSession(res: Response, userId: string) {
+  const now = Date.now();
+  deleteSessionsExpiredBefore(new Date(now).toISOString());
+  const token = newSessionToken();
+  const expiresAt = new Date(now + SESSION_TTL_HOURS * 60 * 60 * 1000);
+  createSession(hashSessionToken(token), userId, expiresAt.toISOString());
+  res.cookie(SESSION_COOKIE, token, { httpOnly: true, sameSite: 'lax', path: '/', expires: expiresAt });
+}
+
+/** Attaches the signed-in user, if any, to every API request. */
+export function authenticate(req: Request, _res: Response, next: NextFunction) {
+  const token = sessionTokenOf(req);
+  req.user = token ? getSessionUser(hashSessionToken(token), new Date().toISOString()) : undefined;
+  next();
+}
+
+export function requireUser(req: Request, _res: Response, next: NextFunction) {
+  if (!req.user) throw new HttpError(401, 'Sign in required');
+  next();
+}
+
+export function requirePermission(permission: Permission) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    if (!req.user) throw new HttpError(401, 'Sign in required');
+    if (!can(req.user, permission)) throw new HttpError(403, `The ${req.user.role} role cannot do this`);
+    next();
+  };
+}
+
+/** Accepts a partner's bearer API key. Partners never get a session or see anything beyond the intake API. */
+export function requirePartner(req: Request, _res: Response, next: NextFunction) {
+  const token = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '')?.[1];
+  req.partner = token ? useApiKey(hashSessionToken(token)) : undefined;
+  if (!req.partner) throw new HttpError(401, 'A valid API key is required');
+  next();
+}
+
+/** Username every action on this request is attributed to. Only valid behind `requireUser`. */
+export function actorOf(req: Request): string {
+  return req.user!.username;
+}
@@ -0,0 +1,462 @@
+import Database from 'better-sqlite3';
+
+const DATABASE_PATH = process.env.DATABASE_PATH || 'admitguard.db';
+
+// Each entry is applied once, in order, and tracked through PRAGMA user_version.
+// Never edit a shipped migration; append a new one instead.
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE candidates (
+    id TEXT PRIMARY KEY,
+    full_name TEXT NOT NULL,
+    email TEXT NOT NULL,
+    phone TEXT NOT NULL,
+    aadhaar_number TEXT NOT NULL,
+    interview_status TEXT NOT NULL,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE audit_log (
+    id TEXT PRIMARY KEY,
+    candidate_id TEXT REFERENCES candidates(id),
+    full_name TEXT NOT NULL,
+    email TEXT NOT NULL,
+    interview_status TEXT NOT NULL,
+    exception_count INTEGER NOT NULL,
+    risk_level TEXT NOT NULL CHECK (risk_level IN ('Low', 'Medium', 'High')),
+    timestamp TEXT NOT NULL
+  );
+
+  CREATE INDEX idx_audit_log_timestamp ON audit_log(timestamp);
+
+  CREATE TABLE rule_config (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    rules TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE rule_versions (
+    version INTEGER PRIMARY KEY,
+    rules TEXT NOT NULL,
+    author TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  INSERT INTO rule_versions (version, rules, author, created_at)
+  SELECT 1, rules, 'system', updated_at FROM rule_config;
+
+  DROP TABLE rule_config;
+
+  CREATE TRIGGER rule_versions_no_update BEFORE UPDATE ON rule_versions
+  BEGIN SELECT RAISE(ABORT, 'rule versions are immutable'); END;
+
+  CREATE TRIGGER rule_versions_no_delete BEFORE DELETE ON rule_versions
+  BEGIN SELECT RAISE(ABORT, 'rule versions are immutable'); END;
+
+  ALTER TABLE audit_log ADD COLUMN rule_version INTEGER REFERENCES rule_versions(version);
+  `,
+  `
+  CREATE TABLE audit_exceptions (
+    audit_id TEXT NOT NULL REFERENCES audit_log(id) ON DELETE CASCADE,
+    rule_id TEXT NOT NULL,
+    field TEXT NOT NULL,
+    message TEXT NOT NULL,
+    justification TEXT NOT NULL,
+    approved_by TEXT NOT NULL,
+    PRIMARY KEY (audit_id, rule_id)
+  );
+  `,
+  `
+  ALTER TABLE audit_log ADD COLUMN review_status TEXT NOT NULL DEFAULT 'Not Required'
+    CHECK (review_status IN ('Not Required', 'Pending', 'Approved', 'Rejected'));
+
+  CREATE INDEX idx_audit_log_review_status ON audit_log(review_status);
+
+  CREATE TABLE audit_reviews (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    audit_id TEXT NOT NULL REFERENCES audit_log(id) ON DELETE CASCADE,
+    decision TEXT NOT NULL CHECK (decision IN ('Approved', 'Rejected')),
+    reviewer TEXT NOT NULL,
+    comment TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE candidates ADD COLUMN status TEXT NOT NULL DEFAULT 'Applied';
+
+  UPDATE candidates SET status = CASE
+    WHEN json_extract(data, '$.offerLetterSent') THEN 'Offer Sent'
+    WHEN interview_status != '' THEN interview_status
+    WHEN json_extract(data, '$.screeningScore') != '' THEN 'Screened'
+    ELSE 'Applied'
+  END;
+
+  CREATE TABLE candidate_status_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    candidate_id TEXT NOT NULL REFERENCES candidates(id),
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    changed_by TEXT NOT NULL,
+    note TEXT NOT NULL DEFAULT '',
+    changed_at TEXT NOT NULL
+  );
+
+  CREATE INDEX idx_candidate_status_history_candidate ON candidate_status_history(candidate_id);
+
+  INSERT INTO candidate_status_history (candidate_id, from_status, to_status, changed_by, note, changed_at)
+  SELECT id, NULL, status, 'system', 'Backfilled from submitted form', created_at FROM candidates;
+  `,
+  `
+  CREATE TABLE aadhaar_access_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    candidate_id TEXT NOT NULL REFERENCES candidates(id),
+    revealed_by TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    revealed_at TEXT NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE audit_log ADD COLUMN risk_score REAL;
+
+  CREATE TABLE audit_risk_factors (
+    audit_id TEXT NOT NULL REFERENCES audit_log(id) ON DELETE CASCADE,
+    rule_id TEXT NOT NULL,
+    weight REAL NOT NULL,
+    shortfall REAL,
+    points REAL NOT NULL,
+    PRIMARY KEY (audit_id, rule_id)
+  );
+  `,
+  `
+  ALTER TABLE candidates ADD COLUMN normalized_percentage REAL;
+
+  -- Earlier CGPA scores were all on the 10-point scale with the default conversion.
+  UPDATE candidates SET normalized_percentage = CASE
+    WHEN json_extract(data, '$.score') = '' THEN NULL
+    WHEN json_extract(data, '$.scoreMode') = 'CGPA'
+      THEN MIN(100, MAX(0, ROUND(CAST(json_extract(data, '$.score') AS REAL) * 9.5, 2)))
+    ELSE CAST(json_extract(data, '$.score') AS REAL)
+  END;
+  `,
+  `
+  CREATE TABLE form_schema_versions (
+    version INTEGER PRIMARY KEY,
+    schema TEXT NOT NULL,
+    author TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  ALTER TABLE candidates ADD COLUMN form_version INTEGER REFERENCES form_schema_versions(version);
+  `,
+  `
+  CREATE TABLE drafts (
+    id TEXT PRIMARY KEY,
+    full_name TEXT NOT NULL DEFAULT '',
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE INDEX idx_drafts_updated_at ON drafts(updated_at);
+  `,
+  `
+  ALTER TABLE audit_log ADD COLUMN kind TEXT NOT NULL DEFAULT 'Submission'
+    CHECK (kind IN ('Submission', 'Amendment'));
+
+  CREATE TABLE candidate_amendments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    candidate_id TEXT NOT NULL REFERENCES candidates(id),
+    audit_id TEXT NOT NULL,
+    field TEXT NOT NULL,
+    old_value TEXT NOT NULL,
+    new_value TEXT NOT NULL,
+    changed_by TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    changed_at TEXT NOT NULL
+  );
+
+  CREATE INDEX idx_candidate_amendments_candidate ON candidate_amendments(candidate_id);
+  `,
+  `
+  CREATE TABLE audit_archives (
+    id TEXT PRIMARY KEY,
+    archived_by TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    entry_count INTEGER NOT NULL,
+    archived_at TEXT NOT NULL
+  );
+
+  ALTER TABLE audit_log ADD COLUMN archive_id TEXT REFERENCES audit_archives(id);
+
+  -- Hashes are computed by the server. Links created here for existing records
+  -- are sealed, oldest first, the next time it starts.
+  CREATE TABLE audit_chain (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    record_type TEXT NOT NULL CHECK (record_type IN ('entry', 'review', 'archive')),
+    record_id TEXT NOT NULL,
+    previous_hash TEXT,
+    hash TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  INSERT INTO audit_chain (record_type, record_id, created_at)
+  SELECT record_type, record_id, created_at FROM (
+    SELECT 'entry' AS record_type, id AS record_id, timestamp AS created_at FROM audit_log
+    UNION ALL
+    SELECT 'review', CAST(id AS TEXT), created_at FROM audit_reviews
+  )
+  ORDER BY created_at;
+
+  -- Append-only: the only updates allowed are a review decision, archiving an
+  -- entry once, and sealing an unsealed link.
+  CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+
+  CREATE TRIGGER audit_log_no_rewrite BEFORE UPDATE OF
+    id, candidate_id, kind, full_name, email, interview_status, exception_count, risk_score, risk_level,
+    rule_version, timestamp
+  ON audit_log
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+
+  CREATE TRIGGER audit_log_archive_once BEFORE UPDATE OF archive_id ON audit_log WHEN OLD.archive_id IS NOT NULL
+  BEGIN SELECT RAISE(ABORT, 'Archived entries cannot be moved'); END;
+
+  CREATE TRIGGER audit_exceptions_no_update BEFORE UPDATE ON audit_exceptions
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+
+  CREATE TRIGGER audit_exceptions_no_delete BEFORE DELETE ON audit_exceptions
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+
+  CREATE TRIGGER audit_risk_factors_no_update BEFORE UPDATE ON audit_risk_factors
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+
+  CREATE TRIGGER audit_risk_factors_no_delete BEFORE DELETE ON audit_risk_factors
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+
+  CREATE TRIGGER audit_reviews_no_update BEFORE UPDATE ON audit_reviews
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+
+  CREATE TRIGGER audit_reviews_no_delete BEFORE DELETE ON audit_reviews
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+
+  CREATE TRIGGER audit_archives_no_update BEFORE UPDATE ON audit_archives
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+
+  CREATE TRIGGER audit_archives_no_delete BEFORE DELETE ON audit_archives
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+
+  CREATE TRIGGER audit_chain_no_delete BEFORE DELETE ON audit_chain
+  BEGIN SELECT RAISE(ABORT, 'The audit chain is append-only'); END;
+
+  CREATE TRIGGER audit_chain_seal_once BEFORE UPDATE ON audit_chain WHEN OLD.hash IS NOT NULL
+  BEGIN SELECT RAISE(ABORT, 'The audit chain is append-only'); END;
+  `,
+  `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    display_name TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('screener', 'reviewer', 'admin')),
+    password_hash TEXT NOT NULL,
+    active INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id),
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+
+  CREATE INDEX idx_sessions_expires_at ON sessions(expires_at);
+
+  ALTER TABLE audit_log ADD COLUMN submitted_by TEXT;
+
+  CREATE TRIGGER audit_log_no_reattribute BEFORE UPDATE OF submitted_by ON audit_log
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+  `,
+  `
+  CREATE TABLE offer_letter_templates (
+    kind TEXT NOT NULL CHECK (kind IN ('Cleared', 'Waitlisted')),
+    version INTEGER NOT NULL,
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    response_days INTEGER NOT NULL,
+    author TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (kind, version)
+  );
+
+  -- Rendered documents exactly as sent; a reissued letter is a new version, never an edit.
+  CREATE TABLE offer_letters (
+    candidate_id TEXT NOT NULL REFERENCES candidates(id),
+    version INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    template_version INTEGER NOT NULL,
+    subject TEXT NOT NULL,
+    html TEXT NOT NULL,
+    generated_by TEXT NOT NULL,
+    generated_at TEXT NOT NULL,
+    PRIMARY KEY (candidate_id, version)
+  );
+
+  CREATE TRIGGER offer_letters_no_update BEFORE UPDATE ON offer_letters
+  BEGIN SELECT RAISE(ABORT, 'Sent offer letters cannot be changed'); END;
+  `,
+  `
+  CREATE TABLE programs (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    cohort TEXT NOT NULL,
+    seats INTEGER NOT NULL CHECK (seats >= 0),
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    UNIQUE (name, cohort)
+  );
+
+  -- Version numbers stay global; rows without a program are the default rule set.
+  ALTER TABLE rule_versions ADD COLUMN program_id TEXT REFERENCES programs(id);
+
+  ALTER TABLE candidates ADD COLUMN program_id TEXT REFERENCES programs(id);
+
+  CREATE INDEX idx_candidates_program ON candidates(program_id, status);
+  `,
+  `
+  -- Partner portals authenticate with a bearer key; only its hash is stored.
+  CREATE TABLE api_keys (
+    id TEXT PRIMARY KEY,
+    source TEXT NOT NULL UNIQUE,
+    token_hash TEXT NOT NULL UNIQUE,
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT,
+    revoked_at TEXT
+  );
+
+  -- One row per accepted intake request, so a retry with the same key is answered without a second submission.
+  CREATE TABLE intake_requests (
+    api_key_id TEXT NOT NULL REFERENCES api_keys(id),
+    idempotency_key TEXT NOT NULL,
+    request_hash TEXT NOT NULL,
+    candidate_id TEXT NOT NULL REFERENCES candidates(id),
+    audit_id TEXT NOT NULL REFERENCES audit_log(id),
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (api_key_id, idempotency_key)
+  );
+
+  ALTER TABLE audit_log ADD COLUMN source TEXT;
+  `,
+  `
+  -- Only reviewers and admins approve exceptions. Anyone else's are stored
+  -- without an approver and settled by the entry's review decision.
+  CREATE TABLE audit_exceptions_v2 (
+    audit_id TEXT NOT NULL REFERENCES audit_log(id) ON DELETE CASCADE,
+    rule_id TEXT NOT NULL,
+    field TEXT NOT NULL,
+    message TEXT NOT NULL,
+    justification TEXT NOT NULL,
+    approved_by TEXT,
+    PRIMARY KEY (audit_id, rule_id)
+  );
+
+  INSERT INTO audit_exceptions_v2 SELECT audit_id, rule_id, field, message, justification, approved_by FROM audit_exceptions;
+
+  -- Dropping a table does not fire its delete triggers; they go with it and are recreated below.
+  DROP TABLE audit_exceptions;
+
+  ALTER TABLE audit_exceptions_v2 RENAME TO audit_exceptions;
+
+  CREATE TRIGGER audit_exceptions_no_update BEFORE UPDATE ON audit_exceptions
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+
+  CREATE TRIGGER audit_exceptions_no_delete BEFORE DELETE ON audit_exceptions
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+  `,
+  `
+  -- The partner source tag is as permanent as the rest of the entry.
+  DROP TRIGGER audit_log_no_rewrite;
+
+  CREATE TRIGGER audit_log_no_rewrite BEFORE UPDATE OF
+    id, candidate_id, kind, full_name, email, interview_status, exception_count, risk_score, risk_level,
+    rule_version, timestamp, source
+  ON audit_log
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+  `,
+  `
+  -- The review status an entry was logged with is hashed into its chain link.
+  -- Entries logged before this were hashed without it, so theirs stays NULL.
+  ALTER TABLE audit_log ADD COLUMN initial_review_status TEXT;
+
+  DROP TRIGGER audit_log_no_rewrite;
+
+  CREATE TRIGGER audit_log_no_rewrite BEFORE UPDATE OF
+    id, candidate_id, kind, full_name, email, interview_status, exception_count, risk_score, risk_level,
+    rule_version, timestamp, source, initial_review_status
+  ON audit_log
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+
+  -- A pending entry's status only ever becomes the review decision just recorded for it.
+  CREATE TRIGGER audit_log_review_once BEFORE UPDATE OF review_status ON audit_log
+  WHEN OLD.review_status != 'Pending'
+    OR NEW.review_status IS NOT (SELECT decision FROM audit_reviews WHERE audit_id = NEW.id ORDER BY id DESC LIMIT 1)
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+  `,
+  `
+  -- The log kept by the browser-only version of the app is imported once, by an admin.
+  CREATE TABLE legacy_audit_import (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    imported_by TEXT NOT NULL,
+    entry_count INTEGER NOT NULL,
+    imported_at TEXT NOT NULL
+  );
+
+  CREATE TRIGGER legacy_audit_import_no_update BEFORE UPDATE ON legacy_audit_import
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+
+  CREATE TRIGGER legacy_audit_import_no_delete BEFORE DELETE ON legacy_audit_import
+  BEGIN SELECT RAISE(ABORT, 'The audit log is append-only'); END;
+
+  -- Databases that already took an import keep it as their one import. Entries with
+  -- neither a rule version nor a submitter came from it, or predate both.
+  INSERT INTO legacy_audit_import (id, imported_by, entry_count, imported_at)
+  SELECT 1, 'unknown', COUNT(*), MIN(timestamp) FROM audit_log WHERE rule_version IS NULL AND submitted_by IS NULL
+  HAVING COUNT(*) > 0;
+  `,
+  `
+  -- Each draft belongs to the user who saved it. Drafts from before owners were
+  -- recorded cannot be handed to anyone, and they held full Aadhaar numbers.
+  DELETE FROM drafts;
+
+  ALTER TABLE drafts ADD COLUMN owner TEXT NOT NULL DEFAULT '';
+
+  CREATE INDEX idx_drafts_owner ON drafts(owner, updated_at);
+  `,
+  `
+  -- Entries and candidates are hydrated one at a time, and duplicates looked up by field.
+  CREATE INDEX idx_aadhaar_access_log_candidate ON aadhaar_access_log(candidate_id);
+  CREATE INDEX idx_audit_reviews_audit ON audit_reviews(audit_id);
+
+  CREATE INDEX idx_candidates_aadhaar ON candidates(aadhaar_number);
+  CREATE INDEX idx_candidates_email ON candidates(lower(trim(email)));
+  CREATE INDEX idx_candidates_phone ON candidates(phone);
+  CREATE INDEX idx_candidates_dob ON candidates(json_extract(data, '$.dob'));
+  `,
+];
+
+function migrate(db: Database.Database) {
+  const version = db.pragma('user_version', { simple: true }) as number;
+  for (let i = version; i < MIGRATIONS.length; i++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[i]);
+      db.pragma(`user_version = ${i + 1}`);
+    })();
+  }
+}
+
+export const db = new Database(DATABASE_PATH);
+db.pragma('journal_mode = WAL');
+db.pragma('foreign_keys = ON');
+migrate(db);
@@ -0,0 +1,195 @@
+import { RISK_LEVELS } from '../src/constants';
+import { toCsv } from '../src/lib/csv';
+import { describeApproval, quoteJustification } from '../src/lib/format';
+import { AuditLogEntry, AuditLogFilters } from '../src/types';
+
+/**
+ * An audit entry joined with its candidate's Aadhaar number (masked unless
+ * explicitly revealed) and normalized percentage.
+ */
+export interface AuditExportRow extends AuditLogEntry {
+  aadhaarNumber: string;
+  normalizedPercentage: number | null;
+}
+
+const CSV_HEADERS = [
+  'Entry ID',
+  'Candidate ID',
+  'Entry Type',
+  'Submitted By',
+  'Source',
+  'Full Name',
+  'Email',
+  'Aadhaar Number',
+  'Interview Status',
+  'Normalized Percentage',
+  'Risk Level',
+  'Exception Count',
+  'Risk Score',
+  'Rule Version',
+  'Review Status',
+  'Timestamp',
+  'Exceptions',
+  'Risk Breakdown',
+  'Reviews',
+];
+
+function describeExceptions(entry: AuditLogEntry): string {
+  if (!entry.exceptions) return '';
+  return entry.exceptions
+    .map(e => `${e.ruleId}: ${e.message} — ${quoteJustification(e)} (${describeApproval(e, entry)})`)
+    .join(' | ');
+}
+
+function describeRiskBreakdown(entry: AuditLogEntry): string {
+  return (entry.riskBreakdown ?? []).map(c => `${c.ruleId}: ${c.points}`).join(' | ');
+}
+
+function describeReviews(entry: AuditLogEntry): string {
+  return (entry.reviews ?? [])
+    .map(r => `${r.decision} by ${r.reviewer} at ${r.timestamp}: "${r.comment}"`)
+    .join(' | ');
+}
+
+export function auditLogToCsv(rows: AuditExportRow[]): string {
+  return toCsv([
+    CSV_HEADERS,
+    ...rows.map(row => [
+      row.id,
+      row.candidateId ?? '',
+      row.kind,
+      row.submittedBy ?? '',
+      row.source ?? '',
+      row.fullName,
+      row.email,
+      row.aadhaarNumber,
+      row.interviewStatus,
+      row.normalizedPercentage === null ? '' : String(row.normalizedPercentage),
+      row.riskLevel,
+      String(row.exceptionCount),
+      row.riskScore === undefined ? '' : String(row.riskScore),
+      row.ruleVersion ? String(row.ruleVersion) : '',
+      row.reviewStatus,
+      row.timestamp,
+      describeExceptions(row),
+      describeRiskBreakdown(row),
+      describeReviews(row),
+    ]),
+  ]);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function countBy(rows: AuditExportRow[], key: (row: AuditExportRow) => string): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  rows.forEach(row => counts.set(key(row), (counts.get(key(row)) ?? 0) + 1));
+  return [...counts.entries()];
+}
+
+function describeFilters(filters: AuditLogFilters): string {
+  const parts = [
+    filters.search && `search "${filters.search}"`,
+    filters.riskLevel && `risk ${filters.riskLevel}`,
+    filters.interviewStatus && `interview ${filters.interviewStatus}`,
+    filters.reviewStatus && `review ${filters.reviewStatus}`,
+    filters.minExceptions !== undefined && `at least ${filters.minExceptions} exceptions`,
+    filters.maxExceptions !== undefined && `at most ${filters.maxExceptions} exceptions`,
+    filters.from && `from ${filters.from}`,
+    filters.to && `to ${filters.to}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
+/** A self-contained HTML page meant to be printed or saved as PDF from the browser. */
+export function renderAuditReport(rows: AuditExportRow[], filters: AuditLogFilters, generatedAt: Date): string {
+  const riskTotals = RISK_LEVELS.map(level => [level, rows.filter(r => r.riskLevel === level).length] as const);
+  const interviewTotals = countBy(rows, row => row.interviewStatus || 'Not set');
+  const summaryTable = (title: string, totals: ReadonlyArray<readonly [string, number]>) => `
+    <table class="summary">
+      <thead><tr><th colspan="2">${escapeHtml(title)}</th></tr></thead>
+      <tbody>${totals.map(([label, count]) => `<tr><td>${escapeHtml(label)}</td><td>${count}</td></tr>`).join('')}</tbody>
+    </table>`;
+
+  const entryRows = rows.map(row => `
+    <tr>
+      <td>${escapeHtml(row.timestamp)}</td>
+      <td><strong>${escapeHtml(row.fullName)}</strong><br>${escapeHtml(row.email)}<br><code>${escapeHtml(row.aadhaarNumber)}</code></td>
+      <td>${escapeHtml(row.interviewStatus)}</td>
+      <td>${row.normalizedPercentage === null ? '' : `${row.normalizedPercentage}%`}</td>
+      <td>${row.riskLevel}${row.riskScore === undefined ? '' : ` (${row.riskScore})`}</td>
+      <td>${row.reviewStatus}</td>
+      <td>${row.ruleVersion ? `v${row.ruleVersion}` : ''}</td>
+      <td>${row.exceptions
+        ? row.exceptions.map(e => `${escapeHtml(e.message)}<br><em>${escapeHtml(quoteJustification(e))} — ${escapeHtml(describeApproval(e, row))}</em>`).join('<br>')
+        : `${row.exceptionCount} (details not recorded)`}</td>
+    </tr>`).join('');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>AdmitGuard Audit Report</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 2rem; font-size: 12px; }
+  h1 { font-size: 20px; margin-bottom: 0.25rem; }
+  .meta { color: #64748b; margin-bottom: 1.5rem; }
+  .summaries { display: flex; gap: 2rem; margin-bottom: 1.5rem; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #cbd5e1; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; text-transform: uppercase; font-size: 10px; }
+  .entries { width: 100%; }
+  .entries tr { page-break-inside: avoid; }
+  button { margin-bottom: 1rem; }
+  @media print { button { display: none; } body { margin: 0; } }
+</style>
+</head>
+<body>
+<button onclick="window.print()">Print</button>
+<h1>AdmitGuard Audit Report</h1>
+<p class="meta">Generated ${escapeHtml(generatedAt.toISOString())} · ${rows.length} entries · Filters: ${escapeHtml(describeFilters(filters))}</p>
+<div class="summaries">
+  ${summaryTable('Risk Level', riskTotals)}
+  ${summaryTable('Interview Status', interviewTotals)}
+</div>
+<table class="entries">
+  <thead><tr><th>Timestamp</th><th>Candidate</th><th>Interview</th><th>Score</th><th>Risk</th><th>Review</th><th>Rules</th><th>Exceptions</th></tr></thead>
+  <tbody>${entryRows}</tbody>
+</table>
+</body>
+</html>`;
+}
+
+/** A printable offer letter. Blank lines in the body start new paragraphs. */
+export function renderOfferLetter(subject: string, body: string): string {
+  const paragraphs = body
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(subject)}</title>
+<style>
+  body { font-family: Georgia, serif; color: #0f172a; max-width: 40rem; margin: 3rem auto; font-size: 14px; line-height: 1.6; }
+  h1 { font-size: 18px; margin-bottom: 1.5rem; }
+  button { margin-bottom: 1rem; }
+  @media print { button { display: none; } body { margin: 0 auto; } }
+</style>
+</head>
+<body>
+<button onclick="window.print()">Print</button>
+<h1>${escapeHtml(subject)}</h1>
+${paragraphs}
+</body>
+</html>`;
+}
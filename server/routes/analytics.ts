@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { listAllAuditEntries, listCandidates } from '../store';
+import { computeAnalytics, parseAnalyticsParams } from '../../src/lib/analytics';
+
+export const analyticsRouter = Router();
+
+analyticsRouter.get('/', (req, res) => {
+  const filters = parseAnalyticsParams(req.query as Record<string, unknown>);
+  res.json(computeAnalytics(listAllAuditEntries(), listCandidates(), filters));
+});
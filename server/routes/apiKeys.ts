@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { actorOf, hashSessionToken, newApiKeyToken } from '../auth';
+import { HttpError } from '../http';
+import { createApiKey, getApiKey, getApiKeyBySource, listApiKeys, revokeApiKey } from '../store';
+import { ApiKeyRequest, CreatedApiKey } from '../../src/types';
+
+const SOURCE_REGEX = /^[a-z0-9][a-z0-9-]{2,39}$/;
+
+export const apiKeysRouter = Router();
+
+apiKeysRouter.get('/', (_req, res) => {
+  res.json(listApiKeys());
+});
+
+apiKeysRouter.post('/', (req, res) => {
+  const { source } = (req.body ?? {}) as Partial<ApiKeyRequest>;
+  if (typeof source !== 'string' || !SOURCE_REGEX.test(source)) {
+    throw new HttpError(400, 'source must be 3-40 lowercase letters, digits or dashes');
+  }
+  // A revoked source stays taken so its past submissions remain attributable to one partner.
+  if (getApiKeyBySource(source)) throw new HttpError(409, `The source ${source} already has a key`);
+  const token = newApiKeyToken();
+  const body: CreatedApiKey = { ...createApiKey(source, hashSessionToken(token), actorOf(req)), token };
+  res.status(201).json(body);
+});
+
+apiKeysRouter.post('/:id/revoke', (req, res) => {
+  const apiKey = getApiKey(req.params.id);
+  if (!apiKey) throw new HttpError(404, 'API key not found');
+  if (apiKey.revokedAt) throw new HttpError(409, `The key for ${apiKey.source} is already revoked`);
+  res.json(revokeApiKey(apiKey.id));
+});
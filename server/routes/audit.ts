@@ -0,0 +1,184 @@
+import { Request, Response, Router } from 'express';
+import { actorOf, requirePermission } from '../auth';
+import { HttpError } from '../http';
+import { auditLogToCsv, AuditExportRow, renderAuditReport } from '../reports';
+import {
+  archiveAuditLog,
+  countArchivableEntries,
+  getAuditArchive,
+  getAuditEntry,
+  hasImportedLegacyAuditLog,
+  importAuditEntries,
+  LegacyAuditEntry,
+  listArchivedAuditLog,
+  listAuditArchives,
+  listAuditLog,
+  listCandidates,
+  recordAadhaarReveal,
+  recordReview,
+  verifyAuditChain,
+} from '../store';
+import { maskAadhaar } from '../../src/lib/aadhaar';
+import { filterAuditLog, parseFilterParams } from '../../src/lib/auditFilters';
+import {
+  ArchiveRequest,
+  AuditExportFormat,
+  AuditExportRequest,
+  AuditLogFilters,
+  ReviewDecisionType,
+  ReviewRequest,
+  RiskLevel,
+} from '../../src/types';
+
+const REVIEW_DECISIONS: ReviewDecisionType[] = ['Approved', 'Rejected'];
+const EXPORT_FORMATS: AuditExportFormat[] = ['csv', 'json', 'html'];
+const RISK_LEVELS: RiskLevel[] = ['Low', 'Medium', 'High'];
+const LEGACY_TEXT_FIELDS = ['id', 'fullName', 'email', 'interviewStatus', 'timestamp'] as const;
+
+/** Keeps the fields the browser-only app recorded, refusing the import if any entry lacks one. */
+function parseLegacyEntry(value: unknown, index: number): LegacyAuditEntry {
+  const fail = (reason: string) => new HttpError(400, `Entry ${index + 1} ${reason}`);
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw fail('is not an object');
+  const entry = value as Record<string, unknown>;
+  for (const field of LEGACY_TEXT_FIELDS) {
+    if (typeof entry[field] !== 'string' || !(entry[field] as string).trim()) throw fail(`needs a ${field}`);
+  }
+  if (!Number.isInteger(entry.exceptionCount) || (entry.exceptionCount as number) < 0) {
+    throw fail('needs an exceptionCount of zero or more');
+  }
+  if (!RISK_LEVELS.includes(entry.riskLevel as RiskLevel)) throw fail(`needs a riskLevel of ${RISK_LEVELS.join(', ')}`);
+  return {
+    id: entry.id as string,
+    fullName: entry.fullName as string,
+    email: entry.email as string,
+    interviewStatus: entry.interviewStatus as string,
+    exceptionCount: entry.exceptionCount as number,
+    riskLevel: entry.riskLevel as RiskLevel,
+    timestamp: entry.timestamp as string,
+  };
+}
+
+export const auditRouter = Router();
+
+auditRouter.get('/', (_req, res) => {
+  res.json(listAuditLog());
+});
+
+/**
+ * Sends the filtered active log in `format`. Aadhaar numbers stay masked unless `reveal` is given;
+ * an unmasked export counts as a reveal by the caller for every candidate it contains.
+ */
+function sendExport(
+  req: Request,
+  res: Response,
+  format: unknown,
+  filters: AuditLogFilters,
+  reveal?: { reason: string },
+) {
+  if (!EXPORT_FORMATS.includes(format as AuditExportFormat)) {
+    throw new HttpError(400, 'format must be csv, json or html');
+  }
+  const candidatesById = new Map(listCandidates().map(c => [c.id, c]));
+  const rows: AuditExportRow[] = filterAuditLog(listAuditLog(), filters).map(entry => {
+    const candidate = entry.candidateId ? candidatesById.get(entry.candidateId) : undefined;
+    const aadhaarNumber = candidate?.aadhaarNumber ?? '';
+    return {
+      ...entry,
+      aadhaarNumber: reveal || !aadhaarNumber ? aadhaarNumber : maskAadhaar(aadhaarNumber),
+      normalizedPercentage: candidate?.normalizedPercentage ?? null,
+    };
+  });
+  if (reveal) {
+    new Set(rows.flatMap(row => (row.candidateId ? [row.candidateId] : [])))
+      .forEach(candidateId => recordAadhaarReveal(candidateId, actorOf(req), `Audit export: ${reveal.reason}`));
+  }
+
+  const now = new Date();
+  const fileName = `audit-log-${now.toISOString().slice(0, 10)}`;
+  if (format === 'html') {
+    res.type('html').send(renderAuditReport(rows, filters, now));
+  } else if (format === 'json') {
+    res.attachment(`${fileName}.json`).json(rows);
+  } else {
+    res.attachment(`${fileName}.csv`).type('text/csv').send(auditLogToCsv(rows));
+  }
+}
+
+// A plain link, so always masked.
+auditRouter.get('/export', (req, res) => {
+  if (req.query.unmask !== undefined) {
+    throw new HttpError(400, 'Exports with full Aadhaar numbers are POSTed with a reason');
+  }
+  sendExport(req, res, req.query.format ?? 'csv', parseFilterParams(req.query));
+});
+
+// Unmasked exports are POSTed so that no link from another site can make one, and the reason stays out of URLs.
+auditRouter.post('/export', requirePermission('revealAadhaar'), (req, res) => {
+  const { format, filters, reason } = (req.body ?? {}) as Partial<AuditExportRequest>;
+  if (typeof reason !== 'string' || !reason.trim()) {
+    throw new HttpError(400, 'reason is required to export unmasked Aadhaar numbers');
+  }
+  if (filters !== undefined && (typeof filters !== 'object' || filters === null || Array.isArray(filters))) {
+    throw new HttpError(400, 'filters must be an object');
+  }
+  sendExport(req, res, format, parseFilterParams(filters ?? {}), { reason: reason.trim() });
+});
+
+auditRouter.post('/import', requirePermission('archiveAuditLog'), (req, res) => {
+  const entries: unknown = req.body?.entries;
+  if (!Array.isArray(entries)) throw new HttpError(400, 'entries must be an array');
+  const legacyEntries = entries.map(parseLegacyEntry);
+  if (hasImportedLegacyAuditLog()) throw new HttpError(409, 'The legacy audit log has already been imported');
+  res.json({ imported: importAuditEntries(legacyEntries, actorOf(req)) });
+});
+
+auditRouter.post('/:id/review', requirePermission('reviewCandidates'), (req, res) => {
+  const { decision, comment } = (req.body ?? {}) as Partial<ReviewRequest>;
+  if (!REVIEW_DECISIONS.includes(decision as ReviewDecisionType)) {
+    throw new HttpError(400, 'decision must be Approved or Rejected');
+  }
+  if (typeof comment !== 'string' || !comment.trim()) throw new HttpError(400, 'comment is required');
+
+  const entry = getAuditEntry(req.params.id);
+  if (!entry) throw new HttpError(404, 'Audit entry not found');
+  if (entry.reviewStatus !== 'Pending') {
+    throw new HttpError(409, `Entry is not awaiting review (status: ${entry.reviewStatus})`);
+  }
+  // The sign-off must come from someone other than whoever submitted the entry or approved its exceptions.
+  const { username, displayName } = req.user!;
+  if (entry.submittedBy === username) {
+    throw new HttpError(403, 'Reviewers cannot sign off their own submissions');
+  }
+  const approvers = (entry.exceptions ?? []).flatMap(e => (e.approvedBy ? [e.approvedBy.toLowerCase()] : []));
+  if ([username, displayName].some(name => approvers.includes(name.toLowerCase()))) {
+    throw new HttpError(409, 'Reviewer must be a different person from the exception approver');
+  }
+
+  res.json(recordReview(entry.id, {
+    decision: decision as ReviewDecisionType,
+    reviewer: username,
+    comment: comment.trim(),
+    timestamp: new Date().toISOString(),
+  }));
+});
+
+auditRouter.get('/verify', (_req, res) => {
+  res.json(verifyAuditChain());
+});
+
+auditRouter.get('/archives', (_req, res) => {
+  res.json(listAuditArchives());
+});
+
+auditRouter.get('/archives/:id', (req, res) => {
+  if (!getAuditArchive(req.params.id)) throw new HttpError(404, 'Archive not found');
+  res.json(listArchivedAuditLog(req.params.id));
+});
+
+// Archiving replaces clearing the log: entries leave the active view but stay in the chain.
+auditRouter.post('/archives', requirePermission('archiveAuditLog'), (req, res) => {
+  const { reason } = (req.body ?? {}) as Partial<ArchiveRequest>;
+  if (typeof reason !== 'string' || !reason.trim()) throw new HttpError(400, 'reason is required');
+  if (countArchivableEntries() === 0) throw new HttpError(409, 'There are no settled entries to archive');
+  res.status(201).json(archiveAuditLog(actorOf(req), reason.trim()));
+});
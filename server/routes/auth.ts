@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { hashSessionToken, SESSION_COOKIE, sessionTokenOf, startSession, verifyPassword } from '../auth';
+import { HttpError } from '../http';
+import { countUsers, deleteSession, getUserCredentials } from '../store';
+import { registerUser } from './users';
+import { LoginRequest, SessionResponse, SetupRequest } from '../../src/types';
+
+export const authRouter = Router();
+
+authRouter.get('/session', (req, res) => {
+  const body: SessionResponse = { user: req.user ?? null, needsSetup: countUsers() === 0 };
+  res.json(body);
+});
+
+authRouter.post('/login', (req, res) => {
+  const { username, password } = (req.body ?? {}) as Partial<LoginRequest>;
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    throw new HttpError(400, 'username and password are required');
+  }
+  const credentials = getUserCredentials(username.trim());
+  // One message for every failure, so it does not reveal which usernames exist.
+  if (!credentials || !credentials.user.active || !verifyPassword(password, credentials.passwordHash)) {
+    throw new HttpError(401, 'Invalid username or password');
+  }
+  startSession(res, credentials.user.id);
+  res.json(credentials.user);
+});
+
+authRouter.post('/logout', (req, res) => {
+  const token = sessionTokenOf(req);
+  if (token) deleteSession(hashSessionToken(token));
+  res.clearCookie(SESSION_COOKIE, { path: '/' });
+  res.status(204).end();
+});
+
+// Only available until the first account exists; that account is always an admin.
+authRouter.post('/setup', (req, res) => {
+  if (countUsers() > 0) throw new HttpError(409, 'Setup has already been completed');
+  const user = registerUser((req.body ?? {}) as Partial<SetupRequest>, 'admin');
+  startSession(res, user.id);
+  res.status(201).json(user);
+});
@@ -0,0 +1,417 @@
+import { Request, Router } from 'express';
+import { actorOf, requirePermission } from '../auth';
+import { HttpError } from '../http';
+import { renderOfferLetter } from '../reports';
+import {
+  amendCandidate,
+  CandidateDetails,
+  countSeatsHeld,
+  createSubmission,
+  deleteDraft,
+  getCandidate,
+  getCurrentFormSchemaVersion,
+  getCurrentOfferLetterTemplate,
+  getCurrentRuleVersion,
+  getLatestAuditEntryForCandidate,
+  getOfferLetterHtml,
+  getProgram,
+  IntakeOrigin,
+  listCandidates,
+  listPossibleDuplicates,
+  recordAadhaarReveal,
+  recordOfferLetter,
+  RenderedOfferLetter,
+  SubmissionScoring,
+  transitionCandidate,
+} from '../store';
+import { INITIAL_STATE } from '../../src/constants';
+import { maskAadhaar } from '../../src/lib/aadhaar';
+import { diffFormStates } from '../../src/lib/amendments';
+import { findDuplicateClusters, findDuplicateMatches } from '../../src/lib/duplicates';
+import { pickCustomFields } from '../../src/lib/formSchema';
+import {
+  CANDIDATE_STATUSES,
+  checkTransition,
+  initialStatus,
+  STATUS_MANAGED_FIELDS,
+  TransitionContext,
+} from '../../src/lib/lifecycle';
+import { fillOfferLetter, offerLetterKindOf } from '../../src/lib/offerLetters';
+import { can } from '../../src/lib/permissions';
+import { holdsSeat, programLabel, seatsLeft } from '../../src/lib/programs';
+import { normalizePercentage } from '../../src/lib/scores';
+import {
+  assessRisk,
+  grantExceptions,
+  hasStrictErrors,
+  requiresReview,
+  RuleViolation,
+  screenBatch,
+  validateAdmission,
+  validateExceptionRequests,
+} from '../../src/validation';
+import {
+  AadhaarRevealRequest,
+  AadhaarRevealResponse,
+  AmendmentRequest,
+  CandidateRecord,
+  CandidateStatus,
+  ExceptionRequest,
+  FormSchema,
+  FormState,
+  ImportPreviewRequest,
+  ImportRequest,
+  ImportRowResult,
+  RuleVersion,
+  SubmissionRequest,
+  SubmissionResponse,
+  TransitionRequest,
+} from '../../src/types';
+
+// The full Aadhaar number never leaves the server except through the logged reveal endpoint.
+export function toPublicCandidate(candidate: CandidateRecord): CandidateRecord {
+  return { ...candidate, aadhaarNumber: maskAadhaar(candidate.aadhaarNumber) };
+}
+
+/**
+ * Keeps the form fields of a candidate payload, each of the type the form uses.
+ * Wrong types are reported per field like validation errors; unknown keys are dropped.
+ */
+export function parseCandidate(value: unknown): Partial<FormState> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new HttpError(400, 'candidate is required');
+  const candidate: Record<string, unknown> = {};
+  const errors: Record<string, string> = {};
+  for (const [key, initial] of Object.entries(INITIAL_STATE)) {
+    const field = (value as Record<string, unknown>)[key];
+    if (field === undefined) continue;
+    const isObject = typeof field === 'object' && field !== null && !Array.isArray(field);
+    if (key === 'customFields' ? isObject : typeof field === typeof initial) candidate[key] = field;
+    else errors[key] = `Must be ${key === 'customFields' ? 'an object' : `a ${typeof initial}`}`;
+  }
+  if (Object.keys(errors).length > 0) throw new HttpError(422, 'Candidate has fields of the wrong type', { errors });
+  return candidate as Partial<FormState>;
+}
+
+/** Keeps the rule id and justification of each requested exception; a missing list is an empty one. */
+function parseExceptionRequests(value: unknown): ExceptionRequest[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new HttpError(400, 'exceptions must be an array');
+  return value.map((request, index) => {
+    const { ruleId, justification } = (request ?? {}) as Partial<Record<keyof ExceptionRequest, unknown>>;
+    if (typeof ruleId !== 'string' || typeof justification !== 'string') {
+      throw new HttpError(400, `Exception ${index + 1} needs a ruleId and a justification, both strings`);
+    }
+    return { ruleId, justification };
+  });
+}
+
+/** Fills fields the client left out and keeps only the custom fields the schema defines. */
+function toFormState(candidate: Partial<FormState>, schema: FormSchema): FormState {
+  return {
+    ...INITIAL_STATE,
+    ...candidate,
+    programId: typeof candidate.programId === 'string' ? candidate.programId : '',
+    customFields: pickCustomFields(candidate.customFields, schema),
+  };
+}
+
+/** The rule set in force for the candidate's program, or the default rules without one. */
+function ruleVersionFor(data: FormState): RuleVersion {
+  if (data.programId && !getProgram(data.programId)) {
+    throw new HttpError(422, 'Unknown program', { errors: { programId: 'Choose one of the configured programs' } });
+  }
+  return getCurrentRuleVersion(data.programId || null);
+}
+
+/** Refuses a seat in a program that has none left. `excludeId` is the candidate's own stored record. */
+function assertSeatAvailable(data: FormState, status: CandidateStatus, excludeId?: string) {
+  if (!data.programId || !holdsSeat({ status, interviewStatus: data.interviewStatus })) return;
+  const program = getProgram(data.programId)!;
+  if (countSeatsHeld(program.id, excludeId) < program.seats) return;
+  const message = `${programLabel(program)} has no seats left`;
+  throw new HttpError(422, message, { errors: { interviewStatus: message } });
+}
+
+function transitionContextOf(candidate: CandidateRecord): TransitionContext {
+  const program = candidate.programId ? getProgram(candidate.programId) : undefined;
+  return {
+    reviewStatus: getLatestAuditEntryForCandidate(candidate.id)?.reviewStatus,
+    interviewStatus: candidate.interviewStatus,
+    seatsLeft: program && seatsLeft(program),
+  };
+}
+
+/** Program ids are recorded in the amendment history by name. */
+function describeProgram(programId: string): string {
+  const program = programId ? getProgram(programId) : undefined;
+  return program ? programLabel(program) : 'None';
+}
+
+interface Assessment {
+  data: FormState;
+  details: CandidateDetails;
+  scoring: SubmissionScoring;
+}
+
+/**
+ * Partners cannot justify or approve exceptions. Each soft rule their submission
+ * triggers is recorded without either, and the entry's reviewer settles it.
+ */
+function partnerExceptions(violations: RuleViolation[]): ExceptionRequest[] {
+  return violations.filter(v => v.severity === 'soft').map(v => ({ ruleId: v.ruleId, justification: '' }));
+}
+
+/** Reviewers and admins approve the exceptions they submit; everyone else's wait for the entry's review. */
+function exceptionApproverOf(req: Request): string | undefined {
+  return can(req.user!, 'reviewCandidates') ? actorOf(req) : undefined;
+}
+
+interface AssessmentOptions {
+  /** Signed-in reviewer or admin the exceptions are approved by. */
+  approver?: string;
+  /** Keeps a stored candidate from being reported as its own duplicate. */
+  excludeId?: string;
+  /** Set for amendments, which leave the status-managed fields and their rules to transitions. */
+  amending?: boolean;
+  /** Marks a partner submission. */
+  source?: string;
+}
+
+/**
+ * Runs the full admission pipeline for one candidate against the current rules
+ * and form. Throws an HttpError describing the first gate the candidate fails.
+ */
+function assessCandidate(
+  candidate: Partial<FormState>,
+  exceptions: ExceptionRequest[],
+  { approver, excludeId, amending, source }: AssessmentOptions = {},
+): Assessment {
+  // Never trust the client's verdict: re-run the shared rule engine here.
+  const { version: formVersion, schema } = getCurrentFormSchemaVersion();
+  const data = toFormState(candidate, schema);
+  const { version, rules } = ruleVersionFor(data);
+  const duplicates = findDuplicateMatches(data, listPossibleDuplicates(data), excludeId);
+  const skipFields = amending ? STATUS_MANAGED_FIELDS : undefined;
+  const result = validateAdmission(data, rules, { duplicates, schema, skipFields });
+  if (hasStrictErrors(result)) {
+    throw new HttpError(422, 'Candidate failed strict validation', { errors: result.errors });
+  }
+
+  const requests = source ? partnerExceptions(result.violations) : exceptions;
+  const exceptionErrors = source ? {} : validateExceptionRequests(result.violations, requests);
+  if (Object.keys(exceptionErrors).length > 0) {
+    throw new HttpError(422, 'Every triggered soft rule needs a justification', {
+      exceptions: exceptionErrors,
+    });
+  }
+
+  const risk = assessRisk(result, rules);
+  const needsReview = requiresReview(risk.riskLevel, rules, !approver && risk.exceptionCount > 0);
+  return {
+    data,
+    details: { normalizedPercentage: normalizePercentage(data, rules), formVersion },
+    scoring: {
+      ...risk,
+      ruleVersion: version,
+      exceptions: grantExceptions(result.violations, requests, approver),
+      reviewStatus: needsReview ? 'Pending' : 'Not Required',
+    },
+  };
+}
+
+/** `approver` is set when the submitter may approve the exceptions themselves. */
+export function submitCandidate(
+  candidate: Partial<FormState>,
+  exceptions: ExceptionRequest[],
+  submittedBy: string,
+  approver?: string,
+  intake?: IntakeOrigin,
+): SubmissionResponse {
+  const { data, details, scoring } = assessCandidate(candidate, exceptions, { approver, source: intake?.apiKey.source });
+  assertSeatAvailable(data, initialStatus(data));
+  const { candidate: created, auditEntry } = createSubmission(data, details, scoring, submittedBy, intake);
+  return { candidate: toPublicCandidate(created), auditEntry };
+}
+
+/**
+ * Renders the candidate's letter from the current template for their interview
+ * outcome. Refuses candidates who cannot be moved to Offer Sent; those already
+ * there can be sent a reissued letter.
+ */
+function prepareOfferLetter(candidate: CandidateRecord): RenderedOfferLetter {
+  const kind = offerLetterKindOf(candidate);
+  if (!kind) throw new HttpError(409, 'Offer letters are only sent to Cleared or Waitlisted candidates');
+  if (candidate.status !== 'Offer Sent') {
+    const error = checkTransition(candidate.status, 'Offer Sent', transitionContextOf(candidate));
+    if (error) throw new HttpError(409, error);
+  }
+  const template = getCurrentOfferLetterTemplate(kind);
+  const { subject, body } = fillOfferLetter(template, candidate, new Date());
+  return { kind, templateVersion: template.version, subject, html: renderOfferLetter(subject, body) };
+}
+
+/** Flattens an HttpError and its per-field details into lines for the rejected-rows report. */
+function describeFailure(err: HttpError): string[] {
+  const details = (err.details ?? {}) as Record<string, Record<string, string>>;
+  const messages = Object.values(details).flatMap(group => Object.values(group));
+  return messages.length > 0 ? messages : [err.message];
+}
+
+export const candidatesRouter = Router();
+
+candidatesRouter.get('/', (_req, res) => {
+  res.json(listCandidates().map(toPublicCandidate));
+});
+
+candidatesRouter.get('/duplicate-clusters', (_req, res) => {
+  res.json(findDuplicateClusters(listCandidates()));
+});
+
+// Live lookup for the form. Runs here because stored Aadhaar numbers are never sent to the client.
+candidatesRouter.post('/duplicates', (req, res) => {
+  const candidate = req.body?.candidate as Partial<FormState> | undefined;
+  const excludeId = req.body?.excludeId as string | undefined;
+  if (!candidate || typeof candidate !== 'object') throw new HttpError(400, 'candidate is required');
+  if (excludeId !== undefined && typeof excludeId !== 'string') throw new HttpError(400, 'excludeId must be a string');
+  const data = { ...INITIAL_STATE, ...candidate };
+  res.json(findDuplicateMatches(data, listPossibleDuplicates(data), excludeId));
+});
+
+candidatesRouter.get('/:id', (req, res) => {
+  const candidate = getCandidate(req.params.id);
+  if (!candidate) throw new HttpError(404, 'Candidate not found');
+  res.json(toPublicCandidate(candidate));
+});
+
+candidatesRouter.post('/:id/aadhaar', requirePermission('revealAadhaar'), (req, res) => {
+  const { reason } = (req.body ?? {}) as Partial<AadhaarRevealRequest>;
+  if (typeof reason !== 'string' || !reason.trim()) throw new HttpError(400, 'reason is required');
+
+  const candidate = getCandidate(req.params.id);
+  if (!candidate) throw new HttpError(404, 'Candidate not found');
+  const access = recordAadhaarReveal(candidate.id, actorOf(req), reason.trim());
+  const body: AadhaarRevealResponse = { aadhaarNumber: candidate.aadhaarNumber, access };
+  res.json(body);
+});
+
+candidatesRouter.post('/', requirePermission('enterCandidates'), (req, res) => {
+  const { draftId } = (req.body ?? {}) as Partial<SubmissionRequest>;
+  const candidate = parseCandidate(req.body?.candidate);
+  const exceptions = parseExceptionRequests(req.body?.exceptions);
+  const response = submitCandidate(candidate, exceptions, actorOf(req), exceptionApproverOf(req));
+  if (typeof draftId === 'string') deleteDraft(draftId, actorOf(req));
+  res.status(201).json(response);
+});
+
+// Bulk intake: score every row against stored candidates and the earlier rows of the same file.
+candidatesRouter.post('/import/preview', requirePermission('enterCandidates'), (req, res) => {
+  const { candidates } = (req.body ?? {}) as Partial<ImportPreviewRequest>;
+  if (!Array.isArray(candidates)) throw new HttpError(400, 'candidates must be an array');
+
+  const { schema } = getCurrentFormSchemaVersion();
+  const forms = candidates.map(candidate => toFormState(parseCandidate(candidate), schema));
+  const preview = screenBatch(forms, data => ruleVersionFor(data).rules, {
+    pool: listPossibleDuplicates,
+    schema,
+    approvesExceptions: !!exceptionApproverOf(req),
+  });
+  res.json(preview);
+});
+
+// Rows are stored one by one through the single-submission path; a refused row does not stop the rest.
+candidatesRouter.post('/import', requirePermission('enterCandidates'), (req, res) => {
+  const { rows } = (req.body ?? {}) as Partial<ImportRequest>;
+  if (!Array.isArray(rows)) throw new HttpError(400, 'rows must be an array');
+
+  const results = rows.map((row): ImportRowResult => {
+    try {
+      const candidate = parseCandidate(row?.candidate);
+      const exceptions = parseExceptionRequests(row.exceptions);
+      return { auditEntry: submitCandidate(candidate, exceptions, actorOf(req), exceptionApproverOf(req)).auditEntry };
+    } catch (err) {
+      if (!(err instanceof HttpError)) throw err;
+      return { errors: describeFailure(err) };
+    }
+  });
+  res.json(results);
+});
+
+// Amendments go through the same pipeline as a submission and are scored afresh.
+candidatesRouter.post('/:id/amendments', requirePermission('enterCandidates'), (req, res) => {
+  const { reason } = (req.body ?? {}) as Partial<AmendmentRequest>;
+  const candidate = parseCandidate(req.body?.candidate);
+  const exceptions = parseExceptionRequests(req.body?.exceptions);
+  if (typeof reason !== 'string' || !reason.trim()) throw new HttpError(400, 'reason is required');
+
+  const stored = getCandidate(req.params.id);
+  if (!stored) throw new HttpError(404, 'Candidate not found');
+  const { data, details, scoring } = assessCandidate(candidate, exceptions, {
+    approver: exceptionApproverOf(req),
+    excludeId: stored.id,
+    amending: true,
+  });
+  if (data.programId !== stored.programId) assertSeatAvailable(data, stored.status, stored.id);
+
+  const before = toFormState(stored, getCurrentFormSchemaVersion().schema);
+  const changes = diffFormStates(before, data);
+  const locked = changes.filter(change => (STATUS_MANAGED_FIELDS as string[]).includes(change.field));
+  if (locked.length > 0) {
+    throw new HttpError(422, 'Interview status and offer letter change only through status transitions', {
+      errors: Object.fromEntries(locked.map(change => [change.field, 'Change this through a status transition'])),
+    });
+  }
+  if (changes.length === 0) throw new HttpError(400, 'The amendment does not change any field');
+
+  const { candidate: amended, auditEntry } = amendCandidate(
+    stored,
+    data,
+    details,
+    scoring,
+    changes.map(change => (change.field === 'aadhaarNumber'
+      ? { ...change, from: maskAadhaar(change.from), to: maskAadhaar(change.to) }
+      : change.field === 'programId'
+        ? { ...change, from: describeProgram(change.from), to: describeProgram(change.to) }
+        : change)),
+    actorOf(req),
+    reason.trim(),
+  );
+  const body: SubmissionResponse = { candidate: toPublicCandidate(amended), auditEntry };
+  res.json(body);
+});
+
+candidatesRouter.post('/:id/transitions', requirePermission('reviewCandidates'), (req, res) => {
+  const { to, note = '' } = (req.body ?? {}) as Partial<TransitionRequest>;
+  if (!CANDIDATE_STATUSES.includes(to as CandidateStatus)) {
+    throw new HttpError(400, 'to must be a valid candidate status');
+  }
+  if (to === 'Offer Sent') throw new HttpError(409, 'Send an offer letter to move a candidate to Offer Sent');
+
+  const candidate = getCandidate(req.params.id);
+  if (!candidate) throw new HttpError(404, 'Candidate not found');
+  const error = checkTransition(candidate.status, to as CandidateStatus, transitionContextOf(candidate));
+  if (error) throw new HttpError(409, error);
+
+  res.json(toPublicCandidate(
+    transitionCandidate(candidate, to as CandidateStatus, actorOf(req), String(note).trim()),
+  ));
+});
+
+candidatesRouter.get('/:id/offer-letters/preview', (req, res) => {
+  const candidate = getCandidate(req.params.id);
+  if (!candidate) throw new HttpError(404, 'Candidate not found');
+  res.type('html').send(prepareOfferLetter(candidate).html);
+});
+
+// Sending stores the rendered letter on the record and moves the candidate to Offer Sent.
+candidatesRouter.post('/:id/offer-letters', requirePermission('reviewCandidates'), (req, res) => {
+  const candidate = getCandidate(req.params.id);
+  if (!candidate) throw new HttpError(404, 'Candidate not found');
+  const updated = recordOfferLetter(candidate, prepareOfferLetter(candidate), actorOf(req));
+  res.status(201).json(toPublicCandidate(updated));
+});
+
+candidatesRouter.get('/:id/offer-letters/:version', (req, res) => {
+  const html = getOfferLetterHtml(req.params.id, Number(req.params.version));
+  if (html === undefined) throw new HttpError(404, 'Offer letter not found');
+  res.type('html').send(html);
+});
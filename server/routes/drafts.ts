@@ -0,0 +1,44 @@
+import { Router } from 'express';
+import { actorOf } from '../auth';
+import { HttpError } from '../http';
+import { deleteDraft, deleteDraftsUpdatedBefore, getDraft, listDrafts, saveDraft } from '../store';
+import { INITIAL_STATE } from '../../src/constants';
+import { DraftRequest } from '../../src/types';
+
+const DRAFT_TTL_DAYS = Number(process.env.DRAFT_TTL_DAYS) || 14;
+// Clients name their drafts, so a first save needs no round trip for an id.
+const DRAFT_ID_REGEX = /^[\w-]{1,64}$/;
+
+// Expired drafts are removed lazily whenever drafts are read.
+function purgeExpiredDrafts() {
+  deleteDraftsUpdatedBefore(new Date(Date.now() - DRAFT_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString());
+}
+
+// Drafts are private to whoever saved them; another user's draft is reported as missing.
+export const draftsRouter = Router();
+
+draftsRouter.get('/', (req, res) => {
+  purgeExpiredDrafts();
+  res.json(listDrafts(actorOf(req)));
+});
+
+draftsRouter.get('/:id', (req, res) => {
+  purgeExpiredDrafts();
+  const draft = getDraft(req.params.id, actorOf(req));
+  if (!draft) throw new HttpError(404, 'Draft not found or expired');
+  res.json(draft);
+});
+
+draftsRouter.put('/:id', (req, res) => {
+  if (!DRAFT_ID_REGEX.test(req.params.id)) throw new HttpError(400, 'Invalid draft id');
+  const { data } = (req.body ?? {}) as Partial<DraftRequest>;
+  if (!data || typeof data !== 'object') throw new HttpError(400, 'data is required');
+  const draft = saveDraft(req.params.id, actorOf(req), { ...INITIAL_STATE, ...data });
+  if (!draft) throw new HttpError(404, 'Draft not found');
+  res.json(draft);
+});
+
+draftsRouter.delete('/:id', (req, res) => {
+  if (!deleteDraft(req.params.id, actorOf(req))) throw new HttpError(404, 'Draft not found');
+  res.status(204).end();
+});
@@ -0,0 +1,113 @@
+import { Router } from 'express';
+import { actorOf, requirePermission } from '../auth';
+import { HttpError } from '../http';
+import { createFormSchemaVersion, getCurrentFormSchemaVersion, listFormSchemaVersions } from '../store';
+import { CUSTOM_FIELD_TYPES, DEFAULT_FORM_SCHEMA, FORM_FIELD_ICONS, INITIAL_STATE } from '../../src/constants';
+import { upgradeFormSchema } from '../../src/lib/formSchema';
+import { FormFieldDefinition, FormSchema, FormSchemaVersionRequest } from '../../src/types';
+
+const FIELD_KEY_REGEX = /^[a-zA-Z][a-zA-Z0-9]*$/;
+const BUILT_IN_KEYS = DEFAULT_FORM_SCHEMA.fields.map(field => field.key);
+
+function optionalNumber(field: Record<string, unknown>, name: string): number | undefined {
+  const value = field[name];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new HttpError(400, `${field.key} ${name} must be a number`);
+  }
+  return value;
+}
+
+function parseField(value: unknown): FormFieldDefinition {
+  if (typeof value !== 'object' || value === null) throw new HttpError(400, 'Every field must be an object');
+  const field = value as Record<string, unknown>;
+  const { key, label, icon, placeholder } = field;
+  if (typeof key !== 'string' || !FIELD_KEY_REGEX.test(key)) {
+    throw new HttpError(400, 'Field keys must start with a letter and contain only letters and digits');
+  }
+  if (typeof label !== 'string' || !label.trim()) throw new HttpError(400, `${key} needs a label`);
+  if (!FORM_FIELD_ICONS.includes(icon as FormFieldDefinition['icon'])) {
+    throw new HttpError(400, `${key} has an unknown icon`);
+  }
+  if (placeholder !== undefined && typeof placeholder !== 'string') {
+    throw new HttpError(400, `${key} placeholder must be a string`);
+  }
+  const common = {
+    key,
+    label: label.trim(),
+    icon: icon as FormFieldDefinition['icon'],
+    placeholder: (placeholder as string | undefined) || undefined,
+  };
+
+  if (field.builtIn) {
+    if (!BUILT_IN_KEYS.includes(key)) throw new HttpError(400, `${key} is not a built-in field`);
+    // Type, options and rules of built-in fields come from the code.
+    return { ...common, type: 'text', builtIn: true };
+  }
+
+  if (key in INITIAL_STATE) throw new HttpError(400, `${key} is reserved for a built-in field`);
+  const type = field.type as FormFieldDefinition['type'];
+  if (!CUSTOM_FIELD_TYPES.includes(type)) throw new HttpError(400, `${key} has an unsupported type`);
+  const parsed: FormFieldDefinition = { ...common, type, required: field.required === true };
+
+  if (type === 'select') {
+    const { options } = field;
+    if (!Array.isArray(options) || options.length === 0 || !options.every(o => typeof o === 'string' && o.trim())) {
+      throw new HttpError(400, `${key} needs at least one option`);
+    }
+    parsed.options = options.map(o => (o as string).trim());
+  }
+  if (type !== 'select' && type !== 'date') {
+    parsed.min = optionalNumber(field, 'min');
+    parsed.max = optionalNumber(field, 'max');
+    if (parsed.min !== undefined && parsed.max !== undefined && parsed.min > parsed.max) {
+      throw new HttpError(400, `${key} min cannot be above max`);
+    }
+  }
+  if (type === 'number') {
+    parsed.softMin = optionalNumber(field, 'softMin');
+    parsed.softMax = optionalNumber(field, 'softMax');
+    parsed.softWeight = optionalNumber(field, 'softWeight');
+    if (parsed.softWeight !== undefined && parsed.softWeight < 0) {
+      throw new HttpError(400, `${key} softWeight cannot be negative`);
+    }
+  }
+  return parsed;
+}
+
+function parseFormSchema(body: unknown): FormSchema {
+  const fields = (body as Partial<FormSchema> | undefined)?.fields;
+  if (!Array.isArray(fields)) throw new HttpError(400, 'schema.fields must be an array');
+  const parsed = fields.map(parseField);
+
+  const keys = parsed.map(field => field.key);
+  const repeated = keys.find((key, index) => keys.indexOf(key) !== index);
+  if (repeated) throw new HttpError(400, `Field key ${repeated} is used more than once`);
+  const missing = BUILT_IN_KEYS.filter(key => !keys.includes(key));
+  if (missing.length > 0) throw new HttpError(400, `Built-in fields cannot be removed: ${missing.join(', ')}`);
+
+  return upgradeFormSchema({ fields: parsed });
+}
+
+export const formSchemaRouter = Router();
+
+formSchemaRouter.get('/', (_req, res) => {
+  res.json(getCurrentFormSchemaVersion());
+});
+
+formSchemaRouter.get('/versions', (_req, res) => {
+  getCurrentFormSchemaVersion(); // seeds version 1 on a fresh database
+  res.json(listFormSchemaVersions());
+});
+
+formSchemaRouter.post('/versions', requirePermission('manageRules'), (req, res) => {
+  const { schema: body } = (req.body ?? {}) as Partial<FormSchemaVersionRequest>;
+  const schema = parseFormSchema(body);
+  // Saving an unchanged schema would only add noise to the history.
+  const current = getCurrentFormSchemaVersion();
+  if (JSON.stringify(current.schema) === JSON.stringify(schema)) {
+    res.json(current);
+    return;
+  }
+  res.status(201).json(createFormSchemaVersion(schema, actorOf(req)));
+});
@@ -0,0 +1,51 @@
+import { createHash } from 'crypto';
+import { Router } from 'express';
+import { canonicalJson } from '../auditChain';
+import { HttpError } from '../http';
+import { getAuditEntry, getCandidate, getIntakeRequest } from '../store';
+import { parseCandidate, submitCandidate, toPublicCandidate } from './candidates';
+import { SubmissionResponse } from '../../src/types';
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+function parseIdempotencyKey(value: string | undefined): string {
+  if (!value?.trim()) throw new HttpError(400, 'An Idempotency-Key header is required');
+  if (value.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    throw new HttpError(400, `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+  }
+  return value.trim();
+}
+
+export const intakeRouter = Router();
+
+/**
+ * Partner portals push one FormState-shaped candidate per request. A retry with
+ * the same Idempotency-Key answers with the submission the first request created;
+ * refused requests store nothing, so they can be corrected and sent again.
+ */
+intakeRouter.post('/candidates', (req, res) => {
+  const apiKey = req.partner!;
+  const idempotencyKey = parseIdempotencyKey(req.get('Idempotency-Key'));
+  if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+    throw new HttpError(400, 'The body must be a candidate object');
+  }
+  const candidate = parseCandidate(req.body);
+  const requestHash = createHash('sha256').update(canonicalJson(candidate)).digest('hex');
+
+  const previous = getIntakeRequest(apiKey.id, idempotencyKey);
+  if (previous) {
+    if (previous.requestHash !== requestHash) {
+      throw new HttpError(409, 'This Idempotency-Key was already used for a different candidate');
+    }
+    const body: SubmissionResponse = {
+      candidate: toPublicCandidate(getCandidate(previous.candidateId)!),
+      auditEntry: getAuditEntry(previous.auditId)!,
+    };
+    res.set('Idempotent-Replayed', 'true').status(201).json(body);
+    return;
+  }
+
+  // "partner:" cannot appear in a username, so partner submissions are never mistaken for a user's.
+  const submittedBy = `partner:${apiKey.source}`;
+  res.status(201).json(submitCandidate(candidate, [], submittedBy, undefined, { apiKey, idempotencyKey, requestHash }));
+});
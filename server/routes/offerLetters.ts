@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { actorOf, requirePermission } from '../auth';
+import { HttpError } from '../http';
+import { createOfferLetterTemplate, getCurrentOfferLetterTemplate, listOfferLetterTemplates } from '../store';
+import { OFFER_LETTER_KINDS } from '../../src/constants';
+import { findUnknownPlaceholders } from '../../src/lib/offerLetters';
+import { OfferLetterKind, OfferLetterTemplateRequest } from '../../src/types';
+
+const MAX_RESPONSE_DAYS = 365;
+
+function parseKind(value: string): OfferLetterKind {
+  if (!OFFER_LETTER_KINDS.includes(value as OfferLetterKind)) throw new HttpError(404, 'Unknown offer letter template');
+  return value as OfferLetterKind;
+}
+
+function parseTemplate(body: Partial<OfferLetterTemplateRequest>): OfferLetterTemplateRequest {
+  const { subject, body: text, responseDays } = body;
+  if (typeof subject !== 'string' || !subject.trim()) throw new HttpError(400, 'subject is required');
+  if (typeof text !== 'string' || !text.trim()) throw new HttpError(400, 'body is required');
+  if (!Number.isInteger(responseDays) || (responseDays as number) < 1 || (responseDays as number) > MAX_RESPONSE_DAYS) {
+    throw new HttpError(400, `responseDays must be a whole number from 1 to ${MAX_RESPONSE_DAYS}`);
+  }
+  const unknown = findUnknownPlaceholders(`${subject}\n${text}`);
+  if (unknown.length > 0) throw new HttpError(400, `Unknown placeholders: ${unknown.join(', ')}`);
+  return { subject: subject.trim(), body: text.trim(), responseDays: responseDays as number };
+}
+
+export const offerLetterTemplatesRouter = Router();
+
+offerLetterTemplatesRouter.get('/', (_req, res) => {
+  res.json(OFFER_LETTER_KINDS.map(getCurrentOfferLetterTemplate));
+});
+
+offerLetterTemplatesRouter.get('/:kind/versions', (req, res) => {
+  const kind = parseKind(req.params.kind);
+  getCurrentOfferLetterTemplate(kind); // seeds version 1 on a fresh database
+  res.json(listOfferLetterTemplates(kind));
+});
+
+offerLetterTemplatesRouter.post('/:kind/versions', requirePermission('manageRules'), (req, res) => {
+  const kind = parseKind(req.params.kind);
+  const template = parseTemplate((req.body ?? {}) as Partial<OfferLetterTemplateRequest>);
+  // Saving an unchanged template would only add noise to the history.
+  const current = getCurrentOfferLetterTemplate(kind);
+  if (current.subject === template.subject && current.body === template.body && current.responseDays === template.responseDays) {
+    res.json(current);
+    return;
+  }
+  res.status(201).json(createOfferLetterTemplate(kind, template, actorOf(req)));
+});
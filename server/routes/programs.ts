@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { actorOf, requirePermission } from '../auth';
+import { HttpError } from '../http';
+import { createProgram, getProgram, listPrograms, updateProgram } from '../store';
+import { ProgramRequest } from '../../src/types';
+
+const MAX_SEATS = 10000;
+
+function parseProgram(body: Partial<ProgramRequest>): ProgramRequest {
+  const { name, cohort, seats } = body;
+  if (typeof name !== 'string' || !name.trim()) throw new HttpError(400, 'name is required');
+  if (typeof cohort !== 'string' || !cohort.trim()) throw new HttpError(400, 'cohort is required');
+  if (!Number.isInteger(seats) || (seats as number) < 0 || (seats as number) > MAX_SEATS) {
+    throw new HttpError(400, `seats must be a whole number from 0 to ${MAX_SEATS}`);
+  }
+  return { name: name.trim(), cohort: cohort.trim(), seats: seats as number };
+}
+
+function assertUniqueName({ name, cohort }: ProgramRequest, excludeId?: string) {
+  const taken = listPrograms().some(program => program.id !== excludeId
+    && program.name.toLowerCase() === name.toLowerCase()
+    && program.cohort.toLowerCase() === cohort.toLowerCase());
+  if (taken) throw new HttpError(409, `${cohort} already has a program named ${name}`);
+}
+
+export const programsRouter = Router();
+
+programsRouter.get('/', (_req, res) => {
+  res.json(listPrograms());
+});
+
+programsRouter.post('/', requirePermission('manageRules'), (req, res) => {
+  const program = parseProgram((req.body ?? {}) as Partial<ProgramRequest>);
+  assertUniqueName(program);
+  res.status(201).json(createProgram(program, actorOf(req)));
+});
+
+programsRouter.patch('/:id', requirePermission('manageRules'), (req, res) => {
+  const program = getProgram(req.params.id);
+  if (!program) throw new HttpError(404, 'Program not found');
+  const changes = parseProgram({ ...program, ...(req.body ?? {}) } as Partial<ProgramRequest>);
+  assertUniqueName(changes, program.id);
+  if (changes.seats < program.seatsHeld) {
+    throw new HttpError(409, `${program.name} already has ${program.seatsHeld} seats taken`);
+  }
+  res.json(updateProgram(program, changes));
+});
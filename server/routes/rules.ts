@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { actorOf, requirePermission } from '../auth';
+import { HttpError } from '../http';
+import {
+  createRuleVersion,
+  getCurrentFormSchemaVersion,
+  getCurrentRuleVersion,
+  getProgram,
+  getRuleVersion,
+  listCandidates,
+  listRuleVersions,
+} from '../store';
+import { diffRules, parseRuleConfig, RuleConfigError } from '../../src/lib/rules';
+import { admissionRules, simulateRuleChange } from '../../src/validation';
+import { RuleConfig, RuleVersionRequest } from '../../src/types';
+
+function parseRules(value: unknown): RuleConfig {
+  try {
+    return parseRuleConfig(value);
+  } catch (err) {
+    if (err instanceof RuleConfigError) throw new HttpError(400, err.message);
+    throw err;
+  }
+}
+
+/** The program whose rule set a request addresses, or null for the default rules. */
+function parseProgramId(value: unknown): string | null {
+  if (value === undefined || value === '') return null;
+  if (typeof value !== 'string' || !getProgram(value)) throw new HttpError(404, 'Program not found');
+  return value;
+}
+
+export const rulesRouter = Router();
+
+rulesRouter.get('/', (req, res) => {
+  res.json(getCurrentRuleVersion(parseProgramId(req.query.programId)));
+});
+
+rulesRouter.get('/versions', (req, res) => {
+  const programId = parseProgramId(req.query.programId);
+  getCurrentRuleVersion(programId); // seeds version 1 on a fresh database
+  res.json(listRuleVersions(programId));
+});
+
+rulesRouter.get('/versions/:version', (req, res) => {
+  const ruleVersion = getRuleVersion(Number(req.params.version));
+  if (!ruleVersion) throw new HttpError(404, 'Rule version not found');
+  res.json(ruleVersion);
+});
+
+rulesRouter.post('/versions', requirePermission('manageRules'), (req, res) => {
+  const { rules: body, programId: requestedProgramId } = (req.body ?? {}) as Partial<RuleVersionRequest>;
+  const rules = parseRules(body);
+  const programId = parseProgramId(requestedProgramId);
+
+  // Saving an unchanged rule set would only add noise to the history.
+  const current = getCurrentRuleVersion(programId);
+  if (diffRules(current.rules, rules).length === 0) {
+    res.json(current);
+    return;
+  }
+  res.status(201).json(createRuleVersion(rules, actorOf(req), programId));
+});
+
+// A rule set only scores the candidates it applies to: the program's, or those without one.
+rulesRouter.post('/simulate', requirePermission('manageRules'), (req, res) => {
+  const draft = parseRules(req.body?.rules);
+  const programId = parseProgramId(req.body?.programId);
+  const current = getCurrentRuleVersion(programId);
+  const { schema } = getCurrentFormSchemaVersion();
+  const candidates = listCandidates().filter(candidate => candidate.programId === (programId ?? ''));
+  res.json(simulateRuleChange(candidates, current.rules, draft, admissionRules(schema)));
+});
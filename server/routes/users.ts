@@ -0,0 +1,72 @@
+import { Router } from 'express';
+import { hashPassword } from '../auth';
+import { HttpError } from '../http';
+import { countActiveAdmins, createUser, getUser, getUserCredentials, listUsers, updateUser, UserChanges } from '../store';
+import { MIN_PASSWORD_LENGTH, USER_ROLES } from '../../src/constants';
+import { User, UserRequest, UserRole, UserUpdateRequest } from '../../src/types';
+
+const USERNAME_REGEX = /^[a-zA-Z0-9._-]{3,32}$/;
+
+function parseDisplayName(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, 'displayName is required');
+  return value.trim();
+}
+
+function parseRole(value: unknown): UserRole {
+  if (!USER_ROLES.includes(value as UserRole)) throw new HttpError(400, `role must be one of ${USER_ROLES.join(', ')}`);
+  return value as UserRole;
+}
+
+function parsePassword(value: unknown): string {
+  if (typeof value !== 'string' || value.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  return value;
+}
+
+/** Validates a new account and stores it. Also used to create the first admin on a fresh install. */
+export function registerUser(body: Partial<UserRequest>, role: UserRole): User {
+  const { username, displayName, password } = body;
+  if (typeof username !== 'string' || !USERNAME_REGEX.test(username)) {
+    throw new HttpError(400, 'username must be 3-32 letters, digits, dots, dashes or underscores');
+  }
+  const name = parseDisplayName(displayName);
+  const validPassword = parsePassword(password);
+  if (getUserCredentials(username)) throw new HttpError(409, `The username ${username} is taken`);
+  return createUser(username, name, role, hashPassword(validPassword));
+}
+
+export const usersRouter = Router();
+
+usersRouter.get('/', (_req, res) => {
+  res.json(listUsers());
+});
+
+usersRouter.post('/', (req, res) => {
+  const body = (req.body ?? {}) as Partial<UserRequest>;
+  res.status(201).json(registerUser(body, parseRole(body.role)));
+});
+
+usersRouter.patch('/:id', (req, res) => {
+  const { displayName, role, password, active } = (req.body ?? {}) as UserUpdateRequest;
+  const user = getUser(req.params.id);
+  if (!user) throw new HttpError(404, 'User not found');
+
+  const changes: UserChanges = {};
+  if (displayName !== undefined) changes.displayName = parseDisplayName(displayName);
+  if (role !== undefined) changes.role = parseRole(role);
+  if (password !== undefined) changes.passwordHash = hashPassword(parsePassword(password));
+  if (active !== undefined) {
+    if (typeof active !== 'boolean') throw new HttpError(400, 'active must be a boolean');
+    changes.active = active;
+  }
+
+  // Someone must always be able to manage users.
+  const losesAdmin = user.role === 'admin' && user.active
+    && (changes.active === false || (changes.role ?? 'admin') !== 'admin');
+  if (losesAdmin && countActiveAdmins() === 1) {
+    throw new HttpError(409, 'The last active admin cannot be demoted or deactivated');
+  }
+
+  res.json(updateUser(user.id, changes));
+});
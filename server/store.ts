@@ -0,0 +1,1441 @@
+import { randomUUID } from 'crypto';
+import { chainHash } from './auditChain';
+import { db } from './db';
+import { DEFAULT_FORM_SCHEMA, DEFAULT_OFFER_LETTER_TEMPLATES, INITIAL_RULES, INITIAL_STATE } from '../src/constants';
+import { upgradeFormSchema } from '../src/lib/formSchema';
+import { applyStatusToForm, initialStatus } from '../src/lib/lifecycle';
+import { compareWaitlistPriority, holdsSeat, isOnWaitlist, seatsLeft } from '../src/lib/programs';
+import { upgradeRuleConfig } from '../src/lib/rules';
+import {
+  AadhaarAccess,
+  ApiKey,
+  AuditArchive,
+  AuditChainBreak,
+  AuditChainRecordType,
+  AuditChainReport,
+  AuditEntryKind,
+  AuditLogEntry,
+  CandidateRecord,
+  CandidateStatus,
+  Draft,
+  DraftSummary,
+  FieldChange,
+  FieldKey,
+  FormSchema,
+  FormSchemaVersion,
+  FormState,
+  GrantedException,
+  OfferLetter,
+  OfferLetterKind,
+  OfferLetterTemplate,
+  OfferLetterTemplateRequest,
+  Program,
+  ProgramRequest,
+  ReviewDecision,
+  ReviewStatus,
+  RiskContribution,
+  RiskLevel,
+  RuleConfig,
+  RuleVersion,
+  StatusChange,
+  User,
+  UserRole,
+} from '../src/types';
+
+interface CandidateRow {
+  id: string;
+  data: string;
+  status: CandidateStatus;
+  normalized_percentage: number | null;
+  form_version: number | null;
+  created_at: string;
+}
+
+interface AadhaarAccessRow {
+  candidate_id: string;
+  revealed_by: string;
+  reason: string;
+  revealed_at: string;
+}
+
+interface StatusHistoryRow {
+  candidate_id: string;
+  from_status: CandidateStatus | null;
+  to_status: CandidateStatus;
+  changed_by: string;
+  note: string;
+  changed_at: string;
+}
+
+interface AmendmentRow {
+  candidate_id: string;
+  audit_id: string;
+  field: FieldKey;
+  old_value: string;
+  new_value: string;
+  changed_by: string;
+  reason: string;
+  changed_at: string;
+}
+
+interface AuditLogRow {
+  id: string;
+  candidate_id: string | null;
+  kind: AuditEntryKind;
+  submitted_by: string | null;
+  full_name: string;
+  email: string;
+  interview_status: string;
+  exception_count: number;
+  risk_score: number | null;
+  risk_level: RiskLevel;
+  rule_version: number | null;
+  review_status: ReviewStatus;
+  initial_review_status: ReviewStatus | null;
+  archive_id: string | null;
+  source: string | null;
+  timestamp: string;
+}
+
+interface AuditReviewRow {
+  id: number;
+  audit_id: string;
+  decision: ReviewDecision['decision'];
+  reviewer: string;
+  comment: string;
+  created_at: string;
+}
+
+interface AuditExceptionRow {
+  audit_id: string;
+  rule_id: string;
+  field: string;
+  message: string;
+  justification: string;
+  approved_by: string | null;
+}
+
+interface RiskFactorRow {
+  audit_id: string;
+  rule_id: string;
+  weight: number;
+  shortfall: number | null;
+  points: number;
+}
+
+interface AuditArchiveRow {
+  id: string;
+  archived_by: string;
+  reason: string;
+  entry_count: number;
+  archived_at: string;
+}
+
+interface AuditChainRow {
+  seq: number;
+  record_type: AuditChainRecordType;
+  record_id: string;
+  previous_hash: string | null;
+  hash: string | null;
+  created_at: string;
+}
+
+interface UserRow {
+  id: string;
+  username: string;
+  display_name: string;
+  role: UserRole;
+  password_hash: string;
+  active: number;
+  created_at: string;
+}
+
+interface ApiKeyRow {
+  id: string;
+  source: string;
+  token_hash: string;
+  created_by: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+interface IntakeRequestRow {
+  api_key_id: string;
+  idempotency_key: string;
+  request_hash: string;
+  candidate_id: string;
+  audit_id: string;
+  created_at: string;
+}
+
+interface RuleVersionRow {
+  version: number;
+  program_id: string | null;
+  rules: string;
+  author: string;
+  created_at: string;
+}
+
+interface ProgramRow {
+  id: string;
+  name: string;
+  cohort: string;
+  seats: number;
+  created_by: string;
+  created_at: string;
+}
+
+/** Just enough of a candidate to tell whether they hold a seat or wait for one. */
+interface SeatRow {
+  program_id: string;
+  id: string;
+  status: CandidateStatus;
+  interview_status: CandidateRecord['interviewStatus'];
+}
+
+interface DraftRow {
+  id: string;
+  owner: string;
+  full_name: string;
+  data: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface FormSchemaVersionRow {
+  version: number;
+  schema: string;
+  author: string;
+  created_at: string;
+}
+
+interface OfferLetterTemplateRow {
+  kind: OfferLetterKind;
+  version: number;
+  subject: string;
+  body: string;
+  response_days: number;
+  author: string;
+  created_at: string;
+}
+
+interface OfferLetterRow {
+  candidate_id: string;
+  version: number;
+  kind: OfferLetterKind;
+  template_version: number;
+  subject: string;
+  html: string;
+  generated_by: string;
+  generated_at: string;
+}
+
+function toStatusChange(row: StatusHistoryRow): StatusChange {
+  return {
+    from: row.from_status,
+    to: row.to_status,
+    changedBy: row.changed_by,
+    note: row.note,
+    timestamp: row.changed_at,
+  };
+}
+
+function toAadhaarAccess(row: AadhaarAccessRow): AadhaarAccess {
+  return { revealedBy: row.revealed_by, reason: row.reason, timestamp: row.revealed_at };
+}
+
+function toFieldChange(row: AmendmentRow): FieldChange {
+  return {
+    field: row.field,
+    from: row.old_value,
+    to: row.new_value,
+    changedBy: row.changed_by,
+    reason: row.reason,
+    auditId: row.audit_id,
+    timestamp: row.changed_at,
+  };
+}
+
+function toOfferLetter(row: OfferLetterRow): OfferLetter {
+  return {
+    version: row.version,
+    kind: row.kind,
+    templateVersion: row.template_version,
+    subject: row.subject,
+    generatedBy: row.generated_by,
+    generatedAt: row.generated_at,
+  };
+}
+
+function toCandidate(
+  row: CandidateRow,
+  statusHistory: StatusChange[],
+  aadhaarAccessLog: AadhaarAccess[],
+  amendments: FieldChange[],
+  offerLetters: OfferLetter[],
+): CandidateRecord {
+  return {
+    // Fields added to the form later take their defaults on older records.
+    ...INITIAL_STATE,
+    ...(JSON.parse(row.data) as Partial<FormState>),
+    id: row.id,
+    status: row.status,
+    statusHistory,
+    aadhaarAccessLog,
+    amendments,
+    offerLetters,
+    normalizedPercentage: row.normalized_percentage,
+    formVersion: row.form_version,
+    createdAt: row.created_at,
+  };
+}
+
+function toGrantedException(row: AuditExceptionRow): GrantedException {
+  return {
+    ruleId: row.rule_id,
+    field: row.field,
+    message: row.message,
+    justification: row.justification,
+    approvedBy: row.approved_by ?? undefined,
+  };
+}
+
+function toRiskContribution(row: RiskFactorRow): RiskContribution {
+  return {
+    ruleId: row.rule_id,
+    weight: row.weight,
+    shortfall: row.shortfall ?? undefined,
+    points: row.points,
+  };
+}
+
+function toReviewDecision(row: AuditReviewRow): ReviewDecision {
+  return {
+    decision: row.decision,
+    reviewer: row.reviewer,
+    comment: row.comment,
+    timestamp: row.created_at,
+  };
+}
+
+function toAuditEntry(
+  row: AuditLogRow,
+  exceptions?: GrantedException[],
+  reviews?: ReviewDecision[],
+  riskBreakdown?: RiskContribution[],
+): AuditLogEntry {
+  return {
+    id: row.id,
+    candidateId: row.candidate_id ?? undefined,
+    kind: row.kind,
+    submittedBy: row.submitted_by ?? undefined,
+    source: row.source ?? undefined,
+    fullName: row.full_name,
+    email: row.email,
+    interviewStatus: row.interview_status,
+    exceptionCount: row.exception_count,
+    riskScore: row.risk_score ?? undefined,
+    riskBreakdown,
+    riskLevel: row.risk_level,
+    ruleVersion: row.rule_version ?? undefined,
+    exceptions,
+    reviewStatus: row.review_status,
+    reviews,
+    archiveId: row.archive_id ?? undefined,
+    timestamp: row.timestamp,
+  };
+}
+
+function toAuditArchive(row: AuditArchiveRow): AuditArchive {
+  return {
+    id: row.id,
+    archivedBy: row.archived_by,
+    reason: row.reason,
+    entryCount: row.entry_count,
+    timestamp: row.archived_at,
+  };
+}
+
+function toUser(row: UserRow): User {
+  return {
+    id: row.id,
+    username: row.username,
+    displayName: row.display_name,
+    role: row.role,
+    active: row.active === 1,
+    createdAt: row.created_at,
+  };
+}
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    source: row.source,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at ?? undefined,
+    revokedAt: row.revoked_at ?? undefined,
+  };
+}
+
+function toRuleVersion(row: RuleVersionRow): RuleVersion {
+  return {
+    version: row.version,
+    programId: row.program_id,
+    rules: upgradeRuleConfig(JSON.parse(row.rules)),
+    author: row.author,
+    createdAt: row.created_at,
+  };
+}
+
+function toFormSchemaVersion(row: FormSchemaVersionRow): FormSchemaVersion {
+  return {
+    version: row.version,
+    schema: upgradeFormSchema(JSON.parse(row.schema) as FormSchema),
+    author: row.author,
+    createdAt: row.created_at,
+  };
+}
+
+function toOfferLetterTemplate(row: OfferLetterTemplateRow): OfferLetterTemplate {
+  return {
+    kind: row.kind,
+    version: row.version,
+    subject: row.subject,
+    body: row.body,
+    responseDays: row.response_days,
+    author: row.author,
+    createdAt: row.created_at,
+  };
+}
+
+function seatStateOf(row: SeatRow): Pick<CandidateRecord, 'status' | 'interviewStatus'> {
+  return { status: row.status, interviewStatus: row.interview_status };
+}
+
+function toProgram(row: ProgramRow, seats: SeatRow[]): Program {
+  const states = seats.map(seatStateOf);
+  return {
+    id: row.id,
+    name: row.name,
+    cohort: row.cohort,
+    seats: row.seats,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    seatsHeld: states.filter(holdsSeat).length,
+    waitlisted: states.filter(isOnWaitlist).length,
+  };
+}
+
+function toDraftSummary(row: DraftRow): DraftSummary {
+  return { id: row.id, fullName: row.full_name, createdAt: row.created_at, updatedAt: row.updated_at };
+}
+
+function toDraft(row: DraftRow): Draft {
+  return {
+    id: row.id,
+    // Older drafts may still say the offer went out; offers are now only sent from a saved record.
+    data: { ...INITIAL_STATE, ...(JSON.parse(row.data) as Partial<FormState>), offerLetterSent: false },
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function groupRows<Row, T>(rows: Row[], key: keyof Row, map: (row: Row) => T): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  for (const row of rows) {
+    const id = String(row[key]);
+    const list = grouped.get(id) ?? [];
+    list.push(map(row));
+    grouped.set(id, list);
+  }
+  return grouped;
+}
+
+/**
+ * Rows of a child table belonging to `ids`, grouped by `key`. A single record is looked up
+ * directly; a list is fetched in one query, its ids passed as a JSON array so that no list
+ * outgrows SQLite's limit on bound parameters.
+ */
+function selectChildRows<Row, T>(
+  select: string,
+  key: keyof Row & string,
+  ids: string[],
+  orderBy: string,
+  map: (row: Row) => T,
+): Map<string, T[]> {
+  if (ids.length === 0) return new Map();
+  const rows = ids.length === 1
+    ? db.prepare(`${select} WHERE ${key} = ? ${orderBy}`).all(ids[0])
+    : db.prepare(`${select} WHERE ${key} IN (SELECT value FROM json_each(?)) ${orderBy}`).all(JSON.stringify(ids));
+  return groupRows(rows as Row[], key, map);
+}
+
+// --- Candidates ---
+
+function hydrateCandidates(rows: CandidateRow[]): CandidateRecord[] {
+  const ids = rows.map(row => row.id);
+  const history = selectChildRows(
+    'SELECT * FROM candidate_status_history', 'candidate_id', ids, 'ORDER BY id', toStatusChange,
+  );
+  const aadhaarAccess = selectChildRows(
+    'SELECT * FROM aadhaar_access_log', 'candidate_id', ids, 'ORDER BY id', toAadhaarAccess,
+  );
+  const amendments = selectChildRows(
+    'SELECT * FROM candidate_amendments', 'candidate_id', ids, 'ORDER BY id', toFieldChange,
+  );
+  // The rendered documents are large and only fetched one at a time.
+  const offerLetters = selectChildRows(
+    'SELECT candidate_id, version, kind, template_version, subject, generated_by, generated_at FROM offer_letters',
+    'candidate_id',
+    ids,
+    'ORDER BY version',
+    toOfferLetter,
+  );
+  return rows.map(row => toCandidate(
+    row,
+    history.get(row.id) ?? [],
+    aadhaarAccess.get(row.id) ?? [],
+    amendments.get(row.id) ?? [],
+    offerLetters.get(row.id) ?? [],
+  ));
+}
+
+export function listCandidates(): CandidateRecord[] {
+  const rows = db.prepare('SELECT * FROM candidates ORDER BY created_at DESC').all() as CandidateRow[];
+  return hydrateCandidates(rows);
+}
+
+export function getCandidate(id: string): CandidateRecord | undefined {
+  const row = db.prepare('SELECT * FROM candidates WHERE id = ?').get(id) as CandidateRow | undefined;
+  return row && hydrateCandidates([row])[0];
+}
+
+/**
+ * Stored candidates sharing an Aadhaar number, email, phone or DOB with `data`: every candidate
+ * `findDuplicateMatches` could flag, found through indexes rather than a scan of the table.
+ * Stored phone numbers are already bare digits; the phone format rule rejects anything else.
+ */
+export function listPossibleDuplicates(
+  data: Pick<FormState, 'email' | 'phone' | 'dob' | 'aadhaarNumber'>,
+): CandidateRecord[] {
+  const rows = db.prepare(`
+    SELECT * FROM candidates
+    WHERE aadhaar_number = @aadhaarNumber
+       OR lower(trim(email)) = @email
+       OR phone = @phone
+       OR json_extract(data, '$.dob') = @dob
+  `).all({
+    aadhaarNumber: data.aadhaarNumber || null,
+    email: data.email.trim().toLowerCase() || null,
+    phone: data.phone.replace(/\D/g, '') || null,
+    dob: data.dob || null,
+  }) as CandidateRow[];
+  return hydrateCandidates(rows);
+}
+
+function formStateOf(candidate: CandidateRecord): FormState {
+  const {
+    id, status, statusHistory, aadhaarAccessLog, amendments, offerLetters, normalizedPercentage, formVersion, createdAt,
+    ...data
+  } = candidate;
+  return data;
+}
+
+function writeCandidateData(id: string, data: FormState, status: CandidateStatus) {
+  db.prepare(`
+    UPDATE candidates
+    SET full_name = @fullName, email = @email, phone = @phone, aadhaar_number = @aadhaarNumber,
+        interview_status = @interviewStatus, status = @status, program_id = @programId, data = @data
+    WHERE id = @id
+  `).run({
+    id,
+    fullName: data.fullName,
+    email: data.email,
+    phone: data.phone,
+    aadhaarNumber: data.aadhaarNumber,
+    interviewStatus: data.interviewStatus,
+    status,
+    programId: data.programId || null,
+    data: JSON.stringify(data),
+  });
+}
+
+function insertStatusChange(candidateId: string, change: StatusChange) {
+  db.prepare(`
+    INSERT INTO candidate_status_history (candidate_id, from_status, to_status, changed_by, note, changed_at)
+    VALUES (@candidateId, @from, @to, @changedBy, @note, @timestamp)
+  `).run({ candidateId, ...change });
+}
+
+/** Stored alongside a new candidate's form data; derived from the rules and schema in force. */
+export interface CandidateDetails {
+  normalizedPercentage: number | null;
+  formVersion: number;
+}
+
+function insertCandidate(
+  data: FormState,
+  { normalizedPercentage, formVersion }: CandidateDetails,
+  submittedBy: string,
+): CandidateRecord {
+  const createdAt = new Date().toISOString();
+  const status = initialStatus(data);
+  const entry: StatusChange = { from: null, to: status, changedBy: submittedBy, note: 'Submitted', timestamp: createdAt };
+  const candidate: CandidateRecord = {
+    ...data,
+    id: randomUUID(),
+    status,
+    statusHistory: [entry],
+    aadhaarAccessLog: [],
+    amendments: [],
+    offerLetters: [],
+    normalizedPercentage,
+    formVersion,
+    createdAt,
+  };
+  db.prepare(`
+    INSERT INTO candidates (
+      id, full_name, email, phone, aadhaar_number, interview_status, status, program_id, data,
+      normalized_percentage, form_version, created_at
+    )
+    VALUES (
+      @id, @fullName, @email, @phone, @aadhaarNumber, @interviewStatus, @status, @programId, @data,
+      @normalizedPercentage, @formVersion, @createdAt
+    )
+  `).run({
+    id: candidate.id,
+    fullName: data.fullName,
+    email: data.email,
+    phone: data.phone,
+    aadhaarNumber: data.aadhaarNumber,
+    interviewStatus: data.interviewStatus,
+    status,
+    programId: data.programId || null,
+    data: JSON.stringify(data),
+    normalizedPercentage,
+    formVersion,
+    createdAt,
+  });
+  insertStatusChange(candidate.id, entry);
+  return candidate;
+}
+
+/**
+ * Moves a candidate to `to`. Callers must check the transition with `checkTransition` first.
+ * A candidate who gives up their seat makes room for the next one on their program's waitlist.
+ */
+export const transitionCandidate = db.transaction(
+  (candidate: CandidateRecord, to: CandidateStatus, changedBy: string, note: string): CandidateRecord => {
+    const data = applyStatusToForm(formStateOf(candidate), to);
+    writeCandidateData(candidate.id, data, to);
+    insertStatusChange(candidate.id, { from: candidate.status, to, changedBy, note, timestamp: new Date().toISOString() });
+    if (data.programId && holdsSeat(candidate) && !holdsSeat({ status: to, interviewStatus: data.interviewStatus })) {
+      fillProgramSeats(data.programId, `Promoted from the waitlist after ${candidate.fullName} moved to ${to}`);
+    }
+    return getCandidate(candidate.id)!;
+  },
+);
+
+export function recordAadhaarReveal(candidateId: string, revealedBy: string, reason: string): AadhaarAccess {
+  const access: AadhaarAccess = { revealedBy, reason, timestamp: new Date().toISOString() };
+  db.prepare(`
+    INSERT INTO aadhaar_access_log (candidate_id, revealed_by, reason, revealed_at)
+    VALUES (@candidateId, @revealedBy, @reason, @timestamp)
+  `).run({ candidateId, ...access });
+  return access;
+}
+
+// --- Audit log ---
+
+export interface SubmissionScoring {
+  exceptionCount: number;
+  riskScore: number;
+  riskBreakdown: RiskContribution[];
+  riskLevel: RiskLevel;
+  ruleVersion: number;
+  exceptions: GrantedException[];
+  reviewStatus: ReviewStatus;
+}
+
+function hydrateAuditEntries(rows: AuditLogRow[]): AuditLogEntry[] {
+  const ids = rows.map(row => row.id);
+  const exceptions = selectChildRows('SELECT * FROM audit_exceptions', 'audit_id', ids, '', toGrantedException);
+  const reviews = selectChildRows('SELECT * FROM audit_reviews', 'audit_id', ids, 'ORDER BY id', toReviewDecision);
+  const riskFactors = selectChildRows('SELECT * FROM audit_risk_factors', 'audit_id', ids, '', toRiskContribution);
+  // Entries scored under a rule version always recorded their exceptions, even
+  // if there were none; legacy imports did not, so leave theirs undefined.
+  // The same goes for risk factors on entries scored since weighted risk.
+  return rows.map(row => toAuditEntry(
+    row,
+    exceptions.get(row.id) ?? (row.rule_version !== null ? [] : undefined),
+    reviews.get(row.id) ?? [],
+    riskFactors.get(row.id) ?? (row.risk_score !== null ? [] : undefined),
+  ));
+}
+
+/** The active log: everything not yet archived. */
+export function listAuditLog(): AuditLogEntry[] {
+  const rows = db.prepare(
+    'SELECT * FROM audit_log WHERE archive_id IS NULL ORDER BY timestamp DESC',
+  ).all() as AuditLogRow[];
+  return hydrateAuditEntries(rows);
+}
+
+/** Every entry, archived or not, oldest first; reporting should not change when the log is archived. */
+export function listAllAuditEntries(): AuditLogEntry[] {
+  const rows = db.prepare('SELECT * FROM audit_log ORDER BY timestamp').all() as AuditLogRow[];
+  return hydrateAuditEntries(rows);
+}
+
+export function listArchivedAuditLog(archiveId: string): AuditLogEntry[] {
+  const rows = db.prepare(
+    'SELECT * FROM audit_log WHERE archive_id = ? ORDER BY timestamp DESC',
+  ).all(archiveId) as AuditLogRow[];
+  return hydrateAuditEntries(rows);
+}
+
+export function getAuditEntry(id: string): AuditLogEntry | undefined {
+  const row = db.prepare('SELECT * FROM audit_log WHERE id = ?').get(id) as AuditLogRow | undefined;
+  return row && hydrateAuditEntries([row])[0];
+}
+
+export function getLatestAuditEntryForCandidate(candidateId: string): AuditLogEntry | undefined {
+  const row = db.prepare(
+    'SELECT * FROM audit_log WHERE candidate_id = ? ORDER BY timestamp DESC LIMIT 1',
+  ).get(candidateId) as AuditLogRow | undefined;
+  return row && hydrateAuditEntries([row])[0];
+}
+
+function insertAuditEntry(entry: AuditLogEntry) {
+  db.prepare(`
+    INSERT INTO audit_log (
+      id, candidate_id, kind, submitted_by, source, full_name, email, interview_status, exception_count, risk_score,
+      risk_level, rule_version, review_status, initial_review_status, timestamp
+    ) VALUES (
+      @id, @candidateId, @kind, @submittedBy, @source, @fullName, @email, @interviewStatus, @exceptionCount, @riskScore,
+      @riskLevel, @ruleVersion, @reviewStatus, @reviewStatus, @timestamp
+    )
+  `).run({
+    id: entry.id,
+    candidateId: entry.candidateId ?? null,
+    kind: entry.kind,
+    submittedBy: entry.submittedBy ?? null,
+    source: entry.source ?? null,
+    fullName: entry.fullName,
+    email: entry.email,
+    interviewStatus: entry.interviewStatus,
+    exceptionCount: entry.exceptionCount,
+    riskScore: entry.riskScore ?? null,
+    riskLevel: entry.riskLevel,
+    ruleVersion: entry.ruleVersion ?? null,
+    reviewStatus: entry.reviewStatus ?? 'Not Required',
+    timestamp: entry.timestamp,
+  });
+
+  const insertException = db.prepare(`
+    INSERT INTO audit_exceptions (audit_id, rule_id, field, message, justification, approved_by)
+    VALUES (@auditId, @ruleId, @field, @message, @justification, @approvedBy)
+  `);
+  for (const exception of entry.exceptions ?? []) {
+    insertException.run({ auditId: entry.id, ...exception, approvedBy: exception.approvedBy ?? null });
+  }
+
+  const insertRiskFactor = db.prepare(`
+    INSERT INTO audit_risk_factors (audit_id, rule_id, weight, shortfall, points)
+    VALUES (@auditId, @ruleId, @weight, @shortfall, @points)
+  `);
+  for (const contribution of entry.riskBreakdown ?? []) {
+    insertRiskFactor.run({ auditId: entry.id, ...contribution, shortfall: contribution.shortfall ?? null });
+  }
+  appendChainLink('entry', entry.id, entryContent(getAuditEntry(entry.id)!, entry.reviewStatus ?? 'Not Required'));
+}
+
+/** Where a submission pushed through the partner intake API came from. */
+export interface IntakeOrigin {
+  apiKey: ApiKey;
+  idempotencyKey: string;
+  requestHash: string;
+}
+
+/** Stores a new candidate and its audit entry. Intake submissions also record their idempotency key. */
+export const createSubmission = db.transaction((
+  data: FormState,
+  details: CandidateDetails,
+  scoring: SubmissionScoring,
+  submittedBy: string,
+  intake?: IntakeOrigin,
+) => {
+  const candidate = insertCandidate(data, details, submittedBy);
+  const auditEntry: AuditLogEntry = {
+    id: randomUUID(),
+    candidateId: candidate.id,
+    kind: 'Submission',
+    submittedBy,
+    source: intake?.apiKey.source,
+    fullName: candidate.fullName,
+    email: candidate.email,
+    interviewStatus: candidate.interviewStatus,
+    ...scoring,
+    timestamp: candidate.createdAt,
+  };
+  insertAuditEntry(auditEntry);
+  if (intake) {
+    db.prepare(`
+      INSERT INTO intake_requests (api_key_id, idempotency_key, request_hash, candidate_id, audit_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(intake.apiKey.id, intake.idempotencyKey, intake.requestHash, candidate.id, auditEntry.id, candidate.createdAt);
+  }
+  return { candidate, auditEntry };
+});
+
+/** A corrected field, with values as they should appear in the history (Aadhaar masked). */
+export interface AmendedField {
+  field: FieldKey;
+  from: string;
+  to: string;
+}
+
+/**
+ * Replaces a candidate's form data, records each changed field and adds an
+ * audit entry with the re-computed risk. The candidate keeps its status.
+ */
+export const amendCandidate = db.transaction((
+  candidate: CandidateRecord,
+  data: FormState,
+  details: CandidateDetails,
+  scoring: SubmissionScoring,
+  changes: AmendedField[],
+  amendedBy: string,
+  reason: string,
+) => {
+  const timestamp = new Date().toISOString();
+  writeCandidateData(candidate.id, data, candidate.status);
+  db.prepare('UPDATE candidates SET normalized_percentage = ?, form_version = ? WHERE id = ?')
+    .run(details.normalizedPercentage, details.formVersion, candidate.id);
+
+  const auditEntry: AuditLogEntry = {
+    id: randomUUID(),
+    candidateId: candidate.id,
+    kind: 'Amendment',
+    submittedBy: amendedBy,
+    fullName: data.fullName,
+    email: data.email,
+    interviewStatus: data.interviewStatus,
+    ...scoring,
+    timestamp,
+  };
+  insertAuditEntry(auditEntry);
+
+  const insertChange = db.prepare(`
+    INSERT INTO candidate_amendments (
+      candidate_id, audit_id, field, old_value, new_value, changed_by, reason, changed_at
+    ) VALUES (@candidateId, @auditId, @field, @from, @to, @amendedBy, @reason, @timestamp)
+  `);
+  for (const change of changes) {
+    insertChange.run({ candidateId: candidate.id, auditId: auditEntry.id, ...change, amendedBy, reason, timestamp });
+  }
+  // Moving to another program gives up the seat held in the old one.
+  if (candidate.programId && candidate.programId !== data.programId && holdsSeat(candidate)) {
+    fillProgramSeats(candidate.programId, `Promoted from the waitlist after ${candidate.fullName} moved to another program`);
+  }
+  return { candidate: getCandidate(candidate.id)!, auditEntry };
+});
+
+/** The fields the localStorage-only version of the app recorded for each entry. */
+export type LegacyAuditEntry = Pick<
+  AuditLogEntry,
+  'id' | 'fullName' | 'email' | 'interviewStatus' | 'exceptionCount' | 'riskLevel' | 'timestamp'
+>;
+
+export function hasImportedLegacyAuditLog(): boolean {
+  return !!db.prepare('SELECT 1 FROM legacy_audit_import').get();
+}
+
+/**
+ * Imports entries saved by the localStorage-only version of the app. This
+ * happens once per database; entries whose id already exists are skipped.
+ */
+export const importAuditEntries = db.transaction((entries: LegacyAuditEntry[], importedBy: string) => {
+  const exists = db.prepare('SELECT 1 FROM audit_log WHERE id = ?');
+  let imported = 0;
+  for (const entry of entries) {
+    if (exists.get(entry.id)) continue;
+    // Legacy timestamps were written with toLocaleString(); keep them as-is
+    // when they cannot be parsed back into a date.
+    const parsed = new Date(entry.timestamp);
+    insertAuditEntry({
+      ...entry,
+      kind: 'Submission',
+      reviewStatus: 'Not Required',
+      timestamp: isNaN(parsed.getTime()) ? entry.timestamp : parsed.toISOString(),
+    });
+    imported++;
+  }
+  db.prepare(`
+    INSERT INTO legacy_audit_import (id, imported_by, entry_count, imported_at) VALUES (1, ?, ?, ?)
+  `).run(importedBy, imported, new Date().toISOString());
+  return imported;
+});
+
+export const recordReview = db.transaction((auditId: string, review: ReviewDecision) => {
+  const { lastInsertRowid } = db.prepare(`
+    INSERT INTO audit_reviews (audit_id, decision, reviewer, comment, created_at)
+    VALUES (@auditId, @decision, @reviewer, @comment, @timestamp)
+  `).run({ auditId, ...review });
+  db.prepare('UPDATE audit_log SET review_status = ? WHERE id = ?').run(review.decision, auditId);
+  const row = db.prepare('SELECT * FROM audit_reviews WHERE id = ?').get(lastInsertRowid) as AuditReviewRow;
+  appendChainLink('review', String(row.id), reviewContent(row));
+  return getAuditEntry(auditId)!;
+});
+
+export function listAuditArchives(): AuditArchive[] {
+  const rows = db.prepare('SELECT * FROM audit_archives ORDER BY archived_at DESC').all() as AuditArchiveRow[];
+  return rows.map(toAuditArchive);
+}
+
+export function getAuditArchive(id: string): AuditArchive | undefined {
+  const row = db.prepare('SELECT * FROM audit_archives WHERE id = ?').get(id) as AuditArchiveRow | undefined;
+  return row && toAuditArchive(row);
+}
+
+// Entries awaiting review stay in the active log so the review queue keeps them.
+const ARCHIVABLE = "archive_id IS NULL AND review_status != 'Pending'";
+
+export function countArchivableEntries(): number {
+  return (db.prepare(`SELECT COUNT(*) AS count FROM audit_log WHERE ${ARCHIVABLE}`).get() as { count: number }).count;
+}
+
+/** Moves every settled entry out of the active log. The archive itself is chained like any other record. */
+export const archiveAuditLog = db.transaction((archivedBy: string, reason: string): AuditArchive => {
+  const id = randomUUID();
+  db.prepare(`
+    INSERT INTO audit_archives (id, archived_by, reason, entry_count, archived_at)
+    VALUES (@id, @archivedBy, @reason, @entryCount, @timestamp)
+  `).run({ id, archivedBy, reason, entryCount: countArchivableEntries(), timestamp: new Date().toISOString() });
+  db.prepare(`UPDATE audit_log SET archive_id = ? WHERE ${ARCHIVABLE}`).run(id);
+  const archive = getAuditArchive(id)!;
+  appendChainLink('archive', id, archive);
+  return archive;
+});
+
+// --- Audit chain ---
+
+// Review outcomes and archiving happen after an entry is logged; both are
+// chained as records of their own, so the entry's link leaves them out. It
+// vouches for the review status the entry was logged with instead.
+function entryContent(entry: AuditLogEntry, initialReviewStatus: ReviewStatus | null): unknown {
+  const { reviewStatus, reviews, archiveId, ...content } = entry;
+  return { ...content, initialReviewStatus: initialReviewStatus ?? undefined };
+}
+
+function reviewContent(row: AuditReviewRow): unknown {
+  return { id: row.id, auditId: row.audit_id, ...toReviewDecision(row) };
+}
+
+function appendChainLink(recordType: AuditChainRecordType, recordId: string, content: unknown) {
+  const head = db.prepare('SELECT hash FROM audit_chain ORDER BY seq DESC LIMIT 1').get() as
+    | Pick<AuditChainRow, 'hash'>
+    | undefined;
+  const previousHash = head?.hash ?? null;
+  db.prepare(`
+    INSERT INTO audit_chain (record_type, record_id, previous_hash, hash, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(recordType, recordId, previousHash, chainHash(previousHash, content), new Date().toISOString());
+}
+
+interface ChainRecord {
+  recordType: AuditChainRecordType;
+  recordId: string;
+  content: unknown;
+}
+
+/** Everything the chain should vouch for, keyed by record type and id. */
+function loadChainRecords(): Map<string, ChainRecord> {
+  const records = new Map<string, ChainRecord>();
+  const add = (recordType: AuditChainRecordType, recordId: string, content: unknown) =>
+    records.set(`${recordType}:${recordId}`, { recordType, recordId, content });
+
+  const rows = db.prepare('SELECT * FROM audit_log').all() as AuditLogRow[];
+  hydrateAuditEntries(rows).forEach((entry, index) => {
+    add('entry', entry.id, entryContent(entry, rows[index].initial_review_status));
+  });
+  for (const row of db.prepare('SELECT * FROM audit_reviews').all() as AuditReviewRow[]) {
+    add('review', String(row.id), reviewContent(row));
+  }
+  for (const row of db.prepare('SELECT * FROM audit_archives').all() as AuditArchiveRow[]) {
+    add('archive', row.id, toAuditArchive(row));
+  }
+  return records;
+}
+
+/** Hashes the links a migration created for records that predate the chain, oldest first. */
+export const sealAuditChain = db.transaction(() => {
+  const unsealed = db.prepare('SELECT * FROM audit_chain WHERE hash IS NULL ORDER BY seq').all() as AuditChainRow[];
+  if (unsealed.length === 0) return;
+  const records = loadChainRecords();
+  const before = db.prepare('SELECT hash FROM audit_chain WHERE seq < ? ORDER BY seq DESC LIMIT 1')
+    .get(unsealed[0].seq) as Pick<AuditChainRow, 'hash'> | undefined;
+  let previousHash = before?.hash ?? null;
+  const seal = db.prepare('UPDATE audit_chain SET previous_hash = ?, hash = ? WHERE seq = ?');
+  for (const link of unsealed) {
+    const hash = chainHash(previousHash, records.get(`${link.record_type}:${link.record_id}`)?.content ?? null);
+    seal.run(previousHash, hash, link.seq);
+    previousHash = hash;
+  }
+});
+
+/** Re-computes every link and reports each place where the stored trail no longer matches it. */
+export function verifyAuditChain(): AuditChainReport {
+  const links = db.prepare('SELECT * FROM audit_chain ORDER BY seq').all() as AuditChainRow[];
+  const records = loadChainRecords();
+  const breaks: AuditChainBreak[] = [];
+
+  let previous: AuditChainRow | undefined;
+  for (const link of links) {
+    const at = { seq: link.seq, recordType: link.record_type, recordId: link.record_id };
+    const expectedSeq = previous ? previous.seq + 1 : 1;
+    if (link.seq !== expectedSeq) {
+      breaks.push({ ...at, reason: `${link.seq - expectedSeq} link(s) before this one were removed` });
+    } else if (link.previous_hash !== (previous?.hash ?? null)) {
+      breaks.push({ ...at, reason: 'Link does not follow on from the previous one' });
+    }
+
+    const key = `${link.record_type}:${link.record_id}`;
+    const record = records.get(key);
+    records.delete(key);
+    if (!record) {
+      breaks.push({ ...at, reason: 'The logged record has been deleted' });
+    } else if (link.hash !== chainHash(link.previous_hash, record.content)) {
+      breaks.push({ ...at, reason: 'The logged record has been altered' });
+    }
+    previous = link;
+  }
+
+  // Anything left over was written straight into the database, bypassing the chain.
+  for (const { recordType, recordId } of records.values()) {
+    breaks.push({ seq: null, recordType, recordId, reason: 'Record was added outside the audit chain' });
+  }
+
+  // The review status is the one part of an entry that changes after it is
+  // logged: it must be the last chained decision, or else the status it was logged with.
+  const entrySeqs = new Map(links.filter(link => link.record_type === 'entry').map(link => [link.record_id, link.seq]));
+  const statuses = db.prepare(`
+    SELECT id, review_status, initial_review_status,
+      (SELECT decision FROM audit_reviews WHERE audit_id = audit_log.id ORDER BY id DESC LIMIT 1) AS decision
+    FROM audit_log
+  `).all() as Array<Pick<AuditLogRow, 'id' | 'review_status' | 'initial_review_status'> & {
+    decision: ReviewStatus | null;
+  }>;
+  for (const row of statuses) {
+    // Entries logged before the initial status was recorded can only have been unreviewed or pending.
+    const expected = row.decision ?? row.initial_review_status;
+    const matches = expected
+      ? row.review_status === expected
+      : row.review_status === 'Not Required' || row.review_status === 'Pending';
+    if (!matches) {
+      breaks.push({
+        seq: entrySeqs.get(row.id) ?? null,
+        recordType: 'entry',
+        recordId: row.id,
+        reason: 'The review status does not match the chained review decisions',
+      });
+    }
+  }
+
+  return {
+    intact: breaks.length === 0,
+    linkCount: links.length,
+    headHash: previous?.hash ?? null,
+    breaks,
+    verifiedAt: new Date().toISOString(),
+  };
+}
+
+// --- Rule versions ---
+
+/** Versions of one program's rule set, or of the default rules when `programId` is null. */
+export function listRuleVersions(programId: string | null = null): RuleVersion[] {
+  const rows = db.prepare('SELECT * FROM rule_versions WHERE program_id IS ? ORDER BY version DESC')
+    .all(programId) as RuleVersionRow[];
+  return rows.map(toRuleVersion);
+}
+
+export function getRuleVersion(version: number): RuleVersion | undefined {
+  const row = db.prepare('SELECT * FROM rule_versions WHERE version = ?').get(version) as RuleVersionRow | undefined;
+  return row && toRuleVersion(row);
+}
+
+/** Version numbers are shared by all rule sets, so an audit entry's rule version identifies the set too. */
+export function createRuleVersion(rules: RuleConfig, author: string, programId: string | null = null): RuleVersion {
+  const ruleVersion: RuleVersion = {
+    version: (db.prepare('SELECT COALESCE(MAX(version), 0) + 1 AS next FROM rule_versions').get() as { next: number }).next,
+    programId,
+    rules,
+    author,
+    createdAt: new Date().toISOString(),
+  };
+  db.prepare(`
+    INSERT INTO rule_versions (version, program_id, rules, author, created_at)
+    VALUES (@version, @programId, @rules, @author, @createdAt)
+  `).run({ ...ruleVersion, rules: JSON.stringify(rules) });
+  return ruleVersion;
+}
+
+/**
+ * Latest version of a program's rule set, or of the default rules. The default
+ * rules are seeded from INITIAL_RULES on a fresh database; a program without
+ * rules of its own starts from the current defaults.
+ */
+export function getCurrentRuleVersion(programId: string | null = null): RuleVersion {
+  const row = db.prepare('SELECT * FROM rule_versions WHERE program_id IS ? ORDER BY version DESC LIMIT 1')
+    .get(programId) as RuleVersionRow | undefined;
+  if (row) return toRuleVersion(row);
+  return programId
+    ? createRuleVersion(getCurrentRuleVersion().rules, 'system', programId)
+    : createRuleVersion(INITIAL_RULES, 'system');
+}
+
+// --- Form schema versions ---
+
+export function listFormSchemaVersions(): FormSchemaVersion[] {
+  const rows = db.prepare('SELECT * FROM form_schema_versions ORDER BY version DESC').all() as FormSchemaVersionRow[];
+  return rows.map(toFormSchemaVersion);
+}
+
+export function createFormSchemaVersion(schema: FormSchema, author: string): FormSchemaVersion {
+  const schemaVersion: FormSchemaVersion = {
+    version: (db.prepare('SELECT COALESCE(MAX(version), 0) + 1 AS next FROM form_schema_versions').get() as { next: number }).next,
+    schema,
+    author,
+    createdAt: new Date().toISOString(),
+  };
+  db.prepare(`
+    INSERT INTO form_schema_versions (version, schema, author, created_at)
+    VALUES (@version, @schema, @author, @createdAt)
+  `).run({ ...schemaVersion, schema: JSON.stringify(schema) });
+  return schemaVersion;
+}
+
+/** Latest form schema, seeding version 1 from DEFAULT_FORM_SCHEMA on a fresh database. */
+export function getCurrentFormSchemaVersion(): FormSchemaVersion {
+  const row = db.prepare('SELECT * FROM form_schema_versions ORDER BY version DESC LIMIT 1').get() as
+    | FormSchemaVersionRow
+    | undefined;
+  return row ? toFormSchemaVersion(row) : createFormSchemaVersion(DEFAULT_FORM_SCHEMA, 'system');
+}
+
+// --- Offer letters ---
+
+export function listOfferLetterTemplates(kind: OfferLetterKind): OfferLetterTemplate[] {
+  const rows = db.prepare('SELECT * FROM offer_letter_templates WHERE kind = ? ORDER BY version DESC')
+    .all(kind) as OfferLetterTemplateRow[];
+  return rows.map(toOfferLetterTemplate);
+}
+
+export function createOfferLetterTemplate(
+  kind: OfferLetterKind,
+  { subject, body, responseDays }: OfferLetterTemplateRequest,
+  author: string,
+): OfferLetterTemplate {
+  const next = db.prepare('SELECT COALESCE(MAX(version), 0) + 1 AS next FROM offer_letter_templates WHERE kind = ?')
+    .get(kind) as { next: number };
+  const template: OfferLetterTemplate = {
+    kind,
+    version: next.next,
+    subject,
+    body,
+    responseDays,
+    author,
+    createdAt: new Date().toISOString(),
+  };
+  db.prepare(`
+    INSERT INTO offer_letter_templates (kind, version, subject, body, response_days, author, created_at)
+    VALUES (@kind, @version, @subject, @body, @responseDays, @author, @createdAt)
+  `).run(template);
+  return template;
+}
+
+/** Latest template of a kind, seeding version 1 from DEFAULT_OFFER_LETTER_TEMPLATES on a fresh database. */
+export function getCurrentOfferLetterTemplate(kind: OfferLetterKind): OfferLetterTemplate {
+  const row = db.prepare('SELECT * FROM offer_letter_templates WHERE kind = ? ORDER BY version DESC LIMIT 1')
+    .get(kind) as OfferLetterTemplateRow | undefined;
+  return row ? toOfferLetterTemplate(row) : createOfferLetterTemplate(kind, DEFAULT_OFFER_LETTER_TEMPLATES[kind], 'system');
+}
+
+export function getOfferLetterHtml(candidateId: string, version: number): string | undefined {
+  const row = db.prepare('SELECT html FROM offer_letters WHERE candidate_id = ? AND version = ?')
+    .get(candidateId, version) as Pick<OfferLetterRow, 'html'> | undefined;
+  return row?.html;
+}
+
+/** Letter contents rendered from a template, before they are stored. */
+export interface RenderedOfferLetter {
+  kind: OfferLetterKind;
+  templateVersion: number;
+  subject: string;
+  html: string;
+}
+
+/**
+ * Stores the letter as the candidate's next version and, on the first letter,
+ * moves the candidate to Offer Sent. Callers must check that transition first.
+ */
+export const recordOfferLetter = db.transaction(
+  (candidate: CandidateRecord, letter: RenderedOfferLetter, generatedBy: string) => {
+    const version = candidate.offerLetters.length + 1;
+    const generatedAt = new Date().toISOString();
+    db.prepare(`
+      INSERT INTO offer_letters (
+        candidate_id, version, kind, template_version, subject, html, generated_by, generated_at
+      ) VALUES (@candidateId, @version, @kind, @templateVersion, @subject, @html, @generatedBy, @generatedAt)
+    `).run({ candidateId: candidate.id, version, ...letter, generatedBy, generatedAt });
+    if (candidate.status !== 'Offer Sent') {
+      transitionCandidate(candidate, 'Offer Sent', generatedBy, `Offer letter v${version} sent`);
+    }
+    return getCandidate(candidate.id)!;
+  },
+);
+
+// --- Programs ---
+
+const SEAT_COLUMNS = 'program_id, id, status, interview_status';
+
+export function listPrograms(): Program[] {
+  const seats = groupRows(
+    db.prepare(`SELECT ${SEAT_COLUMNS} FROM candidates WHERE program_id IS NOT NULL`).all() as SeatRow[],
+    'program_id',
+    row => row,
+  );
+  const rows = db.prepare('SELECT * FROM programs ORDER BY cohort DESC, name').all() as ProgramRow[];
+  return rows.map(row => toProgram(row, seats.get(row.id) ?? []));
+}
+
+export function getProgram(id: string): Program | undefined {
+  const row = db.prepare('SELECT * FROM programs WHERE id = ?').get(id) as ProgramRow | undefined;
+  if (!row) return undefined;
+  const seats = db.prepare(`SELECT ${SEAT_COLUMNS} FROM candidates WHERE program_id = ?`).all(id) as SeatRow[];
+  return toProgram(row, seats);
+}
+
+/** Seats held in the program by candidates other than `excludeId`. */
+export function countSeatsHeld(programId: string, excludeId?: string): number {
+  const seats = db.prepare(`SELECT ${SEAT_COLUMNS} FROM candidates WHERE program_id = ? AND id != ?`)
+    .all(programId, excludeId ?? '') as SeatRow[];
+  return seats.map(seatStateOf).filter(holdsSeat).length;
+}
+
+/** Creates the program with a copy of the current default rules as its own rule set. */
+export const createProgram = db.transaction((request: ProgramRequest, createdBy: string): Program => {
+  const id = randomUUID();
+  db.prepare(`
+    INSERT INTO programs (id, name, cohort, seats, created_by, created_at)
+    VALUES (@id, @name, @cohort, @seats, @createdBy, @createdAt)
+  `).run({ id, ...request, createdBy, createdAt: new Date().toISOString() });
+  createRuleVersion(getCurrentRuleVersion().rules, createdBy, id);
+  return getProgram(id)!;
+});
+
+/** Callers must not lower the seats below those already held. Added seats go to the waitlist. */
+export const updateProgram = db.transaction((program: Program, request: ProgramRequest): Program => {
+  db.prepare('UPDATE programs SET name = @name, cohort = @cohort, seats = @seats WHERE id = @id')
+    .run({ id: program.id, ...request });
+  if (request.seats > program.seats) {
+    fillProgramSeats(program.id, `Promoted from the waitlist after seats were raised to ${request.seats}`);
+  }
+  return getProgram(program.id)!;
+});
+
+/**
+ * A Waitlisted candidate moves to Cleared. One holding a conditional offer
+ * keeps their status and is cleared, so a reissued letter confirms the seat.
+ */
+function promoteFromWaitlist(candidate: CandidateRecord, note: string): CandidateRecord {
+  if (candidate.status === 'Waitlisted') return transitionCandidate(candidate, 'Cleared', 'system', note);
+  writeCandidateData(candidate.id, { ...formStateOf(candidate), interviewStatus: 'Cleared' }, candidate.status);
+  insertStatusChange(candidate.id, {
+    from: candidate.status,
+    to: candidate.status,
+    changedBy: 'system',
+    note,
+    timestamp: new Date().toISOString(),
+  });
+  return getCandidate(candidate.id)!;
+}
+
+/** Promotes the program's waitlisted candidates, in priority order, into its free seats. */
+export const fillProgramSeats = db.transaction((programId: string, note: string): CandidateRecord[] => {
+  const free = seatsLeft(getProgram(programId)!);
+  if (free === 0) return [];
+  const rows = db.prepare('SELECT * FROM candidates WHERE program_id = ?').all(programId) as CandidateRow[];
+  const waitlist = hydrateCandidates(rows).filter(isOnWaitlist).sort(compareWaitlistPriority);
+  return waitlist.slice(0, free).map(candidate => promoteFromWaitlist(candidate, note));
+});
+
+// --- Drafts ---
+
+export function listDrafts(owner: string): DraftSummary[] {
+  const rows = db.prepare('SELECT * FROM drafts WHERE owner = ? ORDER BY updated_at DESC').all(owner) as DraftRow[];
+  return rows.map(toDraftSummary);
+}
+
+export function getDraft(id: string, owner: string): Draft | undefined {
+  const row = db.prepare('SELECT * FROM drafts WHERE id = ? AND owner = ?').get(id, owner) as DraftRow | undefined;
+  return row && toDraft(row);
+}
+
+/**
+ * Creates the draft on first save; later saves replace its data and keep its
+ * creation time. Aadhaar numbers are never kept in a draft. Returns undefined
+ * when the id belongs to another user's draft.
+ */
+export function saveDraft(id: string, owner: string, data: FormState): Draft | undefined {
+  const now = new Date().toISOString();
+  db.prepare(`
+    INSERT INTO drafts (id, owner, full_name, data, created_at, updated_at)
+    VALUES (@id, @owner, @fullName, @data, @now, @now)
+    ON CONFLICT (id) DO UPDATE SET full_name = excluded.full_name, data = excluded.data, updated_at = excluded.updated_at
+    WHERE drafts.owner = excluded.owner
+  `).run({ id, owner, fullName: data.fullName, data: JSON.stringify({ ...data, aadhaarNumber: '' }), now });
+  return getDraft(id, owner);
+}
+
+export function deleteDraft(id: string, owner: string): boolean {
+  return db.prepare('DELETE FROM drafts WHERE id = ? AND owner = ?').run(id, owner).changes > 0;
+}
+
+export function deleteDraftsUpdatedBefore(cutoff: string): number {
+  return db.prepare('DELETE FROM drafts WHERE updated_at < ?').run(cutoff).changes;
+}
+
+// --- Users and sessions ---
+
+export function countUsers(): number {
+  return (db.prepare('SELECT COUNT(*) AS count FROM users').get() as { count: number }).count;
+}
+
+export function countActiveAdmins(): number {
+  return (db.prepare(
+    "SELECT COUNT(*) AS count FROM users WHERE role = 'admin' AND active = 1",
+  ).get() as { count: number }).count;
+}
+
+export function listUsers(): User[] {
+  return (db.prepare('SELECT * FROM users ORDER BY username').all() as UserRow[]).map(toUser);
+}
+
+export function getUser(id: string): User | undefined {
+  const row = db.prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
+  return row && toUser(row);
+}
+
+/** Usernames are matched case-insensitively. */
+export function getUserCredentials(username: string): { user: User; passwordHash: string } | undefined {
+  const row = db.prepare('SELECT * FROM users WHERE username = ?').get(username) as UserRow | undefined;
+  return row && { user: toUser(row), passwordHash: row.password_hash };
+}
+
+export function createUser(username: string, displayName: string, role: UserRole, passwordHash: string): User {
+  const id = randomUUID();
+  db.prepare(`
+    INSERT INTO users (id, username, display_name, role, password_hash, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(id, username, displayName, role, passwordHash, new Date().toISOString());
+  return getUser(id)!;
+}
+
+export interface UserChanges {
+  displayName?: string;
+  role?: UserRole;
+  passwordHash?: string;
+  active?: boolean;
+}
+
+/** Applies the given changes; a new password or deactivation also ends the user's sessions. */
+export const updateUser = db.transaction((id: string, changes: UserChanges): User => {
+  const current = db.prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow;
+  db.prepare(`
+    UPDATE users SET display_name = @displayName, role = @role, password_hash = @passwordHash, active = @active
+    WHERE id = @id
+  `).run({
+    id,
+    displayName: changes.displayName ?? current.display_name,
+    role: changes.role ?? current.role,
+    passwordHash: changes.passwordHash ?? current.password_hash,
+    active: changes.active === undefined ? current.active : Number(changes.active),
+  });
+  if (changes.passwordHash || changes.active === false) {
+    db.prepare('DELETE FROM sessions WHERE user_id = ?').run(id);
+  }
+  return getUser(id)!;
+});
+
+export function createSession(tokenHash: string, userId: string, expiresAt: string) {
+  db.prepare('INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)')
+    .run(tokenHash, userId, new Date().toISOString(), expiresAt);
+}
+
+/** The active user a live session belongs to. */
+export function getSessionUser(tokenHash: string, now: string): User | undefined {
+  const row = db.prepare(`
+    SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id
+    WHERE sessions.token_hash = ? AND sessions.expires_at > ? AND users.active = 1
+  `).get(tokenHash, now) as UserRow | undefined;
+  return row && toUser(row);
+}
+
+export function deleteSession(tokenHash: string) {
+  db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(tokenHash);
+}
+
+export function deleteSessionsExpiredBefore(cutoff: string): number {
+  return db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(cutoff).changes;
+}
+
+// --- Partner API keys ---
+
+export function listApiKeys(): ApiKey[] {
+  return (db.prepare('SELECT * FROM api_keys ORDER BY created_at').all() as ApiKeyRow[]).map(toApiKey);
+}
+
+export function getApiKey(id: string): ApiKey | undefined {
+  const row = db.prepare('SELECT * FROM api_keys WHERE id = ?').get(id) as ApiKeyRow | undefined;
+  return row && toApiKey(row);
+}
+
+export function getApiKeyBySource(source: string): ApiKey | undefined {
+  const row = db.prepare('SELECT * FROM api_keys WHERE source = ?').get(source) as ApiKeyRow | undefined;
+  return row && toApiKey(row);
+}
+
+export function createApiKey(source: string, tokenHash: string, createdBy: string): ApiKey {
+  const id = randomUUID();
+  db.prepare(`
+    INSERT INTO api_keys (id, source, token_hash, created_by, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(id, source, tokenHash, createdBy, new Date().toISOString());
+  return getApiKey(id)!;
+}
+
+export function revokeApiKey(id: string): ApiKey {
+  db.prepare('UPDATE api_keys SET revoked_at = ? WHERE id = ?').run(new Date().toISOString(), id);
+  return getApiKey(id)!;
+}
+
+/** The unrevoked key with this token hash, marked as used now. */
+export function useApiKey(tokenHash: string): ApiKey | undefined {
+  const row = db.prepare('SELECT * FROM api_keys WHERE token_hash = ? AND revoked_at IS NULL').get(tokenHash) as
+    | ApiKeyRow
+    | undefined;
+  if (!row) return undefined;
+  db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(new Date().toISOString(), row.id);
+  return getApiKey(row.id);
+}
+
+/** The submission an earlier request with this idempotency key created, if any. */
+export function getIntakeRequest(apiKeyId: string, idempotencyKey: string) {
+  const row = db.prepare('SELECT * FROM intake_requests WHERE api_key_id = ? AND idempotency_key = ?')
+    .get(apiKeyId, idempotencyKey) as IntakeRequestRow | undefined;
+  return row && { requestHash: row.request_hash, candidateId: row.candidate_id, auditId: row.audit_id };
+}
@@ -1,221 +1,313 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
-  User, 
-  Mail, 
-  Phone, 
-  Calendar, 
-  GraduationCap, 
-  Award, 
-  FileText, 
   CheckCircle2, 
   XCircle, 
   Clock,
+  Layers,
+  LogOut,
   Send,
-  Fingerprint,
   RotateCcw
 } from 'lucide-react';
 import { motion } from 'motion/react';
 
-type Qualification = 'B.Tech' | 'B.E.' | 'B.Sc' | 'BCA' | 'M.Tech' | 'M.Sc' | 'MCA' | 'MBA';
-type InterviewStatus = 'Cleared' | 'Waitlisted' | 'Rejected';
-type ScoreMode = 'Percentage' | 'CGPA';
-
-interface FormState {
-  fullName: string;
-  email: string;
-  phone: string;
-  dob: string;
-  qualification: Qualification | '';
-  graduationYear: string;
-  score: string;
-  scoreMode: ScoreMode;
-  screeningScore: string;
-  interviewStatus: InterviewStatus | '';
-  aadhaarNumber: string;
-  offerLetterSent: boolean;
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import ApiKeyAdmin from './components/ApiKeyAdmin';
+import AuditLog from './components/AuditLog';
+import BulkImport from './components/BulkImport';
+import CandidateList from './components/CandidateList';
+import DraftList from './components/DraftList';
+import DuplicateReport from './components/DuplicateReport';
+import ExceptionApprovals from './components/ExceptionApprovals';
+import FormField, { FIELD_ICONS } from './components/FormField';
+import FormSchemaEditor from './components/FormSchemaEditor';
+import OfferLetterTemplates from './components/OfferLetterTemplates';
+import ProgramList from './components/ProgramList';
+import QualificationOverrides from './components/QualificationOverrides';
+import ReviewQueue from './components/ReviewQueue';
+import RiskBreakdown from './components/RiskBreakdown';
+import RuleHistory from './components/RuleHistory';
+import RuleSimulation from './components/RuleSimulation';
+import UserAdmin from './components/UserAdmin';
+import { api } from './lib/api';
+import { DUPLICATE_REASON_LABELS } from './lib/duplicates';
+import { fieldKey, getFieldValue, setFieldValue } from './lib/formSchema';
+import { formatTimestamp, riskBadgeClassName } from './lib/format';
+import { initialStatus, STATUS_MANAGED_FIELDS } from './lib/lifecycle';
+import { can } from './lib/permissions';
+import { holdsSeat, NO_SEATS_MESSAGE, programLabel, seatsLeft } from './lib/programs';
+import { normalizePercentage } from './lib/scores';
+import {
+  CGPA_SCALES,
+  CURRENT_DRAFT_KEY,
+  DEFAULT_FORM_SCHEMA,
+  INITIAL_RULES,
+  INITIAL_STATE,
+  LEGACY_AUDIT_LOG_KEY,
+} from './constants';
+import {
+  assessRisk,
+  hasStrictErrors,
+  requiresReview,
+  validateAdmission,
+  validateExceptionRequests,
+} from './validation';
+import {
+  AuditLogEntry,
+  CandidateRecord,
+  CgpaScale,
+  Draft,
+  DuplicateMatch,
+  ExceptionRequest,
+  FormFieldDefinition,
+  FormSchema,
+  FormSchemaVersion,
+  FormState,
+  Program,
+  RuleConfig,
+  RuleVersion,
+  ScoreMode,
+  SimulationResult,
+  User,
+  ValidationErrors,
+  ValidationWarnings,
+} from './types';
+
+/** An amendment leaves the status-managed fields to transitions, so their rules are not re-run. */
+const skipFieldsFor = (amending: boolean) => (amending ? STATUS_MANAGED_FIELDS : undefined);
+
+interface AppProps {
+  user: User;
+  onSignOut: () => void;
 }
 
-interface ValidationErrors {
-  fullName?: string;
-  email?: string;
-  phone?: string;
-  dob?: string;
-  qualification?: string;
-  graduationYear?: string;
-  score?: string;
-  screeningScore?: string;
-  aadhaarNumber?: string;
-  interviewStatus?: string;
-  offerLetterSent?: string;
-}
-
-interface ValidationWarnings {
-  dob?: string;
-  graduationYear?: string;
-  score?: string;
-  screeningScore?: string;
-}
-
-interface AuditLogEntry {
-  id: string;
-  fullName: string;
-  email: string;
-  interviewStatus: string;
-  exceptionCount: number;
-  riskLevel: 'Low' | 'Medium' | 'High';
-  timestamp: string;
-}
-
-const INITIAL_STATE: FormState = {
-  fullName: '',
-  email: '',
-  phone: '',
-  dob: '',
-  qualification: '',
-  graduationYear: '',
-  score: '',
-  scoreMode: 'Percentage',
-  screeningScore: '',
-  interviewStatus: '',
-  aadhaarNumber: '',
-  offerLetterSent: false,
-};
-
-const INITIAL_RULES = {
-  minAge: 18,
-  maxFutureGradYears: 2,
-  minPercentage: 60,
-  minCGPA: 6.0,
-  minScreeningScore: 40,
-  highRiskThreshold: 2
-};
-
-export default function App() {
+export default function App({ user, onSignOut }: AppProps) {
+  const canEnterCandidates = can(user, 'enterCandidates');
   const [formData, setFormData] = useState<FormState>(INITIAL_STATE);
-  const [rules, setRules] = useState(INITIAL_RULES);
-  const [tempRules, setTempRules] = useState(INITIAL_RULES);
+  const [rules, setRules] = useState<RuleConfig>(INITIAL_RULES);
+  const [tempRules, setTempRules] = useState<RuleConfig>(INITIAL_RULES);
   const [errors, setErrors] = useState<ValidationErrors>({});
   const [warnings, setWarnings] = useState<ValidationWarnings>({});
+  const [view, setView] = useState<'form' | 'drafts' | 'import' | 'candidates' | 'reviews' | 'programs' | 'analytics' | 'users'>(
+    canEnterCandidates ? 'form' : 'candidates',
+  );
   const [showSuccess, setShowSuccess] = useState(false);
-  const [auditLog, setAuditLog] = useState<AuditLogEntry[]>(() => {
-    const saved = localStorage.getItem('admitguard_audit_log');
-    return saved ? JSON.parse(saved) : [];
-  });
-
-  // Persist audit log to localStorage
+  const [ruleVersion, setRuleVersion] = useState<number | null>(null);
+  const [formSchema, setFormSchema] = useState<FormSchema>(DEFAULT_FORM_SCHEMA);
+  const [formVersion, setFormVersion] = useState<number | null>(null);
+  const [programs, setPrograms] = useState<Program[]>([]);
+  const [showRuleHistory, setShowRuleHistory] = useState(false);
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [auditLog, setAuditLog] = useState<AuditLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [justifications, setJustifications] = useState<Record<string, string>>({});
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+  const [selectedCandidateId, setSelectedCandidateId] = useState<string | null>(null);
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  // Set while the form holds a stored candidate being amended rather than a new application.
+  const [amendment, setAmendment] = useState<{ candidate: CandidateRecord; reason: string } | null>(null);
+  const skipFields = skipFieldsFor(!!amendment);
+  // Serialized form last written to the draft, so reopening a draft does not count as an edit.
+  const lastSavedDraft = useRef('');
+
+  // Load persisted state from the server. An admin's browser imports any log left in
+  // localStorage by the browser-only version of the app; the server takes one such import.
   useEffect(() => {
-    localStorage.setItem('admitguard_audit_log', JSON.stringify(auditLog));
-  }, [auditLog]);
-
-  const validate = (data: FormState, currentRules: typeof INITIAL_RULES) => {
-    const newErrors: ValidationErrors = {};
-    const newWarnings: ValidationWarnings = {};
-
-    // --- STRICT RULES ---
-    // Full Name
-    if (!data.fullName.trim()) {
-      newErrors.fullName = 'Full Name is required';
-    } else if (data.fullName.trim().length < 2) {
-      newErrors.fullName = 'Minimum 2 characters required';
-    } else if (/\d/.test(data.fullName)) {
-      newErrors.fullName = 'Numbers are not allowed in name';
-    }
-
-    // Email
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!data.email) {
-      newErrors.email = 'Email is required';
-    } else if (!emailRegex.test(data.email)) {
-      newErrors.email = 'Invalid email format (e.g. user@domain.com)';
-    }
-
-    // Phone
-    const phoneRegex = /^[6-9]\d{9}$/;
-    if (!data.phone) {
-      newErrors.phone = 'Phone number is required';
-    } else if (!phoneRegex.test(data.phone)) {
-      newErrors.phone = 'Must be 10 digits starting with 6, 7, 8, or 9';
-    }
-
-    // Qualification
-    if (!data.qualification) {
-      newErrors.qualification = 'Please select a qualification';
-    }
+    const load = async () => {
+      const legacyLog = localStorage.getItem(LEGACY_AUDIT_LOG_KEY);
+      if (legacyLog && can(user, 'archiveAuditLog')) {
+        // A refused import would be refused again, so the local copy goes either way.
+        await api.importAuditLog(JSON.parse(legacyLog) as AuditLogEntry[])
+          .catch((err: Error) => alert(`The audit log saved in this browser was not imported: ${err.message}`));
+        localStorage.removeItem(LEGACY_AUDIT_LOG_KEY);
+      }
+      const [savedLog, currentRules, currentSchema] = await Promise.all([
+        api.listAuditLog(),
+        api.getCurrentRules(),
+        api.getCurrentFormSchema(),
+      ]);
+      setAuditLog(savedLog);
+      setRules(currentRules.rules);
+      setTempRules(currentRules.rules);
+      setRuleVersion(currentRules.version);
+      setFormSchema(currentSchema.schema);
+      setFormVersion(currentSchema.version);
+
+      // Resume the draft that was open before a reload; it may have expired or been submitted since.
+      const currentDraftId = localStorage.getItem(CURRENT_DRAFT_KEY);
+      if (currentDraftId && canEnterCandidates) {
+        await api.getDraft(currentDraftId)
+          .then(draft => openDraft(draft, currentRules.rules, currentSchema.schema))
+          .catch(() => localStorage.removeItem(CURRENT_DRAFT_KEY));
+      }
+    };
+    load()
+      .catch((err: Error) => setLoadError(err.message))
+      .finally(() => setIsLoading(false));
+  }, []);
 
-    // Aadhaar
-    const aadhaarRegex = /^\d{12}$/;
-    if (!data.aadhaarNumber) {
-      newErrors.aadhaarNumber = 'Aadhaar Number is required';
-    } else if (!aadhaarRegex.test(data.aadhaarNumber)) {
-      newErrors.aadhaarNumber = 'Must be exactly 12 digits (numbers only)';
-    }
+  // Seats change with every transition elsewhere in the app, so refresh the counts on each view.
+  useEffect(() => {
+    api.listPrograms()
+      .then(setPrograms)
+      .catch(() => undefined);
+  }, [view]);
 
-    // Offer Letter Sent logic
-    if (data.offerLetterSent) {
-      if (data.interviewStatus !== 'Cleared' && data.interviewStatus !== 'Waitlisted') {
-        newErrors.offerLetterSent = 'Offer letter can only be sent to Cleared or Waitlisted candidates';
-      }
+  // Check identifying fields against stored candidates once typing settles.
+  useEffect(() => {
+    const { fullName, email, phone, dob, aadhaarNumber } = formData;
+    if (!email && !phone && !aadhaarNumber && !(fullName && dob)) {
+      setDuplicates([]);
+      return;
     }
-
-    // Interview Status
-    if (data.interviewStatus === 'Rejected') {
-      newErrors.interviewStatus = 'Rejected candidates cannot be enrolled';
+    const timer = setTimeout(() => {
+      api.findDuplicates(formData, amendment?.candidate.id)
+        .then((matches) => {
+          setDuplicates(matches);
+          const { errors: newErrors, warnings: newWarnings } = validateAdmission(formData, rules, {
+            duplicates: matches,
+            schema: formSchema,
+            skipFields,
+          });
+          setErrors(newErrors);
+          setWarnings(newWarnings);
+        })
+        .catch(() => setDuplicates([]));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [formData.fullName, formData.email, formData.phone, formData.dob, formData.aadhaarNumber, rules, formSchema]);
+
+  // Save the form as a draft once typing settles. An untouched form is not worth keeping,
+  // and an amendment edits a stored record rather than a new application.
+  useEffect(() => {
+    const serialized = JSON.stringify(formData);
+    if (isLoading || amendment || serialized === JSON.stringify(INITIAL_STATE) || serialized === lastSavedDraft.current) return;
+    const timer = setTimeout(() => {
+      const id = draftId ?? crypto.randomUUID();
+      setDraftId(id);
+      localStorage.setItem(CURRENT_DRAFT_KEY, id);
+      lastSavedDraft.current = serialized;
+      api.saveDraft(id, formData)
+        .then(saved => setDraftSavedAt(saved.updatedAt))
+        .catch(() => setDraftSavedAt(null));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [formData]);
+
+  /**
+   * The rules in force always belong to the program selected on the form;
+   * anything that changes the program loads that program's rule set.
+   */
+  const loadRules = async (data: FormState, schema: FormSchema = formSchema, amending = !!amendment) => {
+    try {
+      applyRuleVersion(await api.getCurrentRules(data.programId || undefined), data, schema, amending);
+    } catch (err) {
+      alert(`Could not load the program's rules: ${(err as Error).message}`);
     }
+  };
 
-    // --- SOFT RULES (Exceptions) ---
-    // Date of Birth (Min Age)
-    if (data.dob) {
-      const birthDate = new Date(data.dob);
-      const today = new Date();
-      let age = today.getFullYear() - birthDate.getFullYear();
-      const m = today.getMonth() - birthDate.getMonth();
-      if (m < 0 || (m === 0 && today.getDate() < birthDate.getDate())) {
-        age--;
-      }
-      if (age < currentRules.minAge) {
-        newWarnings.dob = `Candidate is under ${currentRules.minAge} years old (Exception)`;
-      }
-    }
+  const applyRuleVersion = (
+    current: RuleVersion,
+    data: FormState = formData,
+    schema: FormSchema = formSchema,
+    amending = !!amendment,
+  ) => {
+    setRules(current.rules);
+    setTempRules(current.rules);
+    setRuleVersion(current.version);
+    setSimulation(null);
+    const { errors: newErrors, warnings: newWarnings } = validateAdmission(data, current.rules, {
+      duplicates,
+      schema,
+      skipFields: skipFieldsFor(amending),
+    });
+    setErrors(newErrors);
+    setWarnings(newWarnings);
+  };
 
-    // Graduation Year (Max Future Years)
-    if (data.graduationYear) {
-      const currentYear = new Date().getFullYear();
-      const gradYear = parseInt(data.graduationYear);
-      if (gradYear > currentYear + currentRules.maxFutureGradYears) {
-        newWarnings.graduationYear = `Graduation year is beyond ${currentYear + currentRules.maxFutureGradYears} (Exception)`;
-      }
-    }
+  const openDraft = (draft: Draft, ruleConfig: RuleConfig = rules, schema: FormSchema = formSchema) => {
+    if (draft.data.programId !== formData.programId) loadRules(draft.data, schema);
+    lastSavedDraft.current = JSON.stringify(draft.data);
+    setFormData(draft.data);
+    setDraftId(draft.id);
+    setDraftSavedAt(draft.updatedAt);
+    localStorage.setItem(CURRENT_DRAFT_KEY, draft.id);
+    const { errors: newErrors, warnings: newWarnings } = validateAdmission(draft.data, ruleConfig, { duplicates, schema });
+    setErrors(newErrors);
+    setWarnings(newWarnings);
+    setJustifications({});
+    setView('form');
+  };
 
-    // Percentage/CGPA
-    if (data.score) {
-      const scoreVal = parseFloat(data.score);
-      if (data.scoreMode === 'Percentage') {
-        if (scoreVal < currentRules.minPercentage) {
-          newWarnings.score = `Percentage is below ${currentRules.minPercentage}% (Exception)`;
-        }
-      } else {
-        if (scoreVal < currentRules.minCGPA) {
-          newWarnings.score = `CGPA is below ${currentRules.minCGPA.toFixed(1)} (Exception)`;
-        }
-      }
-    }
+  // The form keeps its contents; the next edit starts a new draft.
+  const forgetDraft = (discardedId: string) => {
+    if (discardedId !== draftId) return;
+    setDraftId(null);
+    setDraftSavedAt(null);
+    localStorage.removeItem(CURRENT_DRAFT_KEY);
+  };
 
-    // Screening Test Score
-    if (data.screeningScore) {
-      const screeningVal = parseFloat(data.screeningScore);
-      if (screeningVal < currentRules.minScreeningScore) {
-        newWarnings.screeningScore = `Screening score is below ${currentRules.minScreeningScore} (Exception)`;
-      }
-    }
+  const openCandidate = (candidateId: string) => {
+    setSelectedCandidateId(candidateId);
+    setView('candidates');
+  };
 
-    return { errors: newErrors, warnings: newWarnings };
+  // Any draft in the form stays in the Drafts list; the amendment replaces it in the form.
+  const openAmendment = (candidate: CandidateRecord, aadhaarNumber: string, reason: string) => {
+    const {
+      id, status, statusHistory, aadhaarAccessLog, amendments, offerLetters, normalizedPercentage, formVersion, createdAt,
+      ...stored
+    } = candidate;
+    const data: FormState = { ...INITIAL_STATE, ...stored, aadhaarNumber };
+    if (data.programId !== formData.programId) loadRules(data, formSchema, true);
+    setDraftId(null);
+    setDraftSavedAt(null);
+    localStorage.removeItem(CURRENT_DRAFT_KEY);
+    setAmendment({ candidate, reason });
+    setFormData(data);
+    setDuplicates([]);
+    const { errors: newErrors, warnings: newWarnings } = validateAdmission(data, rules, {
+      schema: formSchema,
+      skipFields: skipFieldsFor(true),
+    });
+    setErrors(newErrors);
+    setWarnings(newWarnings);
+    // Justifications carry over from the latest scoring; the exceptions are approved again.
+    const latest = auditLog.find(entry => entry.candidateId === candidate.id);
+    setJustifications(Object.fromEntries((latest?.exceptions ?? []).map(e => [e.ruleId, e.justification])));
+    setView('form');
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     const updatedData = { ...formData, [name]: value };
     setFormData(updatedData);
-    const { errors: newErrors, warnings: newWarnings } = validate(updatedData, rules);
+    const { errors: newErrors, warnings: newWarnings } = validateAdmission(updatedData, rules, {
+      duplicates,
+      schema: formSchema,
+      skipFields,
+    });
+    setErrors(newErrors);
+    setWarnings(newWarnings);
+  };
+
+  const handleProgramChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const updatedData = { ...formData, programId: e.target.value };
+    setFormData(updatedData);
+    loadRules(updatedData);
+  };
+
+  const handleFieldChange = (field: FormFieldDefinition, value: string) => {
+    const updatedData = setFieldValue(formData, field, value);
+    setFormData(updatedData);
+    const { errors: newErrors, warnings: newWarnings } = validateAdmission(updatedData, rules, {
+      duplicates,
+      schema: formSchema,
+      skipFields,
+    });
     setErrors(newErrors);
     setWarnings(newWarnings);
   };
@@ -226,88 +318,169 @@ export default function App() {
       scoreMode: formData.scoreMode === 'Percentage' ? 'CGPA' : 'Percentage' as ScoreMode
     };
     setFormData(updatedData);
-    const { errors: newErrors, warnings: newWarnings } = validate(updatedData, rules);
+    const { errors: newErrors, warnings: newWarnings } = validateAdmission(updatedData, rules, {
+      duplicates,
+      schema: formSchema,
+      skipFields,
+    });
     setErrors(newErrors);
     setWarnings(newWarnings);
   };
 
-  const toggleOfferLetter = () => {
-    const updatedData = {
-      ...formData,
-      offerLetterSent: !formData.offerLetterSent
-    };
+  const changeCgpaScale = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const updatedData = { ...formData, cgpaScale: Number(e.target.value) as CgpaScale };
     setFormData(updatedData);
-    const { errors: newErrors, warnings: newWarnings } = validate(updatedData, rules);
+    const { errors: newErrors, warnings: newWarnings } = validateAdmission(updatedData, rules, {
+      duplicates,
+      schema: formSchema,
+      skipFields,
+    });
     setErrors(newErrors);
     setWarnings(newWarnings);
   };
 
   const handleReset = () => {
+    if (formData.programId) loadRules(INITIAL_STATE);
     setFormData(INITIAL_STATE);
     setErrors({});
     setWarnings({});
+    setJustifications({});
+    setDuplicates([]);
+    setAmendment(null);
+    // A reset form starts a new draft; the old one stays in the Drafts list until it expires.
+    setDraftId(null);
+    setDraftSavedAt(null);
+    localStorage.removeItem(CURRENT_DRAFT_KEY);
   };
 
-  const handleRuleChange = (key: keyof typeof INITIAL_RULES, value: string) => {
-    const numValue = parseFloat(value) || 0;
-    setTempRules(prev => ({ ...prev, [key]: numValue }));
+  const handleRuleChange = (key: keyof RuleConfig, value: string | boolean) => {
+    const ruleValue = typeof value === 'boolean' ? value : parseFloat(value) || 0;
+    setTempRules(prev => ({ ...prev, [key]: ruleValue }));
+    // A preview of the previous draft would be misleading now.
+    setSimulation(null);
   };
 
-  const updateRules = () => {
-    setRules(tempRules);
-    const { errors: newErrors, warnings: newWarnings } = validate(formData, tempRules);
+  const previewRules = async () => {
+    setIsSimulating(true);
+    try {
+      setSimulation(await api.simulateRules(tempRules, formData.programId || undefined));
+    } catch (err) {
+      alert(`Could not run the preview: ${(err as Error).message}`);
+    } finally {
+      setIsSimulating(false);
+    }
+  };
+
+  const updateRules = async () => {
+    try {
+      applyRuleVersion(await api.saveRuleVersion({ rules: tempRules, programId: formData.programId || undefined }));
+      setShowSuccess(true);
+      setTimeout(() => setShowSuccess(false), 3000);
+    } catch (err) {
+      alert(`Could not save rules: ${(err as Error).message}`);
+    }
+  };
+
+  const applyFormSchema = (saved: FormSchemaVersion) => {
+    setFormSchema(saved.schema);
+    setFormVersion(saved.version);
+    const { errors: newErrors, warnings: newWarnings } = validateAdmission(formData, rules, {
+      duplicates,
+      schema: saved.schema,
+      skipFields,
+    });
     setErrors(newErrors);
     setWarnings(newWarnings);
-    setShowSuccess(true);
-    setTimeout(() => setShowSuccess(false), 3000);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!isFormValid()) return;
-
-    const currentExceptionCount = Object.keys(warnings).length;
-    let riskLevel: 'Low' | 'Medium' | 'High' = 'Low';
-
-    if (currentExceptionCount === 0) {
-      riskLevel = 'Low';
-    } else if (currentExceptionCount <= rules.highRiskThreshold) {
-      riskLevel = 'Medium';
-    } else {
-      riskLevel = 'High';
+    if (!isFormValid() || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      if (amendment) {
+        const { auditEntry } = await api.amendCandidate(amendment.candidate.id, {
+          candidate: formData,
+          exceptions: exceptionRequests,
+          reason: amendment.reason,
+        });
+        setAuditLog(prev => [auditEntry, ...prev]);
+        handleReset();
+        openCandidate(amendment.candidate.id);
+        alert(auditEntry.reviewStatus === 'Pending'
+          ? 'Amendment saved. The re-scored record is queued for second-level review.'
+          : 'Amendment saved and the record re-scored.');
+        return;
+      }
+      // The server re-runs the same rule engine and assigns the risk level.
+      const { auditEntry } = await api.submitCandidate({
+        candidate: formData,
+        exceptions: exceptionRequests,
+        draftId: draftId ?? undefined,
+      });
+      setAuditLog(prev => [auditEntry, ...prev]);
+      handleReset();
+      alert(auditEntry.reviewStatus === 'Pending'
+        ? 'Admission record submitted and queued for second-level review.'
+        : 'Admission record submitted and logged successfully.');
+    } catch (err) {
+      alert(`Submission failed: ${(err as Error).message}`);
+    } finally {
+      setIsSubmitting(false);
     }
-
-    const newEntry: AuditLogEntry = {
-      id: crypto.randomUUID(),
-      fullName: formData.fullName,
-      email: formData.email,
-      interviewStatus: formData.interviewStatus,
-      exceptionCount: currentExceptionCount,
-      riskLevel,
-      timestamp: new Date().toLocaleString(),
-    };
-
-    setAuditLog(prev => [newEntry, ...prev]);
-    handleReset();
-    alert('Admission record submitted and logged successfully.');
   };
 
-  const clearLog = () => {
-    if (confirm('Are you sure you want to clear the entire audit log?')) {
-      setAuditLog([]);
+  // Settled entries leave the active log; the server keeps them and chains the archive itself.
+  const archiveLog = async () => {
+    const reason = prompt('Reason for archiving the audit log (recorded in the audit trail):');
+    if (!reason?.trim()) return;
+    try {
+      const archive = await api.archiveAuditLog({ reason });
+      setAuditLog(await api.listAuditLog());
+      alert(`Archived ${archive.entryCount} entries. Entries awaiting review stay in the log.`);
+    } catch (err) {
+      alert(`Could not archive the audit log: ${(err as Error).message}`);
     }
   };
 
-  const exceptionCount = Object.keys(warnings).length;
-  const isHighRisk = exceptionCount >= rules.highRiskThreshold;
+  const validation = validateAdmission(formData, rules, { duplicates, schema: formSchema, skipFields });
+  const softViolations = validation.violations.filter(v => v.severity === 'soft');
+  const risk = assessRisk(validation, rules);
+  const exceptionRequests: ExceptionRequest[] = softViolations.map(v => ({
+    ruleId: v.ruleId,
+    justification: justifications[v.ruleId] ?? '',
+  }));
+  const approvalErrors = validateExceptionRequests(softViolations, exceptionRequests);
+  // Reviewers approve the exceptions they submit; anyone else's wait for a reviewer.
+  const canApproveExceptions = can(user, 'reviewCandidates');
+
+  const selectedProgram = programs.find(program => program.id === formData.programId);
+  // An amended record already holds its seat unless it moves to another program.
+  const seatStatus = amendment ? amendment.candidate.status : initialStatus(formData);
+  const needsSeat = !!selectedProgram && amendment?.candidate.programId !== selectedProgram.id
+    && holdsSeat({ status: seatStatus, interviewStatus: formData.interviewStatus });
+  const programError = errors.programId || (needsSeat && seatsLeft(selectedProgram!) === 0 ? NO_SEATS_MESSAGE : undefined);
+
+  const needsReview = requiresReview(risk.riskLevel, rules, !canApproveExceptions && softViolations.length > 0);
+  const pendingReviewCount = auditLog.filter(entry => entry.reviewStatus === 'Pending').length;
+  const interviewStatusIcon =
+    formData.interviewStatus === 'Cleared' ? <CheckCircle2 size={16} className="text-emerald-500" />
+    : formData.interviewStatus === 'Rejected' ? <XCircle size={16} className="text-red-500" />
+    : formData.interviewStatus === 'Waitlisted' ? <Clock size={16} className="text-amber-500" />
+    : undefined;
+
+  // Required fields and the Rejected status are strict rules in the engine.
+  const isFormValid = () =>
+    !hasStrictErrors(validation) && Object.keys(approvalErrors).length === 0 && !programError;
+
+  // Rows are committed in file order; the log is shown newest first.
+  const addAuditEntries = (entries: AuditLogEntry[]) => {
+    setAuditLog(prev => [...[...entries].reverse(), ...prev]);
+  };
 
-  const isFormValid = () => {
-    const { errors: currentErrors } = validate(formData, rules);
-    const hasStrictErrors = Object.values(currentErrors).some(error => !!error);
-    const requiredFields: (keyof FormState)[] = ['fullName', 'email', 'phone', 'qualification', 'aadhaarNumber'];
-    const allRequiredFilled = requiredFields.every(field => !!formData[field]);
-    
-    return !hasStrictErrors && allRequiredFilled && formData.interviewStatus !== 'Rejected';
+  const updateAuditEntry = (updated: AuditLogEntry) => {
+    setAuditLog(prev => prev.map(entry => (entry.id === updated.id ? updated : entry)));
   };
 
   return (
@@ -317,426 +490,442 @@ export default function App() {
         animate={{ opacity: 1, y: 0 }}
         className="max-w-3xl mx-auto"
       >
-        <div className="bg-white shadow-xl rounded-2xl overflow-hidden border border-slate-200">
-          {/* Rejected Banner */}
-          {formData.interviewStatus === 'Rejected' && (
-            <motion.div 
-              initial={{ height: 0, opacity: 0 }}
-              animate={{ height: 'auto', opacity: 1 }}
-              className="bg-red-600 text-white px-8 py-3 text-sm font-bold flex items-center gap-2"
-            >
-              <XCircle size={18} />
-              Rejected candidates cannot be enrolled.
-            </motion.div>
-          )}
-
-          {/* High Risk Banner */}
-          {isHighRisk && (
-            <motion.div 
-              initial={{ height: 0, opacity: 0 }}
-              animate={{ height: 'auto', opacity: 1 }}
-              className="bg-amber-400 text-amber-950 px-8 py-3 text-sm font-bold flex items-center gap-2 border-b border-amber-500/20"
-            >
-              <Clock size={18} />
-              High Risk Application - Multiple Soft Rule Violations
-            </motion.div>
-          )}
-
-          {/* Admin Rule Config Section */}
-          <div className="bg-slate-50 px-8 py-6 border-b border-slate-200">
-            <div className="flex justify-between items-center mb-4">
-              <h2 className="text-[10px] uppercase tracking-widest font-bold text-slate-500">Admin Rule Configuration (Demo)</h2>
-              {showSuccess && (
-                <motion.span 
-                  initial={{ opacity: 0, x: 10 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  className="text-[10px] font-bold text-emerald-600 flex items-center gap-1"
-                >
-                  <CheckCircle2 size={12} />
-                  Rules updated successfully.
-                </motion.span>
-              )}
-            </div>
-            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-4 mb-4">
-              {(Object.keys(INITIAL_RULES) as Array<keyof typeof INITIAL_RULES>).map((key) => (
-                <div key={key} className="space-y-1">
-                  <p className="text-[9px] text-slate-400 font-semibold truncate uppercase">{key.replace(/([A-Z])/g, ' $1')}</p>
-                  <input
-                    type="number"
-                    step="0.1"
-                    value={tempRules[key]}
-                    onChange={(e) => handleRuleChange(key, e.target.value)}
-                    className="w-full text-xs font-mono font-bold text-slate-700 bg-white border border-slate-200 rounded px-2 py-1.5 focus:ring-2 focus:ring-slate-900 focus:border-transparent outline-none transition-all"
-                  />
-                </div>
-              ))}
-            </div>
+        {/* Signed-in User */}
+        <div className="flex justify-end items-center gap-3 mb-3 text-xs text-slate-500">
+          <span>
+            Signed in as <span className="font-semibold text-slate-900">{user.displayName}</span>
+            <span className="ml-2 px-1.5 py-0.5 rounded bg-slate-200 text-[10px] font-bold uppercase text-slate-600">{user.role}</span>
+          </span>
+          <button
+            type="button"
+            onClick={onSignOut}
+            className="text-[10px] uppercase tracking-wider font-bold text-slate-500 hover:text-slate-900 transition-colors flex items-center gap-1"
+          >
+            <LogOut size={12} />
+            Sign Out
+          </button>
+        </div>
+
+        {/* View Switcher */}
+        <nav className="flex flex-wrap gap-2 mb-6">
+          {([
+            { id: 'form', label: 'Admission Form', visible: canEnterCandidates },
+            { id: 'drafts', label: 'Drafts', visible: canEnterCandidates },
+            { id: 'import', label: 'Bulk Import', visible: canEnterCandidates },
+            { id: 'candidates', label: 'Candidates', visible: true },
+            { id: 'reviews', label: 'Review Queue', visible: can(user, 'reviewCandidates') },
+            { id: 'programs', label: 'Programs', visible: true },
+            { id: 'analytics', label: 'Analytics', visible: true },
+            { id: 'users', label: 'Users', visible: can(user, 'manageUsers') },
+          ] as const).filter(tab => tab.visible).map(tab => (
             <button
+              key={tab.id}
               type="button"
-              onClick={updateRules}
-              className="px-4 py-2 bg-slate-900 text-white text-[10px] font-bold uppercase tracking-wider rounded-lg hover:bg-slate-800 transition-all shadow-sm"
+              onClick={() => setView(tab.id)}
+              className={`px-4 py-2 text-xs font-bold rounded-lg border transition-all flex items-center gap-2 ${
+                view === tab.id ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100'
+              }`}
             >
-              Update Rules
+              {tab.label}
+              {tab.id === 'reviews' && pendingReviewCount > 0 && (
+                <span className="px-1.5 py-0.5 rounded-full bg-amber-400 text-amber-950 text-[10px]">{pendingReviewCount}</span>
+              )}
             </button>
+          ))}
+        </nav>
+
+        {view === 'drafts' ? (
+          <DraftList currentDraftId={draftId} onOpen={openDraft} onDiscarded={forgetDraft} />
+        ) : view === 'programs' ? (
+          <ProgramList
+            programs={programs}
+            canManage={can(user, 'manageRules')}
+            onSaved={(saved) => setPrograms(prev => (prev.some(p => p.id === saved.id)
+              ? prev.map(p => (p.id === saved.id ? saved : p))
+              : [...prev, saved]))}
+          />
+        ) : view === 'analytics' ? (
+          <AnalyticsDashboard />
+        ) : view === 'users' ? (
+          <div className="space-y-8">
+            <UserAdmin currentUserId={user.id} />
+            <ApiKeyAdmin />
           </div>
-
-          {/* Header */}
-          <div className="bg-slate-900 px-8 py-6">
-            <h1 className="text-2xl font-bold text-white">Admission Form</h1>
-            <p className="text-slate-400 text-sm mt-1">Internal Candidate Screening & Enrollment</p>
+        ) : view === 'reviews' ? (
+          <div className="space-y-8">
+            <ReviewQueue entries={auditLog} onEntryUpdated={updateAuditEntry} />
+            <AuditLog
+              entries={auditLog}
+              isLoading={isLoading}
+              loadError={loadError}
+              onArchive={can(user, 'archiveAuditLog') ? archiveLog : undefined}
+              canRevealAadhaar={can(user, 'revealAadhaar')}
+              onOpenCandidate={openCandidate}
+            />
           </div>
+        ) : view === 'import' ? (
+          <BulkImport
+            schema={formSchema}
+            programs={programs}
+            canApproveExceptions={can(user, 'reviewCandidates')}
+            onImported={addAuditEntries}
+          />
+        ) : view === 'candidates' ? (
+          <div className="space-y-8">
+            <CandidateList
+              auditLog={auditLog}
+              schema={formSchema}
+              programs={programs}
+              initialSelectedId={selectedCandidateId}
+              onAmend={openAmendment}
+              canAmend={canEnterCandidates && can(user, 'revealAadhaar')}
+              canRevealAadhaar={can(user, 'revealAadhaar')}
+              canReview={can(user, 'reviewCandidates')}
+            />
+            <DuplicateReport onSelect={setSelectedCandidateId} />
+          </div>
+        ) : (
+          <>
+            <div className="bg-white shadow-xl rounded-2xl overflow-hidden border border-slate-200">
+              {/* Rejected Banner */}
+              {formData.interviewStatus === 'Rejected' && !amendment && (
+                <motion.div 
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: 'auto', opacity: 1 }}
+                  className="bg-red-600 text-white px-8 py-3 text-sm font-bold flex items-center gap-2"
+                >
+                  <XCircle size={18} />
+                  Rejected candidates cannot be enrolled.
+                </motion.div>
+              )}
 
-          <form className="p-8 space-y-6" onSubmit={handleSubmit}>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              
-              {/* Full Name */}
-              <div className="space-y-1">
-                <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                  <User size={16} className="text-slate-400" />
-                  Full Name
-                </label>
-                <input
-                  type="text"
-                  name="fullName"
-                  value={formData.fullName}
-                  onChange={handleChange}
-                  placeholder="John Doe"
-                  className={`w-full px-4 py-2.5 bg-slate-50 border rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none ${
-                    errors.fullName ? 'border-red-500' : 'border-slate-200'
-                  }`}
-                />
-                <div className="h-5 text-xs text-red-500 mt-1 font-medium">{errors.fullName}</div>
-              </div>
-
-              {/* Email */}
-              <div className="space-y-1">
-                <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                  <Mail size={16} className="text-slate-400" />
-                  Email Address
-                </label>
-                <input
-                  type="email"
-                  name="email"
-                  value={formData.email}
-                  onChange={handleChange}
-                  placeholder="john@business.com"
-                  className={`w-full px-4 py-2.5 bg-slate-50 border rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none ${
-                    errors.email ? 'border-red-500' : 'border-slate-200'
-                  }`}
-                />
-                <div className="h-5 text-xs text-red-500 mt-1 font-medium">{errors.email}</div>
-              </div>
-
-              {/* Phone */}
-              <div className="space-y-1">
-                <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                  <Phone size={16} className="text-slate-400" />
-                  Phone Number
-                </label>
-                <input
-                  type="text"
-                  name="phone"
-                  value={formData.phone}
-                  onChange={handleChange}
-                  placeholder="9876543210"
-                  className={`w-full px-4 py-2.5 bg-slate-50 border rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none ${
-                    errors.phone ? 'border-red-500' : 'border-slate-200'
-                  }`}
-                />
-                <div className="h-5 text-xs text-red-500 mt-1 font-medium">{errors.phone}</div>
-              </div>
-
-              {/* Date of Birth */}
-              <div className="space-y-1">
-                <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                  <Calendar size={16} className="text-slate-400" />
-                  Date of Birth
-                </label>
-                <input
-                  type="date"
-                  name="dob"
-                  value={formData.dob}
-                  onChange={handleChange}
-                  className={`w-full px-4 py-2.5 bg-slate-50 border rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none ${
-                    warnings.dob ? 'border-amber-500' : 'border-slate-200'
-                  }`}
-                />
-                <div className="h-5 text-xs text-amber-600 mt-1 font-medium">{warnings.dob}</div>
-              </div>
-
-              {/* Qualification */}
-              <div className="space-y-1">
-                <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                  <GraduationCap size={16} className="text-slate-400" />
-                  Highest Qualification
-                </label>
-                <select
-                  name="qualification"
-                  value={formData.qualification}
-                  onChange={handleChange}
-                  className={`w-full px-4 py-2.5 bg-slate-50 border rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none appearance-none ${
-                    errors.qualification ? 'border-red-500' : 'border-slate-200'
-                  }`}
+              {/* High Risk Banner */}
+              {risk.riskLevel === 'High' && (
+                <motion.div 
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: 'auto', opacity: 1 }}
+                  className="bg-amber-400 text-amber-950 px-8 py-3 text-sm font-bold flex items-center gap-2 border-b border-amber-500/20"
                 >
-                  <option value="">Select Qualification</option>
-                  <option value="B.Tech">B.Tech</option>
-                  <option value="B.E.">B.E.</option>
-                  <option value="B.Sc">B.Sc</option>
-                  <option value="BCA">BCA</option>
-                  <option value="M.Tech">M.Tech</option>
-                  <option value="M.Sc">M.Sc</option>
-                  <option value="MCA">MCA</option>
-                  <option value="MBA">MBA</option>
-                </select>
-                <div className="h-5 text-xs text-red-500 mt-1 font-medium">{errors.qualification}</div>
-              </div>
+                  <Clock size={18} />
+                  High Risk Application - Risk Score {risk.riskScore}
+                </motion.div>
+              )}
 
-              {/* Graduation Year */}
-              <div className="space-y-1">
-                <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                  <Calendar size={16} className="text-slate-400" />
-                  Graduation Year
-                </label>
-                <input
-                  type="number"
-                  name="graduationYear"
-                  value={formData.graduationYear}
-                  onChange={handleChange}
-                  placeholder="2023"
-                  className={`w-full px-4 py-2.5 bg-slate-50 border rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none ${
-                    warnings.graduationYear ? 'border-amber-500' : 'border-slate-200'
-                  }`}
+              {/* Admin Rule Config Section */}
+              {can(user, 'manageRules') && (
+              <div className="bg-slate-50 px-8 py-6 border-b border-slate-200">
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-[10px] uppercase tracking-widest font-bold text-slate-500">
+                    Admin Rule Configuration · {selectedProgram ? programLabel(selectedProgram) : 'Default Rules'}
+                  </h2>
+                  {showSuccess && (
+                    <motion.span 
+                      initial={{ opacity: 0, x: 10 }}
+                      animate={{ opacity: 1, x: 0 }}
+                      className="text-[10px] font-bold text-emerald-600 flex items-center gap-1"
+                    >
+                      <CheckCircle2 size={12} />
+                      Rules saved as v{ruleVersion}.
+                    </motion.span>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4 mb-4">
+                  {(Object.keys(INITIAL_RULES) as Array<keyof RuleConfig>).filter(key => key !== 'qualificationOverrides').map((key) => (
+                    <div key={key} className="space-y-1">
+                      <p className="text-[9px] text-slate-400 font-semibold truncate uppercase">{key.replace(/([A-Z])/g, ' $1')}</p>
+                      {typeof tempRules[key] === 'boolean' ? (
+                        <button
+                          type="button"
+                          onClick={() => handleRuleChange(key, !tempRules[key])}
+                          className={`w-full text-xs font-mono font-bold rounded px-2 py-1.5 border transition-all ${
+                            tempRules[key] ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-700 border-slate-200'
+                          }`}
+                        >
+                          {tempRules[key] ? 'Yes' : 'No'}
+                        </button>
+                      ) : (
+                        <input
+                          type="number"
+                          step="0.1"
+                          value={tempRules[key] as number}
+                          onChange={(e) => handleRuleChange(key, e.target.value)}
+                          className="w-full text-xs font-mono font-bold text-slate-700 bg-white border border-slate-200 rounded px-2 py-1.5 focus:ring-2 focus:ring-slate-900 focus:border-transparent outline-none transition-all"
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <QualificationOverrides
+                  rules={tempRules}
+                  onChange={(overrides) => {
+                    setTempRules(prev => ({ ...prev, qualificationOverrides: overrides }));
+                    setSimulation(null);
+                  }}
                 />
-                <div className="h-5 text-xs text-amber-600 mt-1 font-medium">{warnings.graduationYear}</div>
-              </div>
-
-              {/* Percentage/CGPA */}
-              <div className="space-y-1">
-                <div className="flex justify-between items-center">
-                  <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                    <Award size={16} className="text-slate-400" />
-                    {formData.scoreMode}
-                  </label>
-                  <button 
+                <div className="flex flex-wrap items-center gap-3">
+                  <button
                     type="button"
-                    onClick={toggleScoreMode}
+                    onClick={updateRules}
+                    className="px-4 py-2 bg-slate-900 text-white text-[10px] font-bold uppercase tracking-wider rounded-lg hover:bg-slate-800 transition-all shadow-sm"
+                  >
+                    Update Rules
+                  </button>
+                  <button
+                    type="button"
+                    onClick={previewRules}
+                    disabled={isSimulating}
+                    className="px-4 py-2 bg-white text-slate-700 text-[10px] font-bold uppercase tracking-wider rounded-lg border border-slate-200 hover:bg-slate-100 disabled:opacity-50 transition-all"
+                  >
+                    {isSimulating ? 'Simulating...' : 'Preview Impact'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowRuleHistory(prev => !prev)}
                     className="text-[10px] uppercase tracking-wider font-bold text-slate-500 hover:text-slate-900 transition-colors"
                   >
-                    Switch to {formData.scoreMode === 'Percentage' ? 'CGPA' : 'Percentage'}
+                    {showRuleHistory ? 'Hide History' : 'View History'}
                   </button>
+                  {ruleVersion !== null && (
+                    <span className="ml-auto text-[10px] font-mono font-bold text-slate-400">Active: v{ruleVersion}</span>
+                  )}
                 </div>
-                <input
-                  type="number"
-                  step="0.01"
-                  name="score"
-                  value={formData.score}
-                  onChange={handleChange}
-                  placeholder={formData.scoreMode === 'Percentage' ? 'e.g. 85.5' : 'e.g. 8.5'}
-                  className={`w-full px-4 py-2.5 bg-slate-50 border rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none ${
-                    warnings.score ? 'border-amber-500' : 'border-slate-200'
-                  }`}
-                />
-                <div className="h-5 text-xs text-amber-600 mt-1 font-medium">{warnings.score}</div>
-              </div>
-
-              {/* Screening Test Score */}
-              <div className="space-y-1">
-                <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                  <FileText size={16} className="text-slate-400" />
-                  Screening Test Score (0-100)
-                </label>
-                <input
-                  type="number"
-                  name="screeningScore"
-                  value={formData.screeningScore}
-                  onChange={handleChange}
-                  placeholder="80"
-                  className={`w-full px-4 py-2.5 bg-slate-50 border rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none ${
-                    warnings.screeningScore ? 'border-amber-500' : 'border-slate-200'
-                  }`}
-                />
-                <div className="h-5 text-xs text-amber-600 mt-1 font-medium">{warnings.screeningScore}</div>
-              </div>
-
-              {/* Aadhaar Number */}
-              <div className="space-y-1">
-                <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                  <Fingerprint size={16} className="text-slate-400" />
-                  Aadhaar Number
-                </label>
-                <input
-                  type="text"
-                  name="aadhaarNumber"
-                  value={formData.aadhaarNumber}
-                  onChange={handleChange}
-                  placeholder="0000 0000 0000"
-                  className={`w-full px-4 py-2.5 bg-slate-50 border rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none ${
-                    errors.aadhaarNumber ? 'border-red-500' : 'border-slate-200'
-                  }`}
-                />
-                <div className="h-5 text-xs text-red-500 mt-1 font-medium">{errors.aadhaarNumber}</div>
+                {simulation && <RuleSimulation result={simulation} />}
+                {showRuleHistory && <RuleHistory currentVersion={ruleVersion} programId={formData.programId || undefined} />}
+                <FormSchemaEditor schema={formSchema} version={formVersion} onSaved={applyFormSchema} />
+                <OfferLetterTemplates />
               </div>
+              )}
 
-              {/* Interview Status */}
-              <div className="space-y-1">
-                <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
-                  {formData.interviewStatus === 'Cleared' && <CheckCircle2 size={16} className="text-emerald-500" />}
-                  {formData.interviewStatus === 'Rejected' && <XCircle size={16} className="text-red-500" />}
-                  {formData.interviewStatus === 'Waitlisted' && <Clock size={16} className="text-amber-500" />}
-                  {!formData.interviewStatus && <Clock size={16} className="text-slate-400" />}
-                  Interview Status
-                </label>
-                <select
-                  name="interviewStatus"
-                  value={formData.interviewStatus}
-                  onChange={handleChange}
-                  className={`w-full px-4 py-2.5 bg-slate-50 border rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none appearance-none ${
-                    formData.interviewStatus === 'Rejected' ? 'border-red-500 text-red-600' : 'border-slate-200'
-                  }`}
-                >
-                  <option value="">Select Status</option>
-                  <option value="Cleared">Cleared</option>
-                  <option value="Waitlisted">Waitlisted</option>
-                  <option value="Rejected">Rejected</option>
-                </select>
-                <div className="h-5 text-xs text-red-500 mt-1 font-medium">{errors.interviewStatus}</div>
+              {/* Header */}
+              <div className="bg-slate-900 px-8 py-6">
+                <h1 className="text-2xl font-bold text-white">{amendment ? 'Amend Record' : 'Admission Form'}</h1>
+                <p className="text-slate-400 text-sm mt-1">
+                  {amendment
+                    ? `Amending ${amendment.candidate.fullName}: "${amendment.reason}"`
+                    : 'Internal Candidate Screening & Enrollment'}
+                </p>
+                {draftSavedAt && (
+                  <p className="text-[10px] uppercase tracking-wider font-bold text-slate-500 mt-2">
+                    Draft saved {formatTimestamp(draftSavedAt)}
+                  </p>
+                )}
               </div>
 
-            </div>
-
-            {/* Offer Letter Toggle */}
-            <div className={`flex flex-col p-4 bg-slate-50 rounded-xl border transition-colors ${
-              errors.offerLetterSent ? 'border-red-500 bg-red-50' : 'border-slate-200'
-            }`}>
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <div className={`p-2 rounded-lg ${formData.offerLetterSent ? 'bg-emerald-100 text-emerald-600' : 'bg-slate-200 text-slate-500'}`}>
-                    <Send size={20} />
+              <form className="p-8 space-y-6" onSubmit={handleSubmit}>
+                {duplicates.length > 0 && (
+                  <div className="bg-amber-50 border border-amber-200 rounded-lg px-4 py-3 space-y-1">
+                    <p className="text-xs font-bold text-amber-800 uppercase tracking-wider">Possible duplicate</p>
+                    {duplicates.map(match => (
+                      <p key={match.candidateId} className="text-sm text-amber-700">
+                        {match.fullName} ({match.reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join(', ')})
+                        <button
+                          type="button"
+                          onClick={() => openCandidate(match.candidateId)}
+                          className="ml-2 text-xs font-bold underline hover:text-amber-900"
+                        >
+                          View record
+                        </button>
+                      </p>
+                    ))}
                   </div>
-                  <div>
-                    <h3 className="text-sm font-semibold text-slate-900">Offer Letter Sent</h3>
-                    <p className="text-xs text-slate-500">Has the official offer been dispatched?</p>
+                )}
+                {/* Program; its rule set scores the application */}
+                {(programs.length > 0 || formData.programId) && (
+                  <div className="space-y-1">
+                    <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                      <Layers size={16} className="text-slate-400" />
+                      Program
+                    </label>
+                    <select
+                      value={formData.programId}
+                      onChange={handleProgramChange}
+                      className={`w-full px-4 py-2.5 bg-slate-50 border rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none appearance-none ${
+                        programError ? 'border-red-500' : 'border-slate-200'
+                      }`}
+                    >
+                      <option value="">No program (default rules)</option>
+                      {programs.map(program => (
+                        <option key={program.id} value={program.id}>
+                          {programLabel(program)} · {seatsLeft(program)} of {program.seats} seats left
+                        </option>
+                      ))}
+                    </select>
+                    <div className="h-5 text-xs text-red-500 mt-1 font-medium">{programError}</div>
                   </div>
-                </div>
-                <button
-                  type="button"
-                  onClick={toggleOfferLetter}
-                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-slate-900 focus:ring-offset-2 ${
-                    formData.offerLetterSent ? 'bg-slate-900' : 'bg-slate-300'
-                  }`}
-                >
-                  <span
-                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-                      formData.offerLetterSent ? 'translate-x-6' : 'translate-x-1'
-                    }`}
-                  />
-                </button>
-              </div>
-              {errors.offerLetterSent && (
-                <div className="text-xs text-red-600 font-bold mt-2 flex items-center gap-1">
-                  <XCircle size={12} />
-                  {errors.offerLetterSent}
-                </div>
-              )}
-            </div>
+                )}
 
-            {/* Action Buttons */}
-            <div className="pt-4 space-y-3">
-              <div className="flex items-center justify-between mb-2">
-                <div className="flex items-center gap-2">
-                  <span className={`px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider ${
-                    exceptionCount > 0 ? 'bg-amber-100 text-amber-700 border border-amber-200' : 'bg-slate-100 text-slate-500 border border-slate-200'
-                  }`}>
-                    Exceptions: {exceptionCount}
-                  </span>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              
+                  {formSchema.fields.map(field => {
+                    if (field.type !== 'score') {
+                      return (
+                        <React.Fragment key={field.key}>
+                          <FormField
+                            field={field}
+                            value={getFieldValue(formData, field)}
+                            error={errors[fieldKey(field)]}
+                            warning={warnings[fieldKey(field)]}
+                            onChange={(value) => handleFieldChange(field, value)}
+                            icon={field.key === 'interviewStatus' ? interviewStatusIcon : undefined}
+                            disabled={!!amendment && STATUS_MANAGED_FIELDS.includes(field.key as keyof FormState)}
+                          />
+                        </React.Fragment>
+                      );
+                    }
+                    const ScoreIcon = FIELD_ICONS[field.icon];
+                    return (
+                      <div key={field.key} className="space-y-1">
+                        <div className="flex justify-between items-center">
+                          <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+                            <ScoreIcon size={16} className="text-slate-400" />
+                            {field.label}
+                            <span className="text-xs font-normal text-slate-400">{formData.scoreMode}</span>
+                            {formData.scoreMode === 'CGPA' && (
+                              <select
+                                value={formData.cgpaScale}
+                                onChange={changeCgpaScale}
+                                className="text-xs font-normal bg-slate-50 border border-slate-200 rounded px-1 py-0.5 outline-none"
+                              >
+                                {CGPA_SCALES.map(scale => <option key={scale} value={scale}>out of {scale}</option>)}
+                              </select>
+                            )}
+                          </label>
+                          <button 
+                            type="button"
+                            onClick={toggleScoreMode}
+                            className="text-[10px] uppercase tracking-wider font-bold text-slate-500 hover:text-slate-900 transition-colors"
+                          >
+                            Switch to {formData.scoreMode === 'Percentage' ? 'CGPA' : 'Percentage'}
+                          </button>
+                        </div>
+                        <input
+                          type="number"
+                          step="0.01"
+                          name="score"
+                          value={formData.score}
+                          onChange={handleChange}
+                          placeholder={formData.scoreMode === 'Percentage' ? 'e.g. 85.5' : `e.g. ${(formData.cgpaScale * 0.85).toFixed(1)}`}
+                          className={`w-full px-4 py-2.5 bg-slate-50 border rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none ${
+                            errors.score ? 'border-red-500' : warnings.score ? 'border-amber-500' : 'border-slate-200'
+                          }`}
+                        />
+                        {errors.score ? (
+                          <div className="h-5 text-xs text-red-500 mt-1 font-medium">{errors.score}</div>
+                        ) : warnings.score ? (
+                          <div className="h-5 text-xs text-amber-600 mt-1 font-medium">{warnings.score}</div>
+                        ) : (
+                          <div className="h-5 text-xs text-slate-400 mt-1 font-medium">
+                            {formData.scoreMode === 'CGPA' && normalizePercentage(formData, rules) !== null
+                              && `≈ ${normalizePercentage(formData, rules)}% on the percentage scale`}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
-              </div>
 
-              <button
-                type="submit"
-                disabled={!isFormValid()}
-                className="w-full py-4 bg-slate-900 text-white font-bold rounded-xl shadow-lg shadow-slate-200 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-slate-800 transition-all flex items-center justify-center gap-2"
-              >
-                Submit Admission Record
-              </button>
+                {/* Offer Letter: shown, read-only, for stored records; sending the letter sets it. */}
+                {amendment && (
+                  <div className="flex items-center justify-between p-4 bg-slate-50 rounded-xl border border-slate-200">
+                    <div className="flex items-center gap-3">
+                      <div className={`p-2 rounded-lg ${formData.offerLetterSent ? 'bg-emerald-100 text-emerald-600' : 'bg-slate-200 text-slate-500'}`}>
+                        <Send size={20} />
+                      </div>
+                      <div>
+                        <h3 className="text-sm font-semibold text-slate-900">Offer Letter Sent</h3>
+                        <p className="text-xs text-slate-500">Has the official offer been dispatched?</p>
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      disabled
+                      title="Set when a reviewer sends the offer letter from the candidate record"
+                      className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 ${
+                        formData.offerLetterSent ? 'bg-slate-900' : 'bg-slate-300'
+                      }`}
+                    >
+                      <span
+                        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                          formData.offerLetterSent ? 'translate-x-6' : 'translate-x-1'
+                        }`}
+                      />
+                    </button>
+                  </div>
+                )}
+
+                {/* Exception Approvals */}
+                <ExceptionApprovals
+                  violations={softViolations}
+                  justifications={justifications}
+                  canApprove={canApproveExceptions}
+                  errors={approvalErrors}
+                  onJustificationChange={(ruleId, value) => setJustifications(prev => ({ ...prev, [ruleId]: value }))}
+                />
+
+                {/* Action Buttons */}
+                <div className="pt-4 space-y-3">
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider ${
+                        risk.exceptionCount > 0 ? 'bg-amber-100 text-amber-700 border border-amber-200' : 'bg-slate-100 text-slate-500 border border-slate-200'
+                      }`}>
+                        Exceptions: {risk.exceptionCount}
+                      </span>
+                      <span className={riskBadgeClassName(risk.riskLevel)}>
+                        {risk.riskLevel} · {risk.riskScore}
+                      </span>
+                      {needsReview && (
+                        <span className="px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider bg-amber-50 text-amber-700 border border-amber-200">
+                          Requires Review
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  {risk.riskBreakdown.length > 0 && (
+                    <div className="px-4 py-3 bg-slate-50 rounded-xl border border-slate-200">
+                      <RiskBreakdown
+                        contributions={risk.riskBreakdown}
+                        riskScore={risk.riskScore}
+                        labels={Object.fromEntries(softViolations.map(v => [v.ruleId, v.message]))}
+                      />
+                    </div>
+                  )}
+
+                  <button
+                    type="submit"
+                    disabled={!isFormValid() || isSubmitting}
+                    className="w-full py-4 bg-slate-900 text-white font-bold rounded-xl shadow-lg shadow-slate-200 disabled:opacity-50 disabled:cursor-not-allowed hover:bg-slate-800 transition-all flex items-center justify-center gap-2"
+                  >
+                    {isSubmitting ? 'Submitting...' : amendment ? 'Save Amendment' : 'Submit Admission Record'}
+                  </button>
               
-              <button
-                type="button"
-                onClick={handleReset}
-                className="w-full py-3 bg-white text-slate-600 font-semibold rounded-xl border border-slate-200 hover:bg-slate-50 hover:text-slate-900 transition-all flex items-center justify-center gap-2"
-              >
-                <RotateCcw size={16} />
-                Reset Form
-              </button>
-
-              <p className="text-center text-[10px] text-slate-400 mt-4 uppercase tracking-widest font-bold">
-                Internal Use Only • Secure Data Entry
-              </p>
+                  <button
+                    type="button"
+                    onClick={handleReset}
+                    className="w-full py-3 bg-white text-slate-600 font-semibold rounded-xl border border-slate-200 hover:bg-slate-50 hover:text-slate-900 transition-all flex items-center justify-center gap-2"
+                  >
+                    <RotateCcw size={16} />
+                    {amendment ? 'Cancel Amendment' : 'Reset Form'}
+                  </button>
+
+                  <p className="text-center text-[10px] text-slate-400 mt-4 uppercase tracking-widest font-bold">
+                    Internal Use Only • Secure Data Entry
+                  </p>
+                </div>
+              </form>
             </div>
-          </form>
-        </div>
 
-        {/* Audit Log Section */}
-        <div className="mt-12 bg-white shadow-xl rounded-2xl overflow-hidden border border-slate-200">
-          <div className="bg-slate-100 px-8 py-4 border-b border-slate-200 flex justify-between items-center">
-            <h2 className="text-sm font-bold text-slate-700 flex items-center gap-2">
-              <FileText size={18} className="text-slate-400" />
-              Audit Log (Recent Submissions)
-            </h2>
-            {auditLog.length > 0 && (
-              <button 
-                onClick={clearLog}
-                className="text-[10px] font-bold text-red-600 hover:text-red-700 uppercase tracking-wider"
-              >
-                Clear Log
-              </button>
-            )}
-          </div>
-          
-          <div className="overflow-x-auto">
-            {auditLog.length === 0 ? (
-              <div className="p-12 text-center">
-                <p className="text-slate-400 text-sm italic">No submission records found.</p>
-              </div>
-            ) : (
-              <table className="w-full text-left border-collapse">
-                <thead>
-                  <tr className="bg-slate-50 border-b border-slate-200">
-                    <th className="px-8 py-3 text-[10px] font-bold text-slate-500 uppercase tracking-wider">Candidate</th>
-                    <th className="px-4 py-3 text-[10px] font-bold text-slate-500 uppercase tracking-wider">Risk Level</th>
-                    <th className="px-4 py-3 text-[10px] font-bold text-slate-500 uppercase tracking-wider">Exceptions</th>
-                    <th className="px-8 py-3 text-[10px] font-bold text-slate-500 uppercase tracking-wider text-right">Timestamp</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {auditLog.map((entry) => (
-                    <tr key={entry.id} className="border-b border-slate-100 hover:bg-slate-50 transition-colors">
-                      <td className="px-8 py-4">
-                        <div className="font-semibold text-slate-900 text-sm">{entry.fullName}</div>
-                        <div className="text-xs text-slate-500">{entry.email}</div>
-                      </td>
-                      <td className="px-4 py-4">
-                        <span className={`px-2 py-1 rounded-full text-[10px] font-bold uppercase ${
-                          entry.riskLevel === 'Low' ? 'bg-emerald-100 text-emerald-700' :
-                          entry.riskLevel === 'Medium' ? 'bg-amber-100 text-amber-700' :
-                          'bg-red-100 text-red-700'
-                        }`}>
-                          {entry.riskLevel}
-                        </span>
-                      </td>
-                      <td className="px-4 py-4 text-sm font-medium text-slate-600">
-                        {entry.exceptionCount}
-                      </td>
-                      <td className="px-8 py-4 text-right text-xs text-slate-400 font-mono">
-                        {entry.timestamp}
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            )}
-          </div>
-        </div>
+            {/* Audit Log Section */}
+            <AuditLog
+              entries={auditLog}
+              isLoading={isLoading}
+              loadError={loadError}
+              onArchive={can(user, 'archiveAuditLog') ? archiveLog : undefined}
+              canRevealAadhaar={can(user, 'revealAadhaar')}
+              onOpenCandidate={openCandidate}
+            />
+          </>
+        )}
       </motion.div>
     </div>
   );
@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { ChartColumnStacked } from 'lucide-react';
+import { api } from '../lib/api';
+import { QUALIFICATIONS, RISK_LEVELS } from '../constants';
+import { AdmissionsAnalytics, AnalyticsFilters, AnalyticsInterval, Qualification, RiskLevel } from '../types';
+
+const RISK_BAR_CLASS_NAMES: Record<RiskLevel, string> = {
+  Low: 'bg-emerald-400',
+  Medium: 'bg-amber-400',
+  High: 'bg-red-500',
+};
+
+const inputClassName =
+  'text-xs font-semibold text-slate-700 bg-white border border-slate-200 rounded px-2 py-1.5 focus:ring-2 focus:ring-slate-900 focus:border-transparent outline-none transition-all';
+
+function percent(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function periodLabel(start: string, interval: AnalyticsInterval): string {
+  const date = new Date(`${start}T00:00:00Z`);
+  const options: Intl.DateTimeFormatOptions = interval === 'month'
+    ? { month: 'short', year: 'numeric', timeZone: 'UTC' }
+    : { day: 'numeric', month: 'short', timeZone: 'UTC' };
+  return date.toLocaleDateString(undefined, options);
+}
+
+function SectionTitle({ children }: { children: React.ReactNode }) {
+  return <h2 className="text-[10px] uppercase tracking-widest font-bold text-slate-500 mb-4">{children}</h2>;
+}
+
+/** Aggregates over every stored submission, archived or not, narrowed by date range and qualification. */
+export default function AnalyticsDashboard() {
+  const [filters, setFilters] = useState<AnalyticsFilters>({});
+  const [analytics, setAnalytics] = useState<AdmissionsAnalytics | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.getAnalytics(filters)
+      .then(result => {
+        setAnalytics(result);
+        setLoadError(null);
+      })
+      .catch((err: Error) => setLoadError(err.message));
+  }, [filters.from, filters.to, filters.qualification]);
+
+  const updateFilter = (key: keyof AnalyticsFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const maxPeriodTotal = Math.max(1, ...(analytics?.riskOverTime ?? []).map(period =>
+    RISK_LEVELS.reduce((sum, level) => sum + period.counts[level], 0)));
+  const funnelTop = Math.max(1, analytics?.funnel[0]?.count ?? 0);
+
+  return (
+    <div className="bg-white shadow-xl rounded-2xl overflow-hidden border border-slate-200">
+      <div className="bg-slate-900 px-8 py-6">
+        <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+          <ChartColumnStacked size={24} />
+          Analytics
+        </h1>
+        <p className="text-slate-400 text-sm mt-1">Risk, exceptions and conversion across stored submissions</p>
+      </div>
+
+      <div className="px-8 py-4 border-b border-slate-200 bg-slate-50/50 flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-[10px] uppercase font-bold text-slate-500">
+          From
+          <input type="date" value={filters.from ?? ''} onChange={(e) => updateFilter('from', e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex items-center gap-2 text-[10px] uppercase font-bold text-slate-500">
+          To
+          <input type="date" value={filters.to ?? ''} onChange={(e) => updateFilter('to', e.target.value)} className={inputClassName} />
+        </label>
+        <select
+          value={filters.qualification ?? ''}
+          onChange={(e) => updateFilter('qualification', e.target.value as Qualification | '')}
+          className={inputClassName}
+        >
+          <option value="">All qualifications</option>
+          {QUALIFICATIONS.map(qualification => <option key={qualification} value={qualification}>{qualification}</option>)}
+        </select>
+        {(filters.from || filters.to || filters.qualification) && (
+          <button
+            type="button"
+            onClick={() => setFilters({})}
+            className="text-[10px] uppercase tracking-wider font-bold text-slate-500 hover:text-slate-900 transition-colors"
+          >
+            Clear Filters
+          </button>
+        )}
+      </div>
+
+      {loadError ? (
+        <p className="p-12 text-center text-red-600 text-sm">Could not load analytics: {loadError}</p>
+      ) : !analytics ? (
+        <p className="p-12 text-center text-slate-400 text-sm italic">Loading analytics...</p>
+      ) : (
+        <div className="p-8 space-y-10">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Submissions', value: String(analytics.submissionCount) },
+              { label: 'Cleared', value: String(analytics.interviewOutcomes.Cleared) },
+              { label: 'Waitlisted', value: String(analytics.interviewOutcomes.Waitlisted) },
+              { label: 'Offer Letter Rate', value: percent(analytics.offerRate.rate) },
+            ].map(({ label, value }) => (
+              <div key={label} className="p-4 rounded-xl border border-slate-200 text-center">
+                <p className="text-2xl font-bold text-slate-900">{value}</p>
+                <p className="text-[10px] uppercase tracking-widest font-bold text-slate-400">{label}</p>
+              </div>
+            ))}
+          </div>
+
+          <section>
+            <SectionTitle>Risk Distribution per {analytics.interval}</SectionTitle>
+            {analytics.riskOverTime.length === 0 ? (
+              <p className="text-sm text-slate-400 italic">No submissions in this range.</p>
+            ) : (
+              <>
+                <div className="flex items-end gap-1 h-40 border-b border-slate-200">
+                  {analytics.riskOverTime.map(period => (
+                    <div
+                      key={period.start}
+                      className="flex-1 flex flex-col-reverse h-full"
+                      title={`${periodLabel(period.start, analytics.interval)}: ${RISK_LEVELS.map(l => `${period.counts[l]} ${l}`).join(', ')}`}
+                    >
+                      {RISK_LEVELS.map(level => (
+                        <div
+                          key={level}
+                          className={RISK_BAR_CLASS_NAMES[level]}
+                          style={{ height: `${(period.counts[level] / maxPeriodTotal) * 100}%` }}
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-1 mt-1">
+                  {analytics.riskOverTime.map((period, index) => (
+                    <span key={period.start} className="flex-1 text-[9px] text-slate-400 text-center truncate">
+                      {/* Label every few bars so long ranges stay readable. */}
+                      {index % Math.ceil(analytics.riskOverTime.length / 8) === 0 && periodLabel(period.start, analytics.interval)}
+                    </span>
+                  ))}
+                </div>
+                <div className="flex gap-4 mt-3">
+                  {RISK_LEVELS.map(level => (
+                    <span key={level} className="flex items-center gap-1 text-[10px] font-bold uppercase text-slate-500">
+                      <span className={`w-2.5 h-2.5 rounded-sm ${RISK_BAR_CLASS_NAMES[level]}`} />
+                      {level}
+                    </span>
+                  ))}
+                </div>
+              </>
+            )}
+          </section>
+
+          <section>
+            <SectionTitle>Exception Frequency by Soft Rule</SectionTitle>
+            {analytics.exceptionFrequency.length === 0 ? (
+              <p className="text-sm text-slate-400 italic">No exceptions were granted in this range.</p>
+            ) : (
+              <ul className="space-y-2">
+                {analytics.exceptionFrequency.map(frequency => (
+                  <li key={frequency.ruleId} className="text-xs">
+                    <div className="flex justify-between gap-4 mb-1">
+                      <span className="text-slate-700">
+                        {frequency.message} <code className="font-mono text-slate-400">{frequency.ruleId}</code>
+                      </span>
+                      <span className="font-mono font-bold text-slate-700 whitespace-nowrap">
+                        {frequency.count} · {percent(frequency.rate)}
+                      </span>
+                    </div>
+                    <div className="h-2 bg-slate-100 rounded">
+                      <div className="h-2 bg-amber-400 rounded" style={{ width: `${frequency.rate * 100}%` }} />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section>
+            <SectionTitle>Admission Funnel</SectionTitle>
+            <ul className="space-y-2">
+              {analytics.funnel.map(stage => (
+                <li key={stage.stage} className="text-xs flex items-center gap-3">
+                  <span className="w-36 text-slate-700 font-semibold">{stage.stage}</span>
+                  <div className="flex-1 h-4 bg-slate-100 rounded">
+                    <div className="h-4 bg-slate-900 rounded" style={{ width: `${(stage.count / funnelTop) * 100}%` }} />
+                  </div>
+                  <span className="w-10 text-right font-mono font-bold text-slate-700">{stage.count}</span>
+                  <span className="w-12 text-right font-mono text-slate-400">{stage.conversion === null ? '' : percent(stage.conversion)}</span>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-slate-500 mt-4">
+              Offer letters went to {analytics.offerRate.sent} of {analytics.offerRate.eligible} candidates who cleared or
+              were waitlisted at interview; {analytics.interviewOutcomes.Rejected} were rejected.
+            </p>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
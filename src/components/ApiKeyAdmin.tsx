@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { Plug, Plus } from 'lucide-react';
+import { api } from '../lib/api';
+import { formatTimestamp } from '../lib/format';
+import { ApiKey, CreatedApiKey } from '../types';
+
+const inputClassName =
+  'w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none';
+
+/** Keys partner portals submit candidates with. A key's secret is shown once, right after it is created. */
+export default function ApiKeyAdmin() {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [source, setSource] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+
+  useEffect(() => {
+    api.listApiKeys()
+      .then(setApiKeys)
+      .catch((err: Error) => alert(`Could not load API keys: ${err.message}`))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const createApiKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const created = await api.createApiKey({ source: source.trim() });
+      const { token, ...apiKey } = created;
+      setApiKeys(prev => [...prev, apiKey]);
+      setCreatedKey(created);
+      setSource('');
+    } catch (err) {
+      alert(`Could not create the key: ${(err as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const revokeApiKey = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke the key for ${apiKey.source}? Their portal can no longer submit candidates.`)) return;
+    try {
+      const revoked = await api.revokeApiKey(apiKey.id);
+      setApiKeys(prev => prev.map(k => (k.id === revoked.id ? revoked : k)));
+    } catch (err) {
+      alert(`Could not revoke the key: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-xl rounded-2xl overflow-hidden border border-slate-200">
+      <div className="bg-slate-900 px-8 py-6">
+        <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+          <Plug size={24} />
+          Partner API Keys
+        </h1>
+        <p className="text-slate-400 text-sm mt-1">
+          Partner portals submit candidates to <code className="font-mono">POST /api/intake/candidates</code> with a bearer key
+        </p>
+      </div>
+
+      {createdKey && (
+        <div className="px-8 py-4 bg-amber-50 border-b border-amber-200 space-y-2">
+          <p className="text-xs font-semibold text-amber-800">
+            Copy the key for {createdKey.source} now. It is not shown again.
+          </p>
+          <code className="block font-mono text-xs text-slate-900 bg-white border border-amber-200 rounded px-3 py-2 break-all select-all">
+            {createdKey.token}
+          </code>
+          <button
+            type="button"
+            onClick={() => setCreatedKey(null)}
+            className="text-[10px] uppercase tracking-wider font-bold text-amber-700 hover:text-amber-900 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="p-12 text-center text-slate-400 text-sm italic">Loading API keys...</p>
+      ) : apiKeys.length === 0 ? (
+        <p className="p-12 text-center text-slate-400 text-sm italic">No partner has a key yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {apiKeys.map(apiKey => (
+            <li key={apiKey.id} className={`px-8 py-4 flex flex-wrap items-center gap-4 ${apiKey.revokedAt ? 'opacity-60' : ''}`}>
+              <div className="flex-1 min-w-[10rem]">
+                <p className="font-semibold text-slate-900 text-sm font-mono">
+                  {apiKey.source}
+                  {apiKey.revokedAt && <span className="ml-2 text-[10px] font-bold uppercase text-red-600 font-sans">Revoked</span>}
+                </p>
+                <p className="text-xs text-slate-500">
+                  added by {apiKey.createdBy} {formatTimestamp(apiKey.createdAt)} •{' '}
+                  {apiKey.lastUsedAt ? `last used ${formatTimestamp(apiKey.lastUsedAt)}` : 'never used'}
+                </p>
+              </div>
+              {!apiKey.revokedAt && (
+                <button
+                  type="button"
+                  onClick={() => revokeApiKey(apiKey)}
+                  className="text-[10px] uppercase tracking-wider font-bold text-red-600 hover:text-red-700 transition-colors"
+                >
+                  Revoke
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={createApiKey} className="px-8 py-6 border-t border-slate-200 bg-slate-50/50 space-y-3">
+        <p className="text-[10px] uppercase tracking-widest font-bold text-slate-500">Add Partner</p>
+        <input
+          type="text"
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          placeholder="Source tag, e.g. sunrise-institute"
+          className={inputClassName}
+        />
+        <p className="text-[10px] text-slate-500">The tag is recorded on every submission made with the key.</p>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-slate-900 text-white text-[10px] font-bold uppercase tracking-wider rounded-lg hover:bg-slate-800 disabled:opacity-50 transition-all flex items-center gap-1"
+        >
+          <Plus size={12} />
+          {isSaving ? 'Creating...' : 'Create Key'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,498 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Archive,
+  ArrowDown,
+  ArrowUp,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  FileText,
+  Printer,
+  Search,
+  ShieldAlert,
+  ShieldCheck,
+} from 'lucide-react';
+import RiskBreakdown from './RiskBreakdown';
+import { api } from '../lib/api';
+import {
+  DEFAULT_AUDIT_VIEW,
+  filterAuditLog,
+  hasActiveFilters,
+  parseViewParams,
+  sortAuditLog,
+  toViewParams,
+} from '../lib/auditFilters';
+import { downloadFile } from '../lib/csv';
+import { describeApproval, formatTimestamp, quoteJustification, reviewBadgeClassName, riskBadgeClassName } from '../lib/format';
+import { RISK_LEVELS } from '../constants';
+import {
+  AuditArchive,
+  AuditChainReport,
+  AuditExportFormat,
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditLogView,
+  AuditSortKey,
+  ReviewStatus,
+} from '../types';
+
+const REVIEW_STATUSES: ReviewStatus[] = ['Not Required', 'Pending', 'Approved', 'Rejected'];
+const INTERVIEW_STATUSES = ['Cleared', 'Waitlisted', 'Rejected'];
+const PAGE_SIZE = 25;
+
+interface AuditLogProps {
+  entries: AuditLogEntry[];
+  isLoading: boolean;
+  loadError: string | null;
+  /** Left out for users who may not archive, which hides the control. */
+  onArchive?: () => void;
+  /** Offers exports with full Aadhaar numbers. */
+  canRevealAadhaar: boolean;
+  /** Shows the full stored record behind an entry. */
+  onOpenCandidate: (candidateId: string) => void;
+}
+
+export default function AuditLog({
+  entries,
+  isLoading,
+  loadError,
+  onArchive,
+  canRevealAadhaar,
+  onOpenCandidate,
+}: AuditLogProps) {
+  const [expandedEntryId, setExpandedEntryId] = useState<string | null>(null);
+  // The view lives in the query string so a filtered, sorted page can be shared as a link.
+  const [view, setView] = useState<AuditLogView>(() => parseViewParams(new URLSearchParams(window.location.search)));
+  const [unmaskAadhaar, setUnmaskAadhaar] = useState(false);
+  const [chainReport, setChainReport] = useState<AuditChainReport | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [archives, setArchives] = useState<AuditArchive[] | null>(null);
+
+  useEffect(() => {
+    const query = toViewParams(view).toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  }, [view]);
+
+  const matchingEntries = sortAuditLog(filterAuditLog(entries, view), view.sort, view.direction);
+  const pageCount = Math.max(1, Math.ceil(matchingEntries.length / PAGE_SIZE));
+  const page = Math.min(view.page, pageCount);
+  const visibleEntries = matchingEntries.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  const updateFilter = (key: keyof AuditLogFilters, value: string) => {
+    const isCount = key === 'minExceptions' || key === 'maxExceptions';
+    setView(prev => ({ ...prev, [key]: value === '' ? undefined : isCount ? Number(value) : value, page: 1 }));
+  };
+
+  const toggleSort = (sort: AuditSortKey) => {
+    setView(prev => ({
+      ...prev,
+      sort,
+      direction: prev.sort === sort && prev.direction === 'desc' ? 'asc' : 'desc',
+      page: 1,
+    }));
+  };
+
+  const sortHeader = (key: AuditSortKey, label: string, className: string) => (
+    <th className={`${className} text-[10px] font-bold text-slate-500 uppercase tracking-wider`}>
+      <button
+        type="button"
+        onClick={() => toggleSort(key)}
+        className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-slate-900 ${view.sort === key ? 'text-slate-900' : ''}`}
+      >
+        {label}
+        {view.sort === key && (view.direction === 'asc' ? <ArrowUp size={10} /> : <ArrowDown size={10} />)}
+      </button>
+    </th>
+  );
+
+  const exportLog = async (format: AuditExportFormat) => {
+    if (!unmaskAadhaar) {
+      const url = api.auditExportUrl(format, view);
+      if (format === 'html') {
+        window.open(url, '_blank');
+      } else {
+        const link = document.createElement('a');
+        link.href = url;
+        link.click();
+      }
+      return;
+    }
+
+    const reason = prompt('Reason for exporting full Aadhaar numbers (logged as a reveal):');
+    if (!reason?.trim()) return;
+    // Opened before the request so the browser still treats it as a response to the click.
+    const reportWindow = format === 'html' ? window.open('', '_blank') : null;
+    try {
+      const content = await api.exportUnmaskedAuditLog(format, view, reason.trim());
+      if (reportWindow) {
+        reportWindow.location.href = URL.createObjectURL(new Blob([content], { type: 'text/html' }));
+      } else {
+        const fileName = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+        downloadFile(content, fileName, format === 'json' ? 'application/json' : 'text/csv');
+      }
+    } catch (err) {
+      reportWindow?.close();
+      alert(`Could not export the audit log: ${(err as Error).message}`);
+    }
+  };
+
+  const verifyChain = async () => {
+    setIsVerifying(true);
+    try {
+      setChainReport(await api.verifyAuditLog());
+    } catch (err) {
+      alert(`Could not verify the audit log: ${(err as Error).message}`);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const toggleArchives = async () => {
+    if (archives) {
+      setArchives(null);
+      return;
+    }
+    try {
+      setArchives(await api.listAuditArchives());
+    } catch (err) {
+      alert(`Could not load archives: ${(err as Error).message}`);
+    }
+  };
+
+  // A new archive shows up in the list the next time it is opened.
+  useEffect(() => {
+    setArchives(null);
+    setChainReport(null);
+  }, [entries.length]);
+
+  const selectClassName = 'px-2 py-1.5 text-xs bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-slate-900';
+
+  return (
+    <div className="mt-12 bg-white shadow-xl rounded-2xl overflow-hidden border border-slate-200">
+      <div className="bg-slate-100 px-8 py-4 border-b border-slate-200 flex justify-between items-center">
+        <h2 className="text-sm font-bold text-slate-700 flex items-center gap-2">
+          <FileText size={18} className="text-slate-400" />
+          Audit Log (Recent Submissions)
+        </h2>
+        <div className="flex items-center gap-4">
+          <button
+            type="button"
+            onClick={verifyChain}
+            disabled={isVerifying}
+            className="text-[10px] font-bold text-slate-500 hover:text-slate-900 uppercase tracking-wider flex items-center gap-1 disabled:opacity-50"
+          >
+            <ShieldCheck size={12} />
+            {isVerifying ? 'Verifying...' : 'Verify Chain'}
+          </button>
+          <button
+            type="button"
+            onClick={toggleArchives}
+            className="text-[10px] font-bold text-slate-500 hover:text-slate-900 uppercase tracking-wider"
+          >
+            {archives ? 'Hide Archives' : 'Archives'}
+          </button>
+          {onArchive && entries.length > 0 && (
+            <button
+              type="button"
+              onClick={onArchive}
+              className="text-[10px] font-bold text-red-600 hover:text-red-700 uppercase tracking-wider flex items-center gap-1"
+            >
+              <Archive size={12} />
+              Archive Log
+            </button>
+          )}
+        </div>
+      </div>
+
+      {chainReport && (
+        <div className={`px-8 py-3 border-b text-xs ${
+          chainReport.intact ? 'bg-emerald-50 border-emerald-200 text-emerald-800' : 'bg-red-50 border-red-200 text-red-800'
+        }`}>
+          <p className="font-bold flex items-center gap-2">
+            {chainReport.intact ? <ShieldCheck size={14} /> : <ShieldAlert size={14} />}
+            {chainReport.intact
+              ? `Hash chain intact: ${chainReport.linkCount} links verified.`
+              : `Hash chain broken in ${chainReport.breaks.length} place(s).`}
+            <span className="ml-auto font-mono font-normal opacity-70">{formatTimestamp(chainReport.verifiedAt)}</span>
+          </p>
+          {chainReport.headHash && (
+            <p className="mt-1 font-mono text-[10px] opacity-70 break-all">Head {chainReport.headHash}</p>
+          )}
+          {chainReport.breaks.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {chainReport.breaks.map((chainBreak, index) => (
+                <li key={index}>
+                  <span className="font-mono">{chainBreak.seq === null ? 'unlinked' : `#${chainBreak.seq}`}</span>
+                  {' '}{chainBreak.recordType} <span className="font-mono">{chainBreak.recordId}</span>: {chainBreak.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {archives && (
+        <div className="px-8 py-3 border-b border-slate-200 bg-slate-50/70">
+          <p className="text-[9px] text-slate-400 font-semibold uppercase mb-2">Archives</p>
+          {archives.length === 0 ? (
+            <p className="text-xs text-slate-400 italic">The log has never been archived.</p>
+          ) : (
+            <ul className="space-y-1">
+              {archives.map(archive => (
+                <li key={archive.id} className="text-xs text-slate-600">
+                  <span className="font-mono text-slate-400">{formatTimestamp(archive.timestamp)}</span>
+                  {' '}{archive.entryCount} entries archived by <span className="font-semibold">{archive.archivedBy}</span>
+                  {' '}— "{archive.reason}"
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <div className="px-8 py-3 border-b border-slate-200 flex flex-wrap items-center gap-2">
+          <div className="relative">
+            <Search size={12} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="search"
+              value={view.search ?? ''}
+              onChange={(e) => updateFilter('search', e.target.value)}
+              placeholder="Name or email"
+              className={`${selectClassName} pl-6`}
+            />
+          </div>
+          <select value={view.riskLevel ?? ''} onChange={(e) => updateFilter('riskLevel', e.target.value)} className={selectClassName}>
+            <option value="">All risk levels</option>
+            {RISK_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+          </select>
+          <select value={view.interviewStatus ?? ''} onChange={(e) => updateFilter('interviewStatus', e.target.value)} className={selectClassName}>
+            <option value="">All interview statuses</option>
+            {INTERVIEW_STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+          </select>
+          <select value={view.reviewStatus ?? ''} onChange={(e) => updateFilter('reviewStatus', e.target.value)} className={selectClassName}>
+            <option value="">All review statuses</option>
+            {REVIEW_STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+          </select>
+          <input
+            type="number"
+            min={0}
+            value={view.minExceptions ?? ''}
+            onChange={(e) => updateFilter('minExceptions', e.target.value)}
+            placeholder="Min exc."
+            className={`${selectClassName} w-20`}
+          />
+          <input
+            type="number"
+            min={0}
+            value={view.maxExceptions ?? ''}
+            onChange={(e) => updateFilter('maxExceptions', e.target.value)}
+            placeholder="Max exc."
+            className={`${selectClassName} w-20`}
+          />
+          <input type="date" value={view.from ?? ''} onChange={(e) => updateFilter('from', e.target.value)} className={selectClassName} />
+          <span className="text-xs text-slate-400">to</span>
+          <input type="date" value={view.to ?? ''} onChange={(e) => updateFilter('to', e.target.value)} className={selectClassName} />
+          {hasActiveFilters(view) && (
+            <button
+              type="button"
+              onClick={() => setView(prev => ({ ...DEFAULT_AUDIT_VIEW, sort: prev.sort, direction: prev.direction }))}
+              className="text-[10px] font-bold text-slate-500 hover:text-slate-900 uppercase tracking-wider"
+            >
+              Reset
+            </button>
+          )}
+
+          <div className="ml-auto flex items-center gap-2">
+            {canRevealAadhaar && (
+              <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider flex items-center gap-1">
+                <input type="checkbox" checked={unmaskAadhaar} onChange={(e) => setUnmaskAadhaar(e.target.checked)} />
+                Full Aadhaar
+              </label>
+            )}
+            {(['csv', 'json'] as const).map(format => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => exportLog(format)}
+                className="px-2 py-1.5 border border-slate-200 rounded-lg text-[10px] font-bold text-slate-600 uppercase tracking-wider hover:bg-slate-50 flex items-center gap-1"
+              >
+                <Download size={12} />
+                {format}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => exportLog('html')}
+              className="px-2 py-1.5 border border-slate-200 rounded-lg text-[10px] font-bold text-slate-600 uppercase tracking-wider hover:bg-slate-50 flex items-center gap-1"
+            >
+              <Printer size={12} />
+              Report
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        {isLoading ? (
+          <div className="p-12 text-center">
+            <p className="text-slate-400 text-sm italic">Loading submission records...</p>
+          </div>
+        ) : loadError ? (
+          <div className="p-12 text-center">
+            <p className="text-red-500 text-sm font-medium">Could not load the audit log: {loadError}</p>
+          </div>
+        ) : matchingEntries.length === 0 ? (
+          <div className="p-12 text-center">
+            <p className="text-slate-400 text-sm italic">
+              {entries.length === 0 ? 'No submission records found.' : 'No records match the current filters.'}
+            </p>
+          </div>
+        ) : (
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 border-b border-slate-200">
+                {sortHeader('fullName', 'Candidate', 'px-8 py-3')}
+                {sortHeader('riskLevel', 'Risk Level', 'px-4 py-3')}
+                {sortHeader('exceptionCount', 'Exceptions', 'px-4 py-3')}
+                {sortHeader('ruleVersion', 'Rules', 'px-4 py-3')}
+                {sortHeader('timestamp', 'Timestamp', 'px-8 py-3 text-right')}
+              </tr>
+            </thead>
+            <tbody>
+              {visibleEntries.map((entry) => (
+                <React.Fragment key={entry.id}>
+                  <tr
+                    onClick={() => setExpandedEntryId(expandedEntryId === entry.id ? null : entry.id)}
+                    className="border-b border-slate-100 hover:bg-slate-50 transition-colors cursor-pointer"
+                  >
+                    <td className="px-8 py-4">
+                      <div className="font-semibold text-slate-900 text-sm">
+                        {entry.fullName}
+                        {entry.kind === 'Amendment' && (
+                          <span className="ml-2 text-[10px] font-bold uppercase text-slate-400">Amendment</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        {entry.email}
+                        {entry.submittedBy && <span className="text-slate-400"> · by {entry.submittedBy}</span>}
+                        {entry.source && <span className="text-slate-400"> · via intake API</span>}
+                      </div>
+                    </td>
+                    <td className="px-4 py-4">
+                      <div className="flex flex-col items-start gap-1">
+                        <span className={riskBadgeClassName(entry.riskLevel)}>
+                          {entry.riskLevel}{entry.riskScore !== undefined && ` · ${entry.riskScore}`}
+                        </span>
+                        {entry.reviewStatus !== 'Not Required' && (
+                          <span className={reviewBadgeClassName(entry.reviewStatus)}>
+                            Review: {entry.reviewStatus}
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-4 py-4 text-sm font-medium text-slate-600">
+                      {entry.exceptionCount}
+                    </td>
+                    <td className="px-4 py-4 text-xs font-mono font-bold text-slate-500">
+                      {entry.ruleVersion ? `v${entry.ruleVersion}` : '—'}
+                    </td>
+                    <td className="px-8 py-4 text-right text-xs text-slate-400 font-mono">
+                      {formatTimestamp(entry.timestamp)}
+                    </td>
+                  </tr>
+                  {expandedEntryId === entry.id && (
+                    <tr className="border-b border-slate-100 bg-slate-50/70">
+                      <td colSpan={5} className="px-8 py-4 space-y-4">
+                        {entry.candidateId && (
+                          <button
+                            type="button"
+                            onClick={() => onOpenCandidate(entry.candidateId!)}
+                            className="text-[10px] uppercase tracking-wider font-bold text-slate-500 hover:text-slate-900 transition-colors"
+                          >
+                            Open record
+                          </button>
+                        )}
+                        <div>
+                          <p className="text-[9px] text-slate-400 font-semibold uppercase mb-2">Granted Exceptions</p>
+                          {!entry.exceptions ? (
+                            <p className="text-xs text-slate-400 italic">Exception details were not recorded for this legacy entry.</p>
+                          ) : entry.exceptions.length === 0 ? (
+                            <p className="text-xs text-slate-400 italic">No soft rules were triggered.</p>
+                          ) : (
+                            <ul className="space-y-3">
+                              {entry.exceptions.map(exception => (
+                                <li key={exception.ruleId} className="text-xs">
+                                  <p className="font-semibold text-amber-800">{exception.message}</p>
+                                  <p className="text-slate-600 mt-0.5">{quoteJustification(exception)}</p>
+                                  <p className="text-slate-400 mt-0.5">{describeApproval(exception, entry)}</p>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                        {entry.riskBreakdown && entry.riskScore !== undefined && (
+                          <div>
+                            <p className="text-[9px] text-slate-400 font-semibold uppercase mb-2">Risk Score Breakdown</p>
+                            <RiskBreakdown
+                              contributions={entry.riskBreakdown}
+                              riskScore={entry.riskScore}
+                              labels={Object.fromEntries((entry.exceptions ?? []).map(e => [e.ruleId, e.message]))}
+                            />
+                          </div>
+                        )}
+                        {entry.reviews && entry.reviews.length > 0 && (
+                          <div>
+                            <p className="text-[9px] text-slate-400 font-semibold uppercase mb-2">Review Trail</p>
+                            <ul className="space-y-3">
+                              {entry.reviews.map((review, index) => (
+                                <li key={index} className="text-xs">
+                                  <p className="font-semibold text-slate-800">
+                                    {review.decision} by {review.reviewer}
+                                    <span className="ml-2 font-mono font-normal text-slate-400">{formatTimestamp(review.timestamp)}</span>
+                                  </p>
+                                  <p className="text-slate-600 mt-0.5">"{review.comment}"</p>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {matchingEntries.length > PAGE_SIZE && (
+        <div className="px-8 py-3 border-t border-slate-200 flex items-center justify-between text-xs text-slate-500">
+          <span>
+            {(page - 1) * PAGE_SIZE + 1}–{Math.min(page * PAGE_SIZE, matchingEntries.length)} of {matchingEntries.length}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              disabled={page === 1}
+              onClick={() => setView(prev => ({ ...prev, page: page - 1 }))}
+              className="p-1 rounded border border-slate-200 hover:bg-slate-50 disabled:opacity-40"
+            >
+              <ChevronLeft size={14} />
+            </button>
+            <span className="font-mono">{page} / {pageCount}</span>
+            <button
+              type="button"
+              disabled={page === pageCount}
+              onClick={() => setView(prev => ({ ...prev, page: page + 1 }))}
+              className="p-1 rounded border border-slate-200 hover:bg-slate-50 disabled:opacity-40"
+            >
+              <ChevronRight size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+import React, { useState } from 'react';
+import { Download, FileSpreadsheet, Upload } from 'lucide-react';
+import { api } from '../lib/api';
+import { detectColumnMapping, importFieldsFor, rowToFormState } from '../lib/candidateImport';
+import { downloadFile, parseCsv, toCsv } from '../lib/csv';
+import { riskBadgeClassName } from '../lib/format';
+import { programLabel } from '../lib/programs';
+import { MIN_JUSTIFICATION_LENGTH } from '../constants';
+import { AuditLogEntry, ColumnMapping, FieldKey, FormSchema, FormState, ImportPreviewRow, Program } from '../types';
+
+interface BulkImportProps {
+  /** Custom fields of this schema can be mapped alongside the built-in ones. */
+  schema: FormSchema;
+  /** Every row of a file goes to the same program and is scored against its rules. */
+  programs: Program[];
+  /** False when the importer cannot approve exceptions, so rows that trigger soft rules go to review. */
+  canApproveExceptions: boolean;
+  onImported: (entries: AuditLogEntry[]) => void;
+}
+
+export default function BulkImport({ schema, programs, canApproveExceptions, onImported }: BulkImportProps) {
+  const [fileName, setFileName] = useState('');
+  const [programId, setProgramId] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [preview, setPreview] = useState<ImportPreviewRow[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  // Row index -> reasons the server refused it on commit.
+  const [failures, setFailures] = useState<Record<number, string[]>>({});
+  const [imported, setImported] = useState<Set<number>>(new Set());
+  const [justification, setJustification] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const importFields = importFieldsFor(schema);
+  const forms: FormState[] = rows.map(row => ({ ...rowToFormState(row, mapping, headers), programId }));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const [headerRow = [], ...dataRows] = parseCsv(await file.text());
+    setFileName(file.name);
+    setHeaders(headerRow.map(h => h.trim()));
+    setRows(dataRows);
+    setMapping(detectColumnMapping(headerRow, importFields));
+    setPreview(null);
+    setFailures({});
+    setImported(new Set());
+    e.target.value = '';
+  };
+
+  const updateMapping = (key: FieldKey, column: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (column === '') delete next[key];
+      else next[key] = Number(column);
+      return next;
+    });
+    // The preview was computed from the old mapping.
+    setPreview(null);
+  };
+
+  const validateRows = async () => {
+    setIsBusy(true);
+    try {
+      const result = await api.previewImport(forms);
+      setPreview(result);
+      setSelected(new Set(result.flatMap((row, i) => (Object.keys(row.errors).length === 0 ? [i] : []))));
+      setFailures({});
+      setImported(new Set());
+    } catch (err) {
+      alert(`Validation failed: ${(err as Error).message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toggleRow = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const selectedIndexes = [...selected].sort((a, b) => a - b);
+  const needsExceptions = !!preview && selectedIndexes.some(i => preview[i].softRuleIds.length > 0);
+
+  const commitRows = async () => {
+    if (!preview || selectedIndexes.length === 0) return;
+    if (needsExceptions && justification.trim().length < MIN_JUSTIFICATION_LENGTH) {
+      alert(`Rows with warnings need a justification of at least ${MIN_JUSTIFICATION_LENGTH} characters.`);
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const results = await api.importCandidates(selectedIndexes.map(i => ({
+        candidate: forms[i],
+        exceptions: preview[i].softRuleIds.map(ruleId => ({ ruleId, justification })),
+      })));
+      const newFailures: Record<number, string[]> = {};
+      const newImported = new Set(imported);
+      results.forEach((result, n) => {
+        if (result.auditEntry) newImported.add(selectedIndexes[n]);
+        else newFailures[selectedIndexes[n]] = result.errors ?? [];
+      });
+      setFailures(newFailures);
+      setImported(newImported);
+      setSelected(new Set());
+      onImported(results.flatMap(result => (result.auditEntry ? [result.auditEntry] : [])));
+      alert(`Imported ${newImported.size - imported.size} of ${results.length} selected rows.`);
+    } catch (err) {
+      alert(`Import failed: ${(err as Error).message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const rowErrors = (index: number): string[] =>
+    failures[index] ?? (preview ? Object.values(preview[index].errors) as string[] : []);
+
+  const rejectedIndexes = rows.map((_, i) => i).filter(i => !imported.has(i) && rowErrors(i).length > 0);
+
+  const downloadRejected = () => {
+    const csv = toCsv([
+      [...headers, 'Errors'],
+      ...rejectedIndexes.map(i => [...rows[i], rowErrors(i).join('; ')]),
+    ]);
+    downloadFile(csv, `rejected-${fileName || 'candidates.csv'}`, 'text/csv');
+  };
+
+  const inputClassName = 'w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none';
+
+  return (
+    <div className="bg-white shadow-xl rounded-2xl overflow-hidden border border-slate-200">
+      <div className="bg-slate-900 px-8 py-6">
+        <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+          <FileSpreadsheet size={24} />
+          Bulk Import
+        </h1>
+        <p className="text-slate-400 text-sm mt-1">Validate a CSV of candidates against the current rules before committing</p>
+      </div>
+
+      <div className="p-8 space-y-6">
+        <label className="flex items-center justify-center gap-2 px-4 py-6 border-2 border-dashed border-slate-200 rounded-xl text-sm text-slate-500 hover:border-slate-400 cursor-pointer transition-colors">
+          <Upload size={16} />
+          {fileName ? `${fileName} — ${rows.length} rows` : 'Choose a CSV file with a header row'}
+          <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+        </label>
+
+        {headers.length > 0 && programs.length > 0 && (
+          <div className="space-y-1">
+            <label className="text-[10px] uppercase tracking-wider font-bold text-slate-400">Program</label>
+            <select
+              value={programId}
+              onChange={(e) => {
+                setProgramId(e.target.value);
+                // The preview was scored against the old program's rules.
+                setPreview(null);
+              }}
+              className={inputClassName}
+            >
+              <option value="">No program (default rules)</option>
+              {programs.map(program => <option key={program.id} value={program.id}>{programLabel(program)}</option>)}
+            </select>
+          </div>
+        )}
+
+        {headers.length > 0 && (
+          <div className="space-y-3">
+            <p className="text-[10px] uppercase tracking-wider font-bold text-slate-400">Column Mapping</p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {importFields.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <label className="text-[10px] uppercase text-slate-500 font-bold">{field.label}</label>
+                  <select
+                    value={mapping[field.key] ?? ''}
+                    onChange={(e) => updateMapping(field.key, e.target.value)}
+                    className={inputClassName}
+                  >
+                    <option value="">Not mapped</option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={validateRows}
+              disabled={isBusy || rows.length === 0}
+              className="px-4 py-2 bg-slate-900 text-white text-xs font-bold uppercase tracking-wider rounded-lg hover:bg-slate-800 disabled:opacity-40 transition-all"
+            >
+              Validate {rows.length} Rows
+            </button>
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-4">
+            <div className="overflow-x-auto border border-slate-200 rounded-xl">
+              <table className="w-full text-left border-collapse">
+                <thead>
+                  <tr className="bg-slate-50 text-[10px] uppercase tracking-wider text-slate-500 font-bold">
+                    <th className="px-4 py-3 border-b border-slate-200"></th>
+                    <th className="px-4 py-3 border-b border-slate-200">Row</th>
+                    <th className="px-4 py-3 border-b border-slate-200">Candidate</th>
+                    <th className="px-4 py-3 border-b border-slate-200">Risk</th>
+                    <th className="px-4 py-3 border-b border-slate-200">Findings</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {preview.map((row, index) => {
+                    const errors = rowErrors(index);
+                    const warnings = Object.values(row.warnings) as string[];
+                    return (
+                      <tr key={index} className="text-sm align-top">
+                        <td className="px-4 py-3">
+                          {imported.has(index) ? (
+                            <span className="text-[10px] font-bold uppercase text-emerald-600">Imported</span>
+                          ) : (
+                            <input
+                              type="checkbox"
+                              checked={selected.has(index)}
+                              disabled={Object.keys(row.errors).length > 0}
+                              onChange={() => toggleRow(index)}
+                            />
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-xs font-mono text-slate-400">{index + 1}</td>
+                        <td className="px-4 py-3">
+                          <p className="font-semibold text-slate-900">{forms[index].fullName || '—'}</p>
+                          <p className="text-xs text-slate-500">{forms[index].email}</p>
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className={riskBadgeClassName(row.riskLevel)}>{row.riskLevel} · {row.riskScore}</span>
+                          {row.needsReview && <p className="mt-1 text-[10px] text-amber-600 font-bold uppercase">Review</p>}
+                        </td>
+                        <td className="px-4 py-3 space-y-0.5">
+                          {errors.map((message, i) => <p key={`e${i}`} className="text-xs text-red-600">{message}</p>)}
+                          {warnings.map((message, i) => <p key={`w${i}`} className="text-xs text-amber-600">{message}</p>)}
+                          {errors.length === 0 && warnings.length === 0 && (
+                            <p className="text-xs text-emerald-600">All checks passed</p>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {needsExceptions && (
+              <div className="p-4 bg-amber-50 rounded-xl border border-amber-200 space-y-3">
+                <p className="text-xs text-amber-700">
+                  Selected rows trigger soft rules. This justification is recorded as the exception for each of them.{' '}
+                  {canApproveExceptions
+                    ? 'Importing approves the exceptions in your name.'
+                    : 'The rows go to review, where a reviewer approves the exceptions.'}
+                </p>
+                <textarea
+                  rows={2}
+                  value={justification}
+                  onChange={(e) => setJustification(e.target.value)}
+                  placeholder="Reason for granting these exceptions"
+                  className={inputClassName}
+                />
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="button"
+                onClick={commitRows}
+                disabled={isBusy || selectedIndexes.length === 0}
+                className="px-4 py-2 bg-slate-900 text-white text-xs font-bold uppercase tracking-wider rounded-lg hover:bg-slate-800 disabled:opacity-40 transition-all"
+              >
+                Commit {selectedIndexes.length} Selected Rows
+              </button>
+              {rejectedIndexes.length > 0 && (
+                <button
+                  type="button"
+                  onClick={downloadRejected}
+                  className="px-4 py-2 border border-slate-200 text-slate-600 text-xs font-bold uppercase tracking-wider rounded-lg hover:bg-slate-50 transition-all flex items-center gap-2"
+                >
+                  <Download size={14} />
+                  Download {rejectedIndexes.length} Rejected Rows
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,374 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRight, Eye, FileText, Fingerprint, Mail, Pencil, Users } from 'lucide-react';
+import { api } from '../lib/api';
+import { formatTimestamp, statusBadgeClassName } from '../lib/format';
+import { fieldLabel } from '../lib/formSchema';
+import { checkTransition, STATUS_TRANSITIONS, TransitionContext } from '../lib/lifecycle';
+import { offerLetterKindOf } from '../lib/offerLetters';
+import { holdsSeat, programLabel } from '../lib/programs';
+import { AuditLogEntry, CandidateRecord, CandidateStatus, FormSchema, Program } from '../types';
+
+interface CandidateListProps {
+  auditLog: AuditLogEntry[];
+  /** Labels the custom field values stored on each candidate. */
+  schema: FormSchema;
+  programs: Program[];
+  /** Candidate to open on arrival, e.g. from a duplicate warning. */
+  initialSelectedId?: string | null;
+  /** Opens the candidate in the admission form; the full Aadhaar number has already been revealed for it. */
+  onAmend: (candidate: CandidateRecord, aadhaarNumber: string, reason: string) => void;
+  canAmend: boolean;
+  canRevealAadhaar: boolean;
+  /** Status transitions are part of review; other roles see the history only. */
+  canReview: boolean;
+}
+
+export default function CandidateList({
+  auditLog,
+  schema,
+  programs,
+  initialSelectedId = null,
+  onAmend,
+  canAmend,
+  canRevealAadhaar,
+  canReview,
+}: CandidateListProps) {
+  const [candidates, setCandidates] = useState<CandidateRecord[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(initialSelectedId);
+  const [note, setNote] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  // Full numbers revealed in this session only; never written back to the list.
+  const [revealed, setRevealed] = useState<Record<string, string>>({});
+
+  // Reload whenever a new submission lands in the log.
+  useEffect(() => {
+    api.listCandidates()
+      .then(setCandidates)
+      .catch((err: Error) => alert(`Could not load candidates: ${err.message}`))
+      .finally(() => setIsLoading(false));
+  }, [auditLog.length]);
+
+  useEffect(() => {
+    setSelectedId(initialSelectedId);
+  }, [initialSelectedId]);
+
+  const reviewStatusFor = (candidateId: string) =>
+    auditLog.find(entry => entry.candidateId === candidateId)?.reviewStatus;
+
+  // Seats are counted from the loaded candidates, which stay current as statuses change here.
+  const transitionContextFor = (candidate: CandidateRecord): TransitionContext => {
+    const program = programs.find(p => p.id === candidate.programId);
+    const held = candidates.filter(c => c.programId === candidate.programId && holdsSeat(c)).length;
+    return {
+      reviewStatus: reviewStatusFor(candidate.id),
+      interviewStatus: candidate.interviewStatus,
+      seatsLeft: program && Math.max(0, program.seats - held),
+    };
+  };
+
+  const revealAadhaar = async (candidate: CandidateRecord) => {
+    const reason = prompt('Reason for revealing the full Aadhaar number:');
+    if (!reason?.trim()) return;
+    try {
+      const { aadhaarNumber, access } = await api.revealAadhaar(candidate.id, { reason });
+      setRevealed(prev => ({ ...prev, [candidate.id]: aadhaarNumber }));
+      setCandidates(prev => prev.map(c => (
+        c.id === candidate.id ? { ...c, aadhaarAccessLog: [...c.aadhaarAccessLog, access] } : c
+      )));
+    } catch (err) {
+      alert(`Could not reveal the Aadhaar number: ${(err as Error).message}`);
+    }
+  };
+
+  // Editing needs the real Aadhaar number in the form, so opening a record for amendment is a logged reveal.
+  const startAmendment = async (candidate: CandidateRecord) => {
+    const reason = prompt('Reason for amending this record:');
+    if (!reason?.trim()) return;
+    try {
+      const { aadhaarNumber } = await api.revealAadhaar(candidate.id, { reason: `Amendment: ${reason.trim()}` });
+      onAmend(candidate, aadhaarNumber, reason.trim());
+    } catch (err) {
+      alert(`Could not open the record: ${(err as Error).message}`);
+    }
+  };
+
+  const advance = async (candidate: CandidateRecord, to: CandidateStatus) => {
+    setIsSaving(true);
+    try {
+      const updated = await api.transitionCandidate(candidate.id, { to, note });
+      // A freed seat goes to the next waitlisted candidate, so other records may have moved too.
+      if (updated.programId && holdsSeat(candidate) && !holdsSeat(updated)) {
+        setCandidates(await api.listCandidates());
+      } else {
+        setCandidates(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+      }
+      setNote('');
+    } catch (err) {
+      alert(`Status change failed: ${(err as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // The first letter moves the candidate to Offer Sent; later ones are reissues.
+  const sendOfferLetter = async (candidate: CandidateRecord) => {
+    const action = candidate.status === 'Offer Sent' ? 'Reissue' : 'Send';
+    if (!confirm(`${action} the ${offerLetterKindOf(candidate)} offer letter to ${candidate.fullName}?`)) return;
+    setIsSaving(true);
+    try {
+      const updated = await api.sendOfferLetter(candidate.id);
+      setCandidates(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+    } catch (err) {
+      alert(`Could not send the offer letter: ${(err as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none';
+
+  return (
+    <div className="bg-white shadow-xl rounded-2xl overflow-hidden border border-slate-200">
+      <div className="bg-slate-900 px-8 py-6">
+        <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+          <Users size={24} />
+          Candidates
+        </h1>
+        <p className="text-slate-400 text-sm mt-1">Admission lifecycle from application to enrolment</p>
+      </div>
+
+      {isLoading ? (
+        <p className="p-12 text-center text-slate-400 text-sm italic">Loading candidates...</p>
+      ) : candidates.length === 0 ? (
+        <p className="p-12 text-center text-slate-400 text-sm italic">No candidates submitted yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {candidates.map(candidate => {
+            const isSelected = selectedId === candidate.id;
+            const context = transitionContextFor(candidate);
+            const program = programs.find(p => p.id === candidate.programId);
+            const canSendOffer = canReview && !!offerLetterKindOf(candidate) && (
+              candidate.status === 'Offer Sent' || !checkTransition(candidate.status, 'Offer Sent', context)
+            );
+            // Offers only go out with a letter, through the Offer Letters section.
+            const transitions = STATUS_TRANSITIONS[candidate.status].filter(to => to !== 'Offer Sent');
+            return (
+              <li key={candidate.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(isSelected ? null : candidate.id)}
+                  className="w-full px-8 py-4 flex items-center justify-between text-left hover:bg-slate-50 transition-colors"
+                >
+                  <div>
+                    <p className="font-semibold text-slate-900 text-sm">{candidate.fullName}</p>
+                    <p className="text-xs text-slate-500">
+                      {candidate.email}
+                      {program && ` • ${programLabel(program)}`}
+                    </p>
+                  </div>
+                  <span className={statusBadgeClassName(candidate.status)}>{candidate.status}</span>
+                </button>
+
+                {isSelected && (
+                  <div className="px-8 pt-4 pb-6 space-y-4 bg-slate-50/70">
+                    {canAmend && (
+                      <div className="flex justify-end">
+                        <button
+                          type="button"
+                          onClick={() => startAmendment(candidate)}
+                          className="px-3 py-2 bg-white text-slate-700 text-[10px] font-bold uppercase tracking-wider rounded-lg border border-slate-200 hover:bg-slate-100 transition-all flex items-center justify-center gap-1"
+                        >
+                          <Pencil size={12} />
+                          Amend Record
+                        </button>
+                      </div>
+                    )}
+
+                    {candidate.score && (
+                      <div>
+                        <p className="text-[9px] text-slate-400 font-semibold uppercase mb-2">Score</p>
+                        <p className="text-sm font-mono font-bold text-slate-700">
+                          {candidate.scoreMode === 'CGPA'
+                            ? `${candidate.score} / ${candidate.cgpaScale} CGPA`
+                            : `${candidate.score}%`}
+                          {candidate.scoreMode === 'CGPA' && candidate.normalizedPercentage !== null && (
+                            <span className="ml-2 font-normal text-slate-400">≈ {candidate.normalizedPercentage}%</span>
+                          )}
+                        </p>
+                      </div>
+                    )}
+
+                    {Object.keys(candidate.customFields).length > 0 && (
+                      <div>
+                        <p className="text-[9px] text-slate-400 font-semibold uppercase mb-2">Additional Details</p>
+                        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                          {Object.entries(candidate.customFields).map(([key, value]) => (
+                            <React.Fragment key={key}>
+                              {/* Fields removed from the schema since keep their key as the label. */}
+                              <dt className="text-slate-500">{fieldLabel(schema, `customFields.${key}`)}</dt>
+                              <dd className="font-semibold text-slate-700">{value}</dd>
+                            </React.Fragment>
+                          ))}
+                        </dl>
+                      </div>
+                    )}
+
+                    <div>
+                      <p className="text-[9px] text-slate-400 font-semibold uppercase mb-2">Aadhaar Number</p>
+                      <div className="flex items-center gap-3">
+                        <span className="text-sm font-mono font-bold text-slate-700 flex items-center gap-2">
+                          <Fingerprint size={14} className="text-slate-400" />
+                          {revealed[candidate.id] ?? candidate.aadhaarNumber}
+                        </span>
+                        {canRevealAadhaar && !revealed[candidate.id] && (
+                          <button
+                            type="button"
+                            onClick={() => revealAadhaar(candidate)}
+                            className="text-[10px] uppercase tracking-wider font-bold text-slate-500 hover:text-slate-900 transition-colors flex items-center gap-1"
+                          >
+                            <Eye size={12} />
+                            Reveal
+                          </button>
+                        )}
+                      </div>
+                      {candidate.aadhaarAccessLog.length > 0 && (
+                        <ul className="mt-2 space-y-1">
+                          {candidate.aadhaarAccessLog.map((access, index) => (
+                            <li key={index} className="text-[11px] text-slate-500">
+                              Revealed by {access.revealedBy} — "{access.reason}"
+                              <span className="ml-2 font-mono text-slate-400">{formatTimestamp(access.timestamp)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+
+                    <div>
+                      <p className="text-[9px] text-slate-400 font-semibold uppercase mb-2">Status History</p>
+                      <ol className="space-y-2">
+                        {candidate.statusHistory.map((change, index) => (
+                          <li key={index} className="text-xs flex flex-wrap items-center gap-2">
+                            <span className="font-mono text-slate-400">{formatTimestamp(change.timestamp)}</span>
+                            {change.from && (
+                              <>
+                                <span className="font-semibold text-slate-500">{change.from}</span>
+                                <ArrowRight size={12} className="text-slate-400" />
+                              </>
+                            )}
+                            <span className="font-semibold text-slate-800">{change.to}</span>
+                            <span className="text-slate-400">by {change.changedBy}</span>
+                            {change.note && <span className="text-slate-600">— "{change.note}"</span>}
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+
+                    {candidate.amendments.length > 0 && (
+                      <div>
+                        <p className="text-[9px] text-slate-400 font-semibold uppercase mb-2">Change History</p>
+                        <ol className="space-y-2">
+                          {candidate.amendments.map((change, index) => (
+                            <li key={index} className="text-xs flex flex-wrap items-center gap-2">
+                              <span className="font-mono text-slate-400">{formatTimestamp(change.timestamp)}</span>
+                              <span className="font-semibold text-slate-800">{fieldLabel(schema, change.field)}</span>
+                              <span className="text-slate-500">{change.from || '—'}</span>
+                              <ArrowRight size={12} className="text-slate-400" />
+                              <span className="font-semibold text-slate-800">{change.to || '—'}</span>
+                              <span className="text-slate-400">by {change.changedBy}</span>
+                              <span className="text-slate-600">— "{change.reason}"</span>
+                            </li>
+                          ))}
+                        </ol>
+                      </div>
+                    )}
+
+                    {(candidate.offerLetters.length > 0 || canSendOffer) && (
+                      <div>
+                        <p className="text-[9px] text-slate-400 font-semibold uppercase mb-2">Offer Letters</p>
+                        <ol className="space-y-2 mb-3">
+                          {candidate.offerLetters.map(letter => (
+                            <li key={letter.version} className="text-xs flex flex-wrap items-center gap-2">
+                              <span className="font-mono text-slate-400">{formatTimestamp(letter.generatedAt)}</span>
+                              <span className="font-semibold text-slate-800">v{letter.version} · {letter.subject}</span>
+                              <span className="text-slate-400">
+                                {letter.kind} template v{letter.templateVersion}, sent by {letter.generatedBy}
+                              </span>
+                              <a
+                                href={api.offerLetterUrl(candidate.id, letter.version)}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="text-[10px] uppercase tracking-wider font-bold text-slate-500 hover:text-slate-900 transition-colors flex items-center gap-1"
+                              >
+                                <FileText size={12} />
+                                View
+                              </a>
+                            </li>
+                          ))}
+                        </ol>
+                        {canSendOffer && (
+                          <div className="flex flex-wrap gap-2">
+                            <a
+                              href={api.offerLetterPreviewUrl(candidate.id)}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="px-3 py-1.5 bg-white text-slate-700 text-[10px] font-bold uppercase tracking-wider rounded-lg border border-slate-200 hover:bg-slate-100 transition-all flex items-center gap-1"
+                            >
+                              <Eye size={12} />
+                              Preview Letter
+                            </a>
+                            <button
+                              type="button"
+                              disabled={isSaving}
+                              onClick={() => sendOfferLetter(candidate)}
+                              className="px-3 py-1.5 bg-slate-900 text-white text-[10px] font-bold uppercase tracking-wider rounded-lg hover:bg-slate-800 disabled:opacity-40 transition-all flex items-center gap-1"
+                            >
+                              <Mail size={12} />
+                              {candidate.status === 'Offer Sent' ? 'Reissue Letter' : 'Send Offer Letter'}
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {STATUS_TRANSITIONS[candidate.status].length === 0 ? (
+                      <p className="text-xs text-slate-400 italic">{candidate.status} is a final status.</p>
+                    ) : canReview && transitions.length > 0 && (
+                      <div className="space-y-3">
+                        <input
+                          type="text"
+                          value={note}
+                          onChange={(e) => setNote(e.target.value)}
+                          placeholder="Note for this status change (optional)"
+                          className={inputClassName}
+                        />
+                        <div className="flex flex-wrap gap-2">
+                          {transitions.map(to => {
+                            const blockedReason = checkTransition(candidate.status, to, context);
+                            return (
+                              <button
+                                key={to}
+                                type="button"
+                                disabled={isSaving || !!blockedReason}
+                                title={blockedReason ?? undefined}
+                                onClick={() => advance(candidate, to)}
+                                className="px-3 py-1.5 bg-slate-900 text-white text-[10px] font-bold uppercase tracking-wider rounded-lg hover:bg-slate-800 disabled:opacity-40 disabled:cursor-not-allowed transition-all flex items-center gap-1"
+                              >
+                                <ArrowRight size={12} />
+                                {to}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
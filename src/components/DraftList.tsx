@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { FilePen, Trash2 } from 'lucide-react';
+import { api } from '../lib/api';
+import { formatTimestamp } from '../lib/format';
+import { Draft, DraftSummary } from '../types';
+
+interface DraftListProps {
+  /** Draft currently loaded in the form, if any. */
+  currentDraftId: string | null;
+  onOpen: (draft: Draft) => void;
+  onDiscarded: (draftId: string) => void;
+}
+
+export default function DraftList({ currentDraftId, onOpen, onDiscarded }: DraftListProps) {
+  const [drafts, setDrafts] = useState<DraftSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    api.listDrafts()
+      .then(setDrafts)
+      .catch((err: Error) => alert(`Could not load drafts: ${err.message}`))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const openDraft = async (draftId: string) => {
+    try {
+      onOpen(await api.getDraft(draftId));
+    } catch (err) {
+      alert(`Could not open the draft: ${(err as Error).message}`);
+    }
+  };
+
+  const discardDraft = async (draft: DraftSummary) => {
+    if (!confirm(`Discard the draft for ${draft.fullName || 'an unnamed candidate'}?`)) return;
+    try {
+      await api.deleteDraft(draft.id);
+      setDrafts(prev => prev.filter(d => d.id !== draft.id));
+      onDiscarded(draft.id);
+    } catch (err) {
+      alert(`Could not discard the draft: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-xl rounded-2xl overflow-hidden border border-slate-200">
+      <div className="px-8 py-4 border-b border-slate-200 bg-slate-50/50">
+        <h2 className="text-sm font-bold text-slate-900 uppercase tracking-wider flex items-center gap-2">
+          <FilePen size={16} className="text-slate-400" />
+          Drafts
+        </h2>
+        <p className="text-xs text-slate-500 mt-1">
+          Your applications saved while being entered. Submitting one removes it from this list. Aadhaar numbers are
+          not saved, so enter them again when you reopen a draft.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="p-8 text-center text-slate-400 text-sm italic">Loading drafts...</p>
+      ) : drafts.length === 0 ? (
+        <p className="p-8 text-center text-slate-400 text-sm italic">No drafts in progress.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {drafts.map(draft => (
+            <li key={draft.id} className="px-8 py-4 flex items-center justify-between gap-4">
+              <div>
+                <p className="font-semibold text-slate-900 text-sm">
+                  {draft.fullName || <span className="italic text-slate-400">Unnamed candidate</span>}
+                  {draft.id === currentDraftId && (
+                    <span className="ml-2 text-[10px] font-bold uppercase text-emerald-600">In form</span>
+                  )}
+                </p>
+                <p className="text-xs text-slate-500">Last edited {formatTimestamp(draft.updatedAt)}</p>
+              </div>
+              <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => openDraft(draft.id)}
+                  className="px-3 py-1.5 bg-slate-900 text-white text-[10px] font-bold uppercase tracking-wider rounded-lg hover:bg-slate-800 transition-all"
+                >
+                  Open
+                </button>
+                <button
+                  type="button"
+                  onClick={() => discardDraft(draft)}
+                  className="text-slate-400 hover:text-red-600 transition-colors"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { Copy } from 'lucide-react';
+import { api } from '../lib/api';
+import { DUPLICATE_REASON_LABELS } from '../lib/duplicates';
+import { formatTimestamp, statusBadgeClassName } from '../lib/format';
+import { DuplicateCluster } from '../types';
+
+interface DuplicateReportProps {
+  onSelect: (candidateId: string) => void;
+}
+
+export default function DuplicateReport({ onSelect }: DuplicateReportProps) {
+  const [clusters, setClusters] = useState<DuplicateCluster[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    api.listDuplicateClusters()
+      .then(setClusters)
+      .catch((err: Error) => alert(`Could not load the duplicate report: ${err.message}`))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return (
+    <div className="bg-white shadow-xl rounded-2xl overflow-hidden border border-slate-200">
+      <div className="px-8 py-4 border-b border-slate-200 bg-slate-50/50">
+        <h2 className="text-sm font-bold text-slate-900 uppercase tracking-wider flex items-center gap-2">
+          <Copy size={16} className="text-slate-400" />
+          Possible Duplicates
+        </h2>
+      </div>
+
+      {isLoading ? (
+        <p className="p-8 text-center text-slate-400 text-sm italic">Scanning stored candidates...</p>
+      ) : clusters.length === 0 ? (
+        <p className="p-8 text-center text-slate-400 text-sm italic">No likely duplicates among stored candidates.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {clusters.map((cluster, index) => (
+            <li key={index} className="px-8 py-4 space-y-2">
+              <p className="text-[10px] uppercase tracking-wider font-bold text-amber-600">
+                {cluster.reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join(', ')}
+              </p>
+              <ul className="space-y-1">
+                {cluster.candidates.map(candidate => (
+                  <li key={candidate.id}>
+                    <button
+                      type="button"
+                      onClick={() => onSelect(candidate.id)}
+                      className="w-full flex items-center justify-between gap-4 text-left text-xs hover:bg-slate-50 rounded px-2 py-1 transition-colors"
+                    >
+                      <span>
+                        <span className="font-semibold text-slate-900">{candidate.fullName}</span>
+                        <span className="ml-2 text-slate-500">{candidate.email} · {candidate.phone} · {candidate.dob}</span>
+                      </span>
+                      <span className="flex items-center gap-2">
+                        <span className="font-mono text-slate-400">{formatTimestamp(candidate.createdAt)}</span>
+                        <span className={statusBadgeClassName(candidate.status)}>{candidate.status}</span>
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
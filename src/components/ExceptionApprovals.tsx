@@ -0,0 +1,53 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { RuleViolation } from '../validation';
+
+interface ExceptionApprovalsProps {
+  violations: RuleViolation[];
+  justifications: Record<string, string>;
+  /** Whether the signed-in user approves the exceptions by submitting; otherwise a reviewer approves them in review. */
+  canApprove: boolean;
+  errors: Record<string, string>;
+  onJustificationChange: (ruleId: string, value: string) => void;
+}
+
+export default function ExceptionApprovals({
+  violations,
+  justifications,
+  canApprove,
+  errors,
+  onJustificationChange,
+}: ExceptionApprovalsProps) {
+  if (violations.length === 0) return null;
+
+  return (
+    <div className="p-4 bg-amber-50 rounded-xl border border-amber-200 space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-amber-900 flex items-center gap-2">
+          <ShieldAlert size={16} />
+          Exception Approval Required
+        </h3>
+        <p className="text-xs text-amber-700 mt-1">
+          Each triggered soft rule needs a written reason before submission.{' '}
+          {canApprove
+            ? 'Submitting approves the exceptions in your name.'
+            : 'A reviewer approves the exceptions when signing off the record.'}
+        </p>
+      </div>
+
+      {violations.map((violation) => (
+        <div key={violation.ruleId} className="space-y-1">
+          <label className="text-xs font-semibold text-slate-700">{violation.message}</label>
+          <textarea
+            rows={2}
+            value={justifications[violation.ruleId] ?? ''}
+            onChange={(e) => onJustificationChange(violation.ruleId, e.target.value)}
+            placeholder="Reason for granting this exception"
+            className="w-full px-3 py-2 text-sm bg-white border border-amber-200 rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none"
+          />
+          <div className="h-4 text-[11px] text-amber-600 font-medium">{errors[violation.ruleId]}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
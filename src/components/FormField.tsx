@@ -0,0 +1,102 @@
+import React from 'react';
+import {
+  Award,
+  Briefcase,
+  Calendar,
+  Clock,
+  FileText,
+  Fingerprint,
+  GraduationCap,
+  Hash,
+  Mail,
+  MapPin,
+  Phone,
+  Tag,
+  User,
+} from 'lucide-react';
+import { FormFieldDefinition, FormFieldIcon } from '../types';
+
+export const FIELD_ICONS: Record<FormFieldIcon, typeof User> = {
+  User,
+  Mail,
+  Phone,
+  Calendar,
+  GraduationCap,
+  Award,
+  FileText,
+  Fingerprint,
+  Clock,
+  Briefcase,
+  MapPin,
+  Tag,
+  Hash,
+};
+
+interface FormFieldProps {
+  field: FormFieldDefinition;
+  value: string;
+  error?: string;
+  warning?: string;
+  onChange: (value: string) => void;
+  /** Shown instead of the schema icon, e.g. to reflect the current value. */
+  icon?: React.ReactNode;
+  disabled?: boolean;
+}
+
+/** One card-layout input rendered from its form schema definition. */
+export default function FormField({ field, value, error, warning, onChange, icon, disabled }: FormFieldProps) {
+  const Icon = FIELD_ICONS[field.icon] ?? Tag;
+  const className = `w-full px-4 py-2.5 bg-slate-50 border rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none disabled:opacity-60 ${
+    error ? 'border-red-500' : warning ? 'border-amber-500' : 'border-slate-200'
+  }`;
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) =>
+    onChange(e.target.value);
+
+  return (
+    <div className={`space-y-1 ${field.type === 'textarea' ? 'md:col-span-2' : ''}`}>
+      <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+        {icon ?? <Icon size={16} className="text-slate-400" />}
+        {field.label}
+      </label>
+      {field.type === 'select' ? (
+        <select
+          name={field.key}
+          value={value}
+          onChange={handleChange}
+          disabled={disabled}
+          className={`${className} appearance-none`}
+        >
+          <option value="">{field.placeholder || `Select ${field.label}`}</option>
+          {(field.options ?? []).map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      ) : field.type === 'textarea' ? (
+        <textarea
+          name={field.key}
+          rows={3}
+          value={value}
+          onChange={handleChange}
+          disabled={disabled}
+          placeholder={field.placeholder}
+          className={className}
+        />
+      ) : (
+        <input
+          type={field.type}
+          name={field.key}
+          value={value}
+          onChange={handleChange}
+          disabled={disabled}
+          placeholder={field.placeholder}
+          className={className}
+        />
+      )}
+      {error ? (
+        <div className="h-5 text-xs text-red-500 mt-1 font-medium">{error}</div>
+      ) : (
+        <div className="h-5 text-xs text-amber-600 mt-1 font-medium">{warning}</div>
+      )}
+    </div>
+  );
+}
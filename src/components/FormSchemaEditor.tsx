@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { api } from '../lib/api';
+import { CUSTOM_FIELD_TYPES, FORM_FIELD_ICONS } from '../constants';
+import { FormFieldDefinition, FormSchema, FormSchemaVersion } from '../types';
+
+interface FormSchemaEditorProps {
+  schema: FormSchema;
+  version: number | null;
+  onSaved: (saved: FormSchemaVersion) => void;
+}
+
+type NumericProperty = 'min' | 'max' | 'softMin' | 'softMax' | 'softWeight';
+
+const inputClassName =
+  'text-xs font-semibold text-slate-700 bg-white border border-slate-200 rounded px-2 py-1 focus:ring-2 focus:ring-slate-900 focus:border-transparent outline-none transition-all';
+
+/** Adds, orders and configures form fields; publishing creates a new form schema version. */
+export default function FormSchemaEditor({ schema, version, onSaved }: FormSchemaEditorProps) {
+  const [fields, setFields] = useState<FormFieldDefinition[]>(schema.fields);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => setFields(schema.fields), [schema]);
+
+  const updateField = (index: number, changes: Partial<FormFieldDefinition>) => {
+    setFields(prev => prev.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const updateNumber = (index: number, property: NumericProperty, value: string) => {
+    updateField(index, { [property]: value === '' ? undefined : parseFloat(value) });
+  };
+
+  const moveField = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= fields.length) return;
+    setFields(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addField = () => {
+    const key = prompt('Key for the new field (letters and digits, e.g. workExperience):')?.trim();
+    if (!key) return;
+    if (fields.some(field => field.key === key)) {
+      alert(`A field with the key ${key} already exists.`);
+      return;
+    }
+    setFields(prev => [...prev, { key, label: key, type: 'text', icon: 'Tag', required: false }]);
+  };
+
+  const publish = async () => {
+    setIsSaving(true);
+    try {
+      // Trailing commas leave blank options while typing.
+      const cleaned = fields.map(field => (field.options ? { ...field, options: field.options.filter(Boolean) } : field));
+      onSaved(await api.saveFormSchemaVersion({ schema: { fields: cleaned } }));
+    } catch (err) {
+      alert(`Could not publish the form: ${(err as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const numberInput = (index: number, property: NumericProperty, placeholder: string) => (
+    <input
+      type="number"
+      step="any"
+      value={fields[index][property] ?? ''}
+      onChange={(e) => updateNumber(index, property, e.target.value)}
+      placeholder={placeholder}
+      className={`${inputClassName} w-20`}
+    />
+  );
+
+  return (
+    <div className="mt-6 pt-6 border-t border-slate-200">
+      <div className="flex justify-between items-center mb-3">
+        <p className="text-[9px] text-slate-400 font-semibold uppercase">Form Fields</p>
+        {version !== null && <span className="text-[10px] font-mono font-bold text-slate-400">Form v{version}</span>}
+      </div>
+      <ul className="space-y-2 mb-4">
+        {fields.map((field, index) => (
+          <li key={field.key} className="flex flex-wrap items-center gap-2 p-2 bg-white rounded border border-slate-200">
+            <div className="flex flex-col">
+              <button type="button" onClick={() => moveField(index, -1)} className="text-slate-400 hover:text-slate-900">
+                <ArrowUp size={12} />
+              </button>
+              <button type="button" onClick={() => moveField(index, 1)} className="text-slate-400 hover:text-slate-900">
+                <ArrowDown size={12} />
+              </button>
+            </div>
+            <span className="w-28 text-[10px] font-mono text-slate-400 truncate">{field.key}</span>
+            <input
+              type="text"
+              value={field.label}
+              onChange={(e) => updateField(index, { label: e.target.value })}
+              className={`${inputClassName} w-40`}
+            />
+            <select
+              value={field.icon}
+              onChange={(e) => updateField(index, { icon: e.target.value as FormFieldDefinition['icon'] })}
+              className={inputClassName}
+            >
+              {FORM_FIELD_ICONS.map(icon => <option key={icon} value={icon}>{icon}</option>)}
+            </select>
+            {field.builtIn ? (
+              <span className="text-[10px] uppercase font-bold text-slate-400">Built-in</span>
+            ) : (
+              <>
+                <select
+                  value={field.type}
+                  onChange={(e) => updateField(index, { type: e.target.value as FormFieldDefinition['type'] })}
+                  className={inputClassName}
+                >
+                  {CUSTOM_FIELD_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+                <label className="flex items-center gap-1 text-[10px] uppercase font-bold text-slate-500">
+                  <input
+                    type="checkbox"
+                    checked={!!field.required}
+                    onChange={(e) => updateField(index, { required: e.target.checked })}
+                  />
+                  Required
+                </label>
+                {field.type === 'select' && (
+                  <input
+                    type="text"
+                    value={(field.options ?? []).join(', ')}
+                    onChange={(e) => updateField(index, { options: e.target.value.split(',').map(o => o.trim()) })}
+                    placeholder="Options, comma separated"
+                    className={`${inputClassName} w-48`}
+                  />
+                )}
+                {field.type !== 'select' && field.type !== 'date' && (
+                  <>
+                    {numberInput(index, 'min', field.type === 'number' ? 'Min' : 'Min len')}
+                    {numberInput(index, 'max', field.type === 'number' ? 'Max' : 'Max len')}
+                  </>
+                )}
+                {field.type === 'number' && (
+                  <>
+                    {numberInput(index, 'softMin', 'Soft min')}
+                    {numberInput(index, 'softMax', 'Soft max')}
+                    {numberInput(index, 'softWeight', 'Weight')}
+                  </>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setFields(prev => prev.filter((_, i) => i !== index))}
+                  className="ml-auto text-slate-400 hover:text-red-600"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={addField}
+          className="px-4 py-2 bg-white text-slate-700 text-[10px] font-bold uppercase tracking-wider rounded-lg border border-slate-200 hover:bg-slate-100 transition-all flex items-center gap-1"
+        >
+          <Plus size={12} />
+          Add Field
+        </button>
+        <button
+          type="button"
+          onClick={publish}
+          disabled={isSaving}
+          className="px-4 py-2 bg-slate-900 text-white text-[10px] font-bold uppercase tracking-wider rounded-lg hover:bg-slate-800 disabled:opacity-50 transition-all shadow-sm"
+        >
+          {isSaving ? 'Publishing...' : 'Publish Form'}
+        </button>
+      </div>
+    </div>
+  );
+}
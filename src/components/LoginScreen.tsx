@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { LogIn, ShieldCheck } from 'lucide-react';
+import { api } from '../lib/api';
+import { MIN_PASSWORD_LENGTH } from '../constants';
+import { User } from '../types';
+
+interface LoginScreenProps {
+  /** True on a fresh install, where the form creates the first admin instead of signing in. */
+  needsSetup: boolean;
+  onSignedIn: (user: User) => void;
+}
+
+const inputClassName =
+  'w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none';
+
+export default function LoginScreen({ needsSetup, onSignedIn }: LoginScreenProps) {
+  const [username, setUsername] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      onSignedIn(needsSetup
+        ? await api.setup({ username, displayName, password })
+        : await api.login({ username, password }));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen py-12 px-4 bg-slate-50 flex items-start justify-center">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white shadow-xl rounded-2xl overflow-hidden border border-slate-200">
+        <div className="bg-slate-900 px-8 py-6">
+          <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+            {needsSetup ? <ShieldCheck size={24} /> : <LogIn size={24} />}
+            {needsSetup ? 'Create Admin Account' : 'Sign In'}
+          </h1>
+          <p className="text-slate-400 text-sm mt-1">
+            {needsSetup
+              ? 'No accounts exist yet. This first account manages rules and users.'
+              : 'Internal Candidate Screening & Enrollment'}
+          </p>
+        </div>
+
+        <div className="p-8 space-y-4">
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            autoComplete="username"
+            className={inputClassName}
+          />
+          {needsSetup && (
+            <input
+              type="text"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              placeholder="Full name"
+              autoComplete="name"
+              className={inputClassName}
+            />
+          )}
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder={needsSetup ? `Password (at least ${MIN_PASSWORD_LENGTH} characters)` : 'Password'}
+            autoComplete={needsSetup ? 'new-password' : 'current-password'}
+            className={inputClassName}
+          />
+          {error && <p className="text-xs text-red-600 font-medium">{error}</p>}
+          <button
+            type="submit"
+            disabled={isBusy || !username || !password}
+            className="w-full py-3 bg-slate-900 text-white font-bold rounded-xl disabled:opacity-50 disabled:cursor-not-allowed hover:bg-slate-800 transition-all"
+          >
+            {isBusy ? 'Please wait...' : needsSetup ? 'Create Account' : 'Sign In'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
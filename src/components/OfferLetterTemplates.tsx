@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../lib/api';
+import { OFFER_LETTER_PLACEHOLDERS } from '../lib/offerLetters';
+import { OFFER_LETTER_KINDS } from '../constants';
+import { OfferLetterKind, OfferLetterTemplate } from '../types';
+
+const inputClassName =
+  'text-xs font-semibold text-slate-700 bg-white border border-slate-200 rounded px-2 py-1.5 focus:ring-2 focus:ring-slate-900 focus:border-transparent outline-none transition-all';
+
+/** Edits the Cleared and Waitlisted offer letter templates; publishing creates a new template version. */
+export default function OfferLetterTemplates() {
+  const [templates, setTemplates] = useState<OfferLetterTemplate[]>([]);
+  const [kind, setKind] = useState<OfferLetterKind>('Cleared');
+  const [edits, setEdits] = useState<Partial<Record<OfferLetterKind, OfferLetterTemplate>>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    api.getOfferLetterTemplates()
+      .then(setTemplates)
+      .catch((err: Error) => alert(`Could not load offer letter templates: ${err.message}`));
+  }, []);
+
+  const saved = templates.find(template => template.kind === kind);
+  const template = edits[kind] ?? saved;
+
+  const updateTemplate = (changes: Partial<OfferLetterTemplate>) => {
+    if (!template) return;
+    setEdits(prev => ({ ...prev, [kind]: { ...template, ...changes } }));
+  };
+
+  const publish = async () => {
+    if (!template) return;
+    setIsSaving(true);
+    try {
+      const { subject, body, responseDays } = template;
+      const published = await api.saveOfferLetterTemplate(kind, { subject, body, responseDays });
+      setTemplates(prev => prev.map(t => (t.kind === kind ? published : t)));
+      setEdits(prev => ({ ...prev, [kind]: undefined }));
+    } catch (err) {
+      alert(`Could not publish the template: ${(err as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-slate-200">
+      <div className="flex justify-between items-center mb-3">
+        <p className="text-[9px] text-slate-400 font-semibold uppercase">Offer Letter Templates</p>
+        {saved && <span className="text-[10px] font-mono font-bold text-slate-400">{kind} v{saved.version}</span>}
+      </div>
+      <div className="flex gap-2 mb-3">
+        {OFFER_LETTER_KINDS.map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setKind(option)}
+            className={`px-3 py-1 text-[10px] font-bold uppercase tracking-wider rounded border transition-all ${
+              kind === option ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100'
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+
+      {!template ? (
+        <p className="text-xs text-slate-400 italic">Loading templates...</p>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={template.subject}
+              onChange={(e) => updateTemplate({ subject: e.target.value })}
+              placeholder="Subject"
+              className={`${inputClassName} flex-1`}
+            />
+            <label className="flex items-center gap-1 text-[10px] uppercase font-bold text-slate-500">
+              Respond within
+              <input
+                type="number"
+                min={1}
+                value={template.responseDays}
+                onChange={(e) => updateTemplate({ responseDays: parseInt(e.target.value, 10) || 0 })}
+                className={`${inputClassName} w-16`}
+              />
+              days
+            </label>
+          </div>
+          <textarea
+            rows={10}
+            value={template.body}
+            onChange={(e) => updateTemplate({ body: e.target.value })}
+            className={`${inputClassName} w-full font-mono font-normal`}
+          />
+          <p className="text-[10px] text-slate-500">
+            {Object.entries(OFFER_LETTER_PLACEHOLDERS).map(([name, description]) => (
+              <span key={name} className="mr-3" title={description}>
+                <code className="font-mono text-slate-700">{`{{${name}}}`}</code>
+              </span>
+            ))}
+          </p>
+          <button
+            type="button"
+            onClick={publish}
+            disabled={isSaving}
+            className="px-4 py-2 bg-slate-900 text-white text-[10px] font-bold uppercase tracking-wider rounded-lg hover:bg-slate-800 disabled:opacity-50 transition-all shadow-sm"
+          >
+            {isSaving ? 'Publishing...' : `Publish ${kind} Template`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
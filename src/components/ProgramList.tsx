@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Armchair, Layers, Plus } from 'lucide-react';
+import { api } from '../lib/api';
+import { seatsLeft } from '../lib/programs';
+import { Program, ProgramRequest } from '../types';
+
+interface ProgramListProps {
+  programs: Program[];
+  /** Admins add programs and change their seats; other roles see the seat counts only. */
+  canManage: boolean;
+  onSaved: (program: Program) => void;
+}
+
+const EMPTY_PROGRAM = { name: '', cohort: '', seats: '' };
+
+const inputClassName =
+  'w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none';
+
+/** Seat capacity per program. Each program has its own rule set, edited from the admission form. */
+export default function ProgramList({ programs, canManage, onSaved }: ProgramListProps) {
+  const [newProgram, setNewProgram] = useState(EMPTY_PROGRAM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const createProgram = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const request: ProgramRequest = { ...newProgram, seats: Number(newProgram.seats) };
+      onSaved(await api.createProgram(request));
+      setNewProgram(EMPTY_PROGRAM);
+    } catch (err) {
+      alert(`Could not create the program: ${(err as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const changeSeats = async (program: Program) => {
+    const value = prompt(
+      `Seats in ${program.name} (${program.seatsHeld} held). Added seats go to the waitlist in priority order:`,
+      String(program.seats),
+    );
+    if (value === null || !value.trim()) return;
+    try {
+      onSaved(await api.updateProgram(program.id, { seats: Number(value) }));
+    } catch (err) {
+      alert(`Could not change the seats: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-xl rounded-2xl overflow-hidden border border-slate-200">
+      <div className="bg-slate-900 px-8 py-6">
+        <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+          <Layers size={24} />
+          Programs
+        </h1>
+        <p className="text-slate-400 text-sm mt-1">
+          When a Cleared candidate declines or withdraws, the next Waitlisted candidate takes the seat
+        </p>
+      </div>
+
+      {programs.length === 0 ? (
+        <p className="p-12 text-center text-slate-400 text-sm italic">
+          No programs yet. Candidates are scored against the default rules.
+        </p>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {programs.map(program => (
+            <li key={program.id} className="px-8 py-4 space-y-2">
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex-1 min-w-[10rem]">
+                  <p className="font-semibold text-slate-900 text-sm">{program.name}</p>
+                  <p className="text-xs text-slate-500">{program.cohort}</p>
+                </div>
+                <span className="text-xs font-mono font-bold text-slate-700">
+                  {program.seatsHeld} / {program.seats} seats
+                </span>
+                <span className={`text-[10px] font-bold uppercase ${seatsLeft(program) === 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                  {seatsLeft(program)} left
+                </span>
+                <span className="text-[10px] font-bold uppercase text-amber-600">{program.waitlisted} waitlisted</span>
+                {canManage && (
+                  <button
+                    type="button"
+                    onClick={() => changeSeats(program)}
+                    className="text-[10px] uppercase tracking-wider font-bold text-slate-500 hover:text-slate-900 transition-colors flex items-center gap-1"
+                  >
+                    <Armchair size={12} />
+                    Change Seats
+                  </button>
+                )}
+              </div>
+              <div className="h-2 bg-slate-100 rounded">
+                <div
+                  className="h-2 bg-slate-900 rounded"
+                  style={{ width: `${program.seats > 0 ? Math.min(1, program.seatsHeld / program.seats) * 100 : 0}%` }}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canManage && (
+        <form onSubmit={createProgram} className="px-8 py-6 border-t border-slate-200 bg-slate-50/50 space-y-3">
+          <p className="text-[10px] uppercase tracking-widest font-bold text-slate-500">Add Program</p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="text"
+              value={newProgram.name}
+              onChange={(e) => setNewProgram(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Program name"
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              value={newProgram.cohort}
+              onChange={(e) => setNewProgram(prev => ({ ...prev, cohort: e.target.value }))}
+              placeholder="Cohort, e.g. 2026 Fall"
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              min={0}
+              value={newProgram.seats}
+              onChange={(e) => setNewProgram(prev => ({ ...prev, seats: e.target.value }))}
+              placeholder="Seats"
+              className={inputClassName}
+            />
+          </div>
+          <p className="text-[10px] text-slate-500">A new program starts with a copy of the default rules.</p>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 bg-slate-900 text-white text-[10px] font-bold uppercase tracking-wider rounded-lg hover:bg-slate-800 disabled:opacity-50 transition-all flex items-center gap-1"
+          >
+            <Plus size={12} />
+            {isSaving ? 'Adding...' : 'Add Program'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import React from 'react';
+import { OVERRIDABLE_RULE_KEYS, QUALIFICATIONS } from '../constants';
+import { OverridableRuleKey, Qualification, QualificationOverrides as Overrides, RuleConfig } from '../types';
+
+interface QualificationOverridesProps {
+  rules: RuleConfig;
+  onChange: (overrides: Overrides) => void;
+}
+
+/** Per-qualification thresholds; a blank cell falls back to the general rule above. */
+export default function QualificationOverrides({ rules, onChange }: QualificationOverridesProps) {
+  const updateOverride = (qualification: Qualification, key: OverridableRuleKey, value: string) => {
+    const override = { ...rules.qualificationOverrides[qualification] };
+    if (value === '') delete override[key];
+    else override[key] = parseFloat(value) || 0;
+
+    const overrides = { ...rules.qualificationOverrides };
+    if (Object.keys(override).length === 0) delete overrides[qualification];
+    else overrides[qualification] = override;
+    onChange(overrides);
+  };
+
+  return (
+    <div className="mb-4">
+      <p className="text-[9px] text-slate-400 font-semibold uppercase mb-2">Qualification Overrides</p>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-[9px] text-slate-400 font-semibold uppercase text-left">
+            <th className="pb-1 pr-2"></th>
+            {OVERRIDABLE_RULE_KEYS.map(key => (
+              <th key={key} className="pb-1 pr-2">{key.replace(/([A-Z])/g, ' $1')}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {QUALIFICATIONS.map(qualification => (
+            <tr key={qualification}>
+              <td className="py-0.5 pr-2 font-semibold text-slate-600">{qualification}</td>
+              {OVERRIDABLE_RULE_KEYS.map(key => (
+                <td key={key} className="py-0.5 pr-2">
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={rules.qualificationOverrides[qualification]?.[key] ?? ''}
+                    onChange={(e) => updateOverride(qualification, key, e.target.value)}
+                    placeholder={String(rules[key])}
+                    className="w-full text-xs font-mono font-bold text-slate-700 bg-white border border-slate-200 rounded px-2 py-1 placeholder:text-slate-300 placeholder:font-normal focus:ring-2 focus:ring-slate-900 focus:border-transparent outline-none transition-all"
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle2, ClipboardCheck, Send, XCircle } from 'lucide-react';
+import { api } from '../lib/api';
+import { formatTimestamp, quoteJustification, riskBadgeClassName } from '../lib/format';
+import { AuditLogEntry, CandidateRecord, ReviewDecisionType } from '../types';
+
+interface ReviewQueueProps {
+  entries: AuditLogEntry[];
+  onEntryUpdated: (entry: AuditLogEntry) => void;
+}
+
+export default function ReviewQueue({ entries, onEntryUpdated }: ReviewQueueProps) {
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [candidates, setCandidates] = useState<Record<string, CandidateRecord>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const pending = entries.filter(e => e.reviewStatus === 'Pending');
+  const approved = entries.filter(e => e.reviewStatus === 'Approved');
+  const rejected = entries.filter(e => e.reviewStatus === 'Rejected');
+
+  // Approved records show where the candidate now is in the lifecycle, which lives on the candidate, not the log.
+  useEffect(() => {
+    api.listCandidates()
+      .then(list => setCandidates(Object.fromEntries(list.map(c => [c.id, c]))))
+      .catch(() => setCandidates({}));
+  }, [approved.length]);
+
+  const submitReview = async (entry: AuditLogEntry, decision: ReviewDecisionType) => {
+    const comment = comments[entry.id] ?? '';
+    if (!comment.trim()) {
+      alert('A review comment is required.');
+      return;
+    }
+    setBusyId(entry.id);
+    try {
+      onEntryUpdated(await api.reviewAuditEntry(entry.id, { decision, comment }));
+    } catch (err) {
+      alert(`Review failed: ${(err as Error).message}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none';
+
+  return (
+    <div className="bg-white shadow-xl rounded-2xl overflow-hidden border border-slate-200">
+      <div className="bg-slate-900 px-8 py-6">
+        <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+          <ClipboardCheck size={24} />
+          Review Queue
+        </h1>
+        <p className="text-slate-400 text-sm mt-1">Second sign-off for applications flagged by risk level</p>
+      </div>
+
+      <div className="grid grid-cols-3 border-b border-slate-200">
+        {[
+          { label: 'Pending', count: pending.length, className: 'text-amber-600' },
+          { label: 'Approved', count: approved.length, className: 'text-emerald-600' },
+          { label: 'Rejected', count: rejected.length, className: 'text-red-600' },
+        ].map(({ label, count, className }) => (
+          <div key={label} className="px-8 py-4 text-center border-r border-slate-200 last:border-r-0">
+            <p className={`text-2xl font-bold ${className}`}>{count}</p>
+            <p className="text-[10px] uppercase tracking-widest font-bold text-slate-400">{label}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-8 space-y-6">
+        {pending.length === 0 ? (
+          <p className="text-center text-slate-400 text-sm italic">No applications awaiting review.</p>
+        ) : pending.map(entry => (
+          <div key={entry.id} className="p-4 rounded-xl border border-slate-200 space-y-3">
+            <div className="flex justify-between items-start">
+              <div>
+                <p className="font-semibold text-slate-900 text-sm">{entry.fullName}</p>
+                <p className="text-xs text-slate-500">{entry.email} • {entry.interviewStatus}</p>
+              </div>
+              <div className="text-right space-y-1">
+                <span className={riskBadgeClassName(entry.riskLevel)}>{entry.riskLevel}</span>
+                <p className="text-[10px] text-slate-400 font-mono">{formatTimestamp(entry.timestamp)}</p>
+              </div>
+            </div>
+
+            {entry.exceptions && entry.exceptions.length > 0 && (
+              <ul className="space-y-2 bg-amber-50 rounded-lg p-3">
+                {entry.exceptions.map(exception => (
+                  <li key={exception.ruleId} className="text-xs">
+                    <span className="font-semibold text-amber-800">{exception.message}</span>
+                    <span className="text-slate-600">
+                      {' '}— {quoteJustification(exception)} ({exception.approvedBy ? `approved by ${exception.approvedBy}` : 'approved if you approve this entry'})
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <input
+              type="text"
+              value={comments[entry.id] ?? ''}
+              onChange={(e) => setComments(prev => ({ ...prev, [entry.id]: e.target.value }))}
+              placeholder="Review comment"
+              className={inputClassName}
+            />
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                disabled={busyId === entry.id}
+                onClick={() => submitReview(entry, 'Approved')}
+                className="flex-1 py-2 bg-emerald-600 text-white text-xs font-bold rounded-lg hover:bg-emerald-700 disabled:opacity-50 transition-all flex items-center justify-center gap-2"
+              >
+                <CheckCircle2 size={14} />
+                Approve
+              </button>
+              <button
+                type="button"
+                disabled={busyId === entry.id}
+                onClick={() => submitReview(entry, 'Rejected')}
+                className="flex-1 py-2 bg-white text-red-600 text-xs font-bold rounded-lg border border-red-200 hover:bg-red-50 disabled:opacity-50 transition-all flex items-center justify-center gap-2"
+              >
+                <XCircle size={14} />
+                Reject
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {approved.length > 0 && (
+          <div>
+            <h2 className="text-[10px] uppercase tracking-widest font-bold text-slate-500 mb-3">Approved</h2>
+            <ul className="divide-y divide-slate-100">
+              {approved.map(entry => {
+                const candidate = entry.candidateId ? candidates[entry.candidateId] : undefined;
+                return (
+                  <li key={entry.id} className="py-3 flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-semibold text-slate-900">{entry.fullName}</p>
+                      <p className="text-xs text-slate-400">
+                        Approved by {entry.reviews?.[entry.reviews.length - 1]?.reviewer}
+                      </p>
+                    </div>
+                    {candidate && (
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500 flex items-center gap-1">
+                        {candidate.status === 'Offer Sent' && <Send size={12} />}
+                        {candidate.status}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import React from 'react';
+import { RiskContribution } from '../types';
+
+interface RiskBreakdownProps {
+  contributions: RiskContribution[];
+  riskScore: number;
+  /** Rule message per rule id, shown instead of the bare id when known. */
+  labels?: Record<string, string>;
+}
+
+export default function RiskBreakdown({ contributions, riskScore, labels = {} }: RiskBreakdownProps) {
+  if (contributions.length === 0) {
+    return <p className="text-xs text-slate-400 italic">No soft rules triggered; risk score 0.</p>;
+  }
+
+  return (
+    <table className="w-full text-xs">
+      <tbody>
+        {contributions.map(contribution => (
+          <tr key={contribution.ruleId} className="align-top">
+            <td className="py-0.5 pr-4 text-slate-600">{labels[contribution.ruleId] ?? contribution.ruleId}</td>
+            <td className="py-0.5 pr-4 font-mono text-slate-400 whitespace-nowrap">
+              {contribution.weight}
+              {contribution.points !== contribution.weight && contribution.shortfall !== undefined && (
+                <> × (1 + {Math.round(contribution.shortfall * 100)}% short)</>
+              )}
+            </td>
+            <td className="py-0.5 font-mono font-bold text-slate-700 text-right">{contribution.points}</td>
+          </tr>
+        ))}
+        <tr className="border-t border-slate-200">
+          <td className="pt-1 pr-4 font-semibold text-slate-700" colSpan={2}>Risk score</td>
+          <td className="pt-1 font-mono font-bold text-slate-900 text-right">{riskScore}</td>
+        </tr>
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import { api } from '../lib/api';
+import { formatTimestamp } from '../lib/format';
+import { diffRules, formatRuleChange } from '../lib/rules';
+import { RuleVersion } from '../types';
+
+interface RuleHistoryProps {
+  /** Bumped by the parent whenever a new version is saved, to trigger a reload. */
+  currentVersion: number | null;
+  /** Shows the program's rule set; the default rules without one. */
+  programId?: string;
+}
+
+export default function RuleHistory({ currentVersion, programId }: RuleHistoryProps) {
+  const [versions, setVersions] = useState<RuleVersion[]>([]);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.listRuleVersions(programId)
+      .then((list) => {
+        setVersions(list);
+        // Default to comparing the latest version with the one before it.
+        setToVersion(list[0]?.version ?? null);
+        setFromVersion(list[1]?.version ?? list[0]?.version ?? null);
+      })
+      .catch((err: Error) => setError(err.message));
+  }, [currentVersion, programId]);
+
+  const from = versions.find(v => v.version === fromVersion);
+  const to = versions.find(v => v.version === toVersion);
+  const changes = from && to ? diffRules(from.rules, to.rules) : [];
+
+  const selectClassName = 'text-xs font-mono font-bold text-slate-700 bg-white border border-slate-200 rounded px-2 py-1.5 outline-none';
+
+  if (error) {
+    return <p className="text-xs text-red-500 font-medium">Could not load rule history: {error}</p>;
+  }
+
+  return (
+    <div className="mt-4 p-4 bg-white rounded-xl border border-slate-200 space-y-4">
+      <h3 className="text-[10px] uppercase tracking-widest font-bold text-slate-500 flex items-center gap-2">
+        <History size={12} />
+        Rule Version History
+      </h3>
+
+      <ul className="max-h-40 overflow-y-auto divide-y divide-slate-100">
+        {versions.map((v) => (
+          <li key={v.version} className="py-1.5 flex justify-between text-xs">
+            <span className="font-mono font-bold text-slate-700">v{v.version}</span>
+            <span className="text-slate-500">{v.author}</span>
+            <span className="text-slate-400 font-mono">{formatTimestamp(v.createdAt)}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center gap-2 text-xs text-slate-500">
+        Compare
+        <select value={fromVersion ?? ''} onChange={(e) => setFromVersion(Number(e.target.value))} className={selectClassName}>
+          {versions.map(v => <option key={v.version} value={v.version}>v{v.version}</option>)}
+        </select>
+        with
+        <select value={toVersion ?? ''} onChange={(e) => setToVersion(Number(e.target.value))} className={selectClassName}>
+          {versions.map(v => <option key={v.version} value={v.version}>v{v.version}</option>)}
+        </select>
+      </div>
+
+      {changes.length === 0 ? (
+        <p className="text-xs text-slate-400 italic">No differences between the selected versions.</p>
+      ) : (
+        <ul className="space-y-1">
+          {changes.map(change => (
+            <li key={change.key} className="text-xs font-mono text-slate-700">{formatRuleChange(change)}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
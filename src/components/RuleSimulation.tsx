@@ -0,0 +1,86 @@
+import React from 'react';
+import { ArrowRight, FlaskConical } from 'lucide-react';
+import { RISK_LEVELS } from '../constants';
+import { riskBadgeClassName } from '../lib/format';
+import { SimulationResult } from '../types';
+
+interface RuleSimulationProps {
+  result: SimulationResult;
+}
+
+export default function RuleSimulation({ result }: RuleSimulationProps) {
+  const { evaluated, distribution, ruleFrequency, movements } = result;
+
+  return (
+    <div className="mt-4 p-4 bg-white rounded-xl border border-slate-200 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-[10px] uppercase tracking-widest font-bold text-slate-500 flex items-center gap-2">
+          <FlaskConical size={12} />
+          What-If Preview
+        </h3>
+        <span className="text-[10px] font-bold text-slate-400">
+          {movements.length} of {evaluated} candidates change risk level
+        </span>
+      </div>
+
+      {evaluated === 0 ? (
+        <p className="text-xs text-slate-400 italic">No stored submissions to evaluate.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            {RISK_LEVELS.map(level => {
+              const delta = distribution.draft[level] - distribution.current[level];
+              return (
+                <div key={level} className="p-3 bg-slate-50 rounded-lg border border-slate-100">
+                  <span className={riskBadgeClassName(level)}>{level}</span>
+                  <p className="mt-2 text-sm font-mono font-bold text-slate-700">
+                    {distribution.current[level]} → {distribution.draft[level]}
+                    {delta !== 0 && (
+                      <span className={`ml-2 text-xs ${delta > 0 ? 'text-red-500' : 'text-emerald-600'}`}>
+                        ({delta > 0 ? '+' : ''}{delta})
+                      </span>
+                    )}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          {ruleFrequency.length > 0 && (
+            <div>
+              <p className="text-[9px] text-slate-400 font-semibold uppercase mb-1">Soft rule triggers</p>
+              <ul className="space-y-1">
+                {ruleFrequency.map(({ ruleId, current, draft }) => (
+                  <li key={ruleId} className="flex justify-between text-xs font-mono text-slate-700">
+                    <span>{ruleId}</span>
+                    <span className={draft > current ? 'text-red-500' : draft < current ? 'text-emerald-600' : 'text-slate-400'}>
+                      {current} → {draft}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {movements.length > 0 && (
+            <div>
+              <p className="text-[9px] text-slate-400 font-semibold uppercase mb-1">Records that move</p>
+              <ul className="max-h-48 overflow-y-auto divide-y divide-slate-100">
+                {movements.map(m => (
+                  <li key={m.candidateId} className="py-1.5 flex items-center justify-between text-xs">
+                    <span className="font-semibold text-slate-700">{m.fullName}</span>
+                    <span className="flex items-center gap-2">
+                      <span className={riskBadgeClassName(m.from)}>{m.from}</span>
+                      <ArrowRight size={12} className="text-slate-400" />
+                      <span className={riskBadgeClassName(m.to)}>{m.to}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
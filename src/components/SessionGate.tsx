@@ -0,0 +1,41 @@
+import React, { useEffect, useState } from 'react';
+import LoginScreen from './LoginScreen';
+import { api, SESSION_EXPIRED_EVENT } from '../lib/api';
+import { SessionResponse, User } from '../types';
+
+interface SessionGateProps {
+  /** Rendered once someone is signed in; unmounted again when they sign out or the session expires. */
+  children: (user: User, signOut: () => void) => React.ReactNode;
+}
+
+export default function SessionGate({ children }: SessionGateProps) {
+  const [session, setSession] = useState<SessionResponse | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.getSession()
+      .then(setSession)
+      .catch((err: Error) => setLoadError(err.message));
+    const expire = () => setSession({ user: null, needsSetup: false });
+    window.addEventListener(SESSION_EXPIRED_EVENT, expire);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, expire);
+  }, []);
+
+  const signOut = () => {
+    api.logout()
+      .catch(() => undefined)
+      .finally(() => setSession({ user: null, needsSetup: false }));
+  };
+
+  if (!session) {
+    return (
+      <p className="min-h-screen py-12 text-center text-sm italic text-slate-400 bg-slate-50">
+        {loadError ? `Could not reach the server: ${loadError}` : 'Loading...'}
+      </p>
+    );
+  }
+  if (!session.user) {
+    return <LoginScreen needsSetup={session.needsSetup} onSignedIn={user => setSession({ user, needsSetup: false })} />;
+  }
+  return <>{children(session.user, signOut)}</>;
+}
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, UserPlus, UserCog } from 'lucide-react';
+import { api } from '../lib/api';
+import { formatTimestamp } from '../lib/format';
+import { MIN_PASSWORD_LENGTH, USER_ROLES } from '../constants';
+import { User, UserRequest, UserRole, UserUpdateRequest } from '../types';
+
+interface UserAdminProps {
+  currentUserId: string;
+}
+
+const EMPTY_USER: UserRequest = { username: '', displayName: '', role: 'screener', password: '' };
+
+const inputClassName =
+  'w-full px-3 py-2 text-sm bg-white border border-slate-200 rounded-lg focus:ring-2 focus:ring-slate-900 focus:border-transparent transition-all outline-none';
+
+/** Lists sign-in accounts; admins create them, change roles, reset passwords and deactivate them. */
+export default function UserAdmin({ currentUserId }: UserAdminProps) {
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newUser, setNewUser] = useState<UserRequest>(EMPTY_USER);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    api.listUsers()
+      .then(setUsers)
+      .catch((err: Error) => alert(`Could not load users: ${err.message}`))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const createUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const created = await api.createUser(newUser);
+      setUsers(prev => [...prev, created]);
+      setNewUser(EMPTY_USER);
+    } catch (err) {
+      alert(`Could not create the user: ${(err as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateUser = async (user: User, changes: UserUpdateRequest) => {
+    try {
+      const updated = await api.updateUser(user.id, changes);
+      setUsers(prev => prev.map(u => (u.id === updated.id ? updated : u)));
+    } catch (err) {
+      alert(`Could not update ${user.username}: ${(err as Error).message}`);
+    }
+  };
+
+  const resetPassword = (user: User) => {
+    const password = prompt(`New password for ${user.username} (signs them out everywhere):`);
+    if (!password) return;
+    updateUser(user, { password });
+  };
+
+  const toggleActive = (user: User) => {
+    if (user.active && !confirm(`Deactivate ${user.username}? They are signed out and can no longer sign in.`)) return;
+    updateUser(user, { active: !user.active });
+  };
+
+  return (
+    <div className="bg-white shadow-xl rounded-2xl overflow-hidden border border-slate-200">
+      <div className="bg-slate-900 px-8 py-6">
+        <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+          <UserCog size={24} />
+          Users
+        </h1>
+        <p className="text-slate-400 text-sm mt-1">
+          Screeners enter candidates, reviewers sign off exceptions, admins manage rules and users
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="p-12 text-center text-slate-400 text-sm italic">Loading users...</p>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {users.map(user => (
+            <li key={user.id} className={`px-8 py-4 flex flex-wrap items-center gap-4 ${user.active ? '' : 'opacity-60'}`}>
+              <div className="flex-1 min-w-[10rem]">
+                <p className="font-semibold text-slate-900 text-sm">
+                  {user.displayName}
+                  {user.id === currentUserId && (
+                    <span className="ml-2 text-[10px] font-bold uppercase text-emerald-600">You</span>
+                  )}
+                  {!user.active && <span className="ml-2 text-[10px] font-bold uppercase text-red-600">Inactive</span>}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {user.username} • added {formatTimestamp(user.createdAt)}
+                </p>
+              </div>
+              <select
+                value={user.role}
+                onChange={(e) => updateUser(user, { role: e.target.value as UserRole })}
+                className="text-xs font-semibold text-slate-700 bg-white border border-slate-200 rounded px-2 py-1.5 outline-none"
+              >
+                {USER_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+              </select>
+              <button
+                type="button"
+                onClick={() => resetPassword(user)}
+                className="text-[10px] uppercase tracking-wider font-bold text-slate-500 hover:text-slate-900 transition-colors flex items-center gap-1"
+              >
+                <KeyRound size={12} />
+                Reset Password
+              </button>
+              <button
+                type="button"
+                onClick={() => toggleActive(user)}
+                className={`text-[10px] uppercase tracking-wider font-bold transition-colors ${
+                  user.active ? 'text-red-600 hover:text-red-700' : 'text-emerald-600 hover:text-emerald-700'
+                }`}
+              >
+                {user.active ? 'Deactivate' : 'Reactivate'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={createUser} className="px-8 py-6 border-t border-slate-200 bg-slate-50/50 space-y-3">
+        <p className="text-[10px] uppercase tracking-widest font-bold text-slate-500">Add User</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input
+            type="text"
+            value={newUser.username}
+            onChange={(e) => setNewUser(prev => ({ ...prev, username: e.target.value }))}
+            placeholder="Username"
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={newUser.displayName}
+            onChange={(e) => setNewUser(prev => ({ ...prev, displayName: e.target.value }))}
+            placeholder="Full name"
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={newUser.password}
+            onChange={(e) => setNewUser(prev => ({ ...prev, password: e.target.value }))}
+            placeholder={`Password (at least ${MIN_PASSWORD_LENGTH} characters)`}
+            autoComplete="new-password"
+            className={inputClassName}
+          />
+          <select
+            value={newUser.role}
+            onChange={(e) => setNewUser(prev => ({ ...prev, role: e.target.value as UserRole }))}
+            className={inputClassName}
+          >
+            {USER_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-slate-900 text-white text-[10px] font-bold uppercase tracking-wider rounded-lg hover:bg-slate-800 disabled:opacity-50 transition-all flex items-center gap-1"
+        >
+          <UserPlus size={12} />
+          {isSaving ? 'Adding...' : 'Add User'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import {
+  CgpaScale,
+  FormFieldIcon,
+  FormFieldType,
+  FormSchema,
+  FormState,
+  InterviewStatus,
+  OfferLetterKind,
+  OfferLetterTemplateRequest,
+  OverridableRuleKey,
+  Qualification,
+  RiskLevel,
+  RuleConfig,
+  ScoreMode,
+  UserRole,
+} from './types';
+
+export const QUALIFICATIONS: Qualification[] = ['B.Tech', 'B.E.', 'B.Sc', 'BCA', 'M.Tech', 'M.Sc', 'MCA', 'MBA'];
+export const POSTGRADUATE_QUALIFICATIONS: Qualification[] = ['M.Tech', 'M.Sc', 'MCA', 'MBA'];
+export const OVERRIDABLE_RULE_KEYS: OverridableRuleKey[] = ['minPercentage', 'minScreeningScore'];
+export const CGPA_SCALES: CgpaScale[] = [4, 5, 10];
+export const SCORE_MODES: ScoreMode[] = ['Percentage', 'CGPA'];
+export const INTERVIEW_STATUSES: InterviewStatus[] = ['Cleared', 'Waitlisted', 'Rejected'];
+export const OFFER_LETTER_KINDS: OfferLetterKind[] = ['Cleared', 'Waitlisted'];
+
+export const INITIAL_STATE: FormState = {
+  fullName: '',
+  email: '',
+  phone: '',
+  dob: '',
+  qualification: '',
+  graduationYear: '',
+  score: '',
+  scoreMode: 'Percentage',
+  cgpaScale: 10,
+  screeningScore: '',
+  interviewStatus: '',
+  aadhaarNumber: '',
+  offerLetterSent: false,
+  programId: '',
+  customFields: {},
+};
+
+export const INITIAL_RULES: RuleConfig = {
+  minAge: 18,
+  maxFutureGradYears: 2,
+  minPercentage: 60,
+  minScreeningScore: 40,
+  cgpa4Multiplier: 25,
+  cgpa4Offset: 0,
+  cgpa5Multiplier: 20,
+  cgpa5Offset: 0,
+  cgpa10Multiplier: 9.5,
+  cgpa10Offset: 0,
+  minGraduationAge: 18,
+  minPostgraduateAge: 20,
+  qualificationOverrides: {},
+  minAgeWeight: 1,
+  maxFutureGradYearsWeight: 1,
+  minPercentageWeight: 1,
+  minScreeningScoreWeight: 1,
+  duplicateWeight: 1,
+  graduationAgeWeight: 1,
+  postgraduateAgeWeight: 1,
+  scaleByShortfall: false,
+  mediumRiskScore: 1,
+  highRiskScore: 3,
+  reviewMediumRisk: false
+};
+
+export const RISK_LEVELS: RiskLevel[] = ['Low', 'Medium', 'High'];
+export const USER_ROLES: UserRole[] = ['screener', 'reviewer', 'admin'];
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const MIN_JUSTIFICATION_LENGTH = 10;
+
+// Key used by the pre-server version of the app; read once for migration.
+export const LEGACY_AUDIT_LOG_KEY = 'admitguard_audit_log';
+
+/** localStorage key remembering the draft being edited, so a reload resumes it. */
+export const CURRENT_DRAFT_KEY = 'admitguard_current_draft';
+
+/** Types an admin can pick for a new field; 'score' is reserved for the built-in score widget. */
+export const CUSTOM_FIELD_TYPES: FormFieldType[] = ['text', 'email', 'tel', 'number', 'date', 'select', 'textarea'];
+
+export const FORM_FIELD_ICONS: FormFieldIcon[] = [
+  'User',
+  'Mail',
+  'Phone',
+  'Calendar',
+  'GraduationCap',
+  'Award',
+  'FileText',
+  'Fingerprint',
+  'Clock',
+  'Briefcase',
+  'MapPin',
+  'Tag',
+  'Hash',
+];
+
+/** The original admission form. Its fields are built in: their rules live in src/validation/rules.ts. */
+export const DEFAULT_FORM_SCHEMA: FormSchema = {
+  fields: [
+    { key: 'fullName', label: 'Full Name', type: 'text', icon: 'User', placeholder: 'John Doe', builtIn: true },
+    { key: 'email', label: 'Email Address', type: 'email', icon: 'Mail', placeholder: 'john@business.com', builtIn: true },
+    { key: 'phone', label: 'Phone Number', type: 'tel', icon: 'Phone', placeholder: '9876543210', builtIn: true },
+    { key: 'dob', label: 'Date of Birth', type: 'date', icon: 'Calendar', builtIn: true },
+    {
+      key: 'qualification',
+      label: 'Highest Qualification',
+      type: 'select',
+      icon: 'GraduationCap',
+      placeholder: 'Select Qualification',
+      options: QUALIFICATIONS,
+      builtIn: true,
+    },
+    { key: 'graduationYear', label: 'Graduation Year', type: 'number', icon: 'Calendar', placeholder: '2023', builtIn: true },
+    { key: 'score', label: 'Score', type: 'score', icon: 'Award', builtIn: true },
+    {
+      key: 'screeningScore',
+      label: 'Screening Test Score (0-100)',
+      type: 'number',
+      icon: 'FileText',
+      placeholder: '80',
+      builtIn: true,
+    },
+    {
+      key: 'aadhaarNumber',
+      label: 'Aadhaar Number',
+      type: 'text',
+      icon: 'Fingerprint',
+      placeholder: '0000 0000 0000',
+      builtIn: true,
+    },
+    {
+      key: 'interviewStatus',
+      label: 'Interview Status',
+      type: 'select',
+      icon: 'Clock',
+      placeholder: 'Select Status',
+      options: INTERVIEW_STATUSES,
+      builtIn: true,
+    },
+  ],
+};
+
+/** Seeds version 1 of each offer letter template on a fresh database. */
+export const DEFAULT_OFFER_LETTER_TEMPLATES: Record<OfferLetterKind, OfferLetterTemplateRequest> = {
+  Cleared: {
+    subject: 'Offer of Admission',
+    body: [
+      '{{issueDate}}',
+      'Dear {{fullName}},',
+      'We are pleased to offer you admission following your successful interview. Your {{qualification}} ({{graduationYear}}) and your performance in the selection process met all of our requirements.',
+      'Please confirm your acceptance by {{respondBy}}. After that date the seat may be offered to another candidate.',
+      'We look forward to welcoming you.',
+      'Admissions Office',
+    ].join('\n\n'),
+    responseDays: 14,
+  },
+  Waitlisted: {
+    subject: 'Conditional Offer of Admission (Waitlist)',
+    body: [
+      '{{issueDate}}',
+      'Dear {{fullName}},',
+      'Thank you for interviewing with us. You have been placed on our waitlist, and we are offering you admission subject to a seat becoming available.',
+      'If you wish to keep your place, please confirm by {{respondBy}}. We will write to you again as soon as a seat is confirmed.',
+      'Admissions Office',
+    ].join('\n\n'),
+    responseDays: 7,
+  },
+};
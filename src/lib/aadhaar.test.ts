@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { isValidVerhoeff, maskAadhaar } from './aadhaar';
+
+describe('isValidVerhoeff', () => {
+  it('accepts numbers whose last digit is their check digit', () => {
+    for (const digits of ['456789012341', '567890123458', '678901234560', '234567890124', '2363']) {
+      expect(isValidVerhoeff(digits)).toBe(true);
+    }
+  });
+
+  it('rejects a wrong check digit', () => {
+    expect(isValidVerhoeff('456789012342')).toBe(false);
+    expect(isValidVerhoeff('2364')).toBe(false);
+  });
+
+  it('catches a single changed digit and swapped neighbours', () => {
+    expect(isValidVerhoeff('456789012351')).toBe(false);
+    expect(isValidVerhoeff('546789012341')).toBe(false);
+  });
+});
+
+describe('maskAadhaar', () => {
+  it('keeps only the last four digits', () => {
+    expect(maskAadhaar('456789012341')).toBe('XXXX-XXXX-2341');
+  });
+
+  it('masks anything that is not 12 digits completely', () => {
+    expect(maskAadhaar('4567890123')).toBe('XXXX-XXXX-XXXX');
+    expect(maskAadhaar('')).toBe('XXXX-XXXX-XXXX');
+  });
+});
@@ -0,0 +1,41 @@
+// Verhoeff tables: multiplication in the dihedral group D5 and the position
+// permutation. See https://en.wikipedia.org/wiki/Verhoeff_algorithm
+const D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+const P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 7, 6, 8, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/** True when the last digit of `digits` is a valid Verhoeff check digit. */
+export function isValidVerhoeff(digits: string): boolean {
+  let c = 0;
+  const reversed = digits.split('').reverse();
+  for (let i = 0; i < reversed.length; i++) {
+    c = D[c][P[i % 8][Number(reversed[i])]];
+  }
+  return c === 0;
+}
+
+/** "234123412346" → "XXXX-XXXX-2346". Anything that is not 12 digits is fully masked. */
+export function maskAadhaar(aadhaarNumber: string): string {
+  if (!/^\d{12}$/.test(aadhaarNumber)) return 'XXXX-XXXX-XXXX';
+  return `XXXX-XXXX-${aadhaarNumber.slice(-4)}`;
+}
@@ -0,0 +1,30 @@
+import { INITIAL_STATE } from '../constants';
+import { FieldKey, FormState } from '../types';
+
+export interface FieldDifference {
+  field: FieldKey;
+  from: string;
+  to: string;
+}
+
+/**
+ * Lists the fields whose values differ between two versions of a candidate,
+ * custom fields included. Values are compared and reported as strings.
+ */
+export function diffFormStates(before: FormState, after: FormState): FieldDifference[] {
+  const changes: FieldDifference[] = [];
+  for (const key of Object.keys(INITIAL_STATE) as Array<keyof FormState>) {
+    if (key === 'customFields') continue;
+    const from = String(before[key] ?? '');
+    const to = String(after[key] ?? '');
+    if (from !== to) changes.push({ field: key, from, to });
+  }
+
+  const customKeys = new Set([...Object.keys(before.customFields), ...Object.keys(after.customFields)]);
+  for (const key of customKeys) {
+    const from = before.customFields[key] ?? '';
+    const to = after.customFields[key] ?? '';
+    if (from !== to) changes.push({ field: `customFields.${key}`, from, to });
+  }
+  return changes;
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_STATE } from '../constants';
+import { AuditLogEntry, CandidateRecord, CandidateStatus, FormState, GrantedException } from '../types';
+import { computeAnalytics, parseAnalyticsParams } from './analytics';
+
+function candidate(id: string, statuses: CandidateStatus[], changes: Partial<FormState> = {}): CandidateRecord {
+  return {
+    ...INITIAL_STATE,
+    qualification: 'B.Tech',
+    ...changes,
+    id,
+    status: statuses[statuses.length - 1],
+    statusHistory: statuses.map((to, i) => ({
+      from: i === 0 ? null : statuses[i - 1],
+      to,
+      changedBy: 'admin',
+      note: '',
+      timestamp: '2026-03-02T10:00:00.000Z',
+    })),
+    aadhaarAccessLog: [],
+    amendments: [],
+    offerLetters: [],
+    normalizedPercentage: null,
+    formVersion: 1,
+    createdAt: '2026-03-02T10:00:00.000Z',
+  };
+}
+
+function entry(candidateId: string, changes: Partial<AuditLogEntry> = {}): AuditLogEntry {
+  return {
+    id: `entry-${candidateId}`,
+    candidateId,
+    kind: 'Submission',
+    fullName: '',
+    email: '',
+    interviewStatus: '',
+    exceptionCount: 0,
+    riskLevel: 'Low',
+    exceptions: [],
+    reviewStatus: 'Not Required',
+    timestamp: '2026-03-02T10:00:00.000Z',
+    ...changes,
+  };
+}
+
+const exception = (ruleId: string): GrantedException =>
+  ({ ruleId, field: 'score', message: `${ruleId} message`, justification: 'Reviewed the transcript' });
+
+const candidates = [
+  candidate('a', ['Applied']),
+  candidate('b', ['Interviewed', 'Cleared', 'Offer Sent', 'Offer Accepted', 'Enrolled'], {
+    interviewStatus: 'Cleared',
+  }),
+  candidate('c', ['Waitlisted'], { interviewStatus: 'Waitlisted', qualification: 'MBA' }),
+  candidate('d', ['Rejected'], { interviewStatus: 'Rejected' }),
+];
+
+describe('computeAnalytics', () => {
+  it('follows the funnel through status history, converting from the stage before', () => {
+    const { funnel, offerRate, interviewOutcomes } = computeAnalytics([], candidates, {});
+    expect(funnel.map(stage => [stage.stage, stage.count])).toEqual([
+      ['Submitted', 4],
+      ['Interviewed', 2],
+      ['Cleared or Waitlisted', 2],
+      ['Offer Sent', 1],
+      ['Offer Accepted', 1],
+      ['Enrolled', 1],
+    ]);
+    expect(funnel[0].conversion).toBeNull();
+    expect(funnel[1].conversion).toBe(0.5);
+    expect(offerRate).toEqual({ eligible: 2, sent: 1, rate: 0.5 });
+    expect(interviewOutcomes).toEqual({ Cleared: 1, Waitlisted: 1, Rejected: 1 });
+  });
+
+  it('counts exceptions per scored submission, most frequent first', () => {
+    const entries = [
+      entry('a', { exceptions: [exception('score.min'), exception('age.max')] }),
+      entry('b', { exceptions: [exception('score.min')] }),
+      entry('c'),
+      // Legacy entries recorded no exceptions and stay out of the rate.
+      entry('d', { exceptions: undefined }),
+      // Amendments re-score a record that is already counted.
+      entry('a', { kind: 'Amendment', exceptions: [exception('score.min')] }),
+    ];
+    const { submissionCount, exceptionFrequency } = computeAnalytics(entries, candidates, {});
+    expect(submissionCount).toBe(4);
+    expect(exceptionFrequency).toEqual([
+      { ruleId: 'score.min', message: 'score.min message', count: 2, rate: 2 / 3 },
+      { ruleId: 'age.max', message: 'age.max message', count: 1, rate: 1 / 3 },
+    ]);
+  });
+
+  it('buckets risk by day over short spans, including empty days', () => {
+    const entries = [
+      entry('a', { timestamp: '2026-03-01T08:00:00.000Z', riskLevel: 'High' }),
+      entry('b', { timestamp: '2026-03-03T08:00:00.000Z' }),
+    ];
+    const { interval, riskOverTime } = computeAnalytics(entries, candidates, {});
+    expect(interval).toBe('day');
+    expect(riskOverTime).toEqual([
+      { start: '2026-03-01', counts: { Low: 0, Medium: 0, High: 1 } },
+      { start: '2026-03-02', counts: { Low: 0, Medium: 0, High: 0 } },
+      { start: '2026-03-03', counts: { Low: 1, Medium: 0, High: 0 } },
+    ]);
+  });
+
+  it('switches to Monday-based weeks over longer spans', () => {
+    const entries = [
+      entry('a', { timestamp: '2026-03-04T08:00:00.000Z' }),
+      entry('b', { timestamp: '2026-04-20T08:00:00.000Z' }),
+    ];
+    const { interval, riskOverTime } = computeAnalytics(entries, candidates, {});
+    expect(interval).toBe('week');
+    expect(riskOverTime[0].start).toBe('2026-03-02');
+    expect(riskOverTime[riskOverTime.length - 1].start).toBe('2026-04-20');
+  });
+
+  it('filters by date range and qualification', () => {
+    const entries = [entry('a'), entry('c'), entry('b', { timestamp: '2026-02-01T08:00:00.000Z' })];
+    expect(computeAnalytics(entries, candidates, { from: '2026-03-01' }).submissionCount).toBe(2);
+    const mba = computeAnalytics(entries, candidates, { qualification: 'MBA' });
+    expect(mba.submissionCount).toBe(1);
+    expect(mba.funnel[0].count).toBe(1);
+  });
+});
+
+describe('parseAnalyticsParams', () => {
+  it('keeps well-formed dates and known qualifications only', () => {
+    expect(parseAnalyticsParams({ from: '2026-03-01', to: '03/31/2026', qualification: 'PhD' }))
+      .toEqual({ from: '2026-03-01' });
+    expect(parseAnalyticsParams({ qualification: 'MBA' })).toEqual({ qualification: 'MBA' });
+  });
+});
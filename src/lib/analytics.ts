@@ -0,0 +1,158 @@
+import { INTERVIEW_STATUSES, QUALIFICATIONS, RISK_LEVELS } from '../constants';
+import {
+  AdmissionsAnalytics,
+  AnalyticsFilters,
+  AnalyticsInterval,
+  AuditLogEntry,
+  CandidateRecord,
+  CandidateStatus,
+  ExceptionFrequency,
+  FunnelStage,
+  InterviewStatus,
+  Qualification,
+  RiskLevel,
+  RiskPeriod,
+} from '../types';
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A candidate has reached a stage once their history holds any of its statuses;
+// later statuses count too, since records can enter the lifecycle part-way.
+const FUNNEL_STAGES: Array<{ stage: string; statuses: CandidateStatus[] | null }> = [
+  { stage: 'Submitted', statuses: null },
+  {
+    stage: 'Interviewed',
+    statuses: ['Interviewed', 'Cleared', 'Waitlisted', 'Offer Sent', 'Offer Accepted', 'Offer Declined', 'Enrolled'],
+  },
+  {
+    stage: 'Cleared or Waitlisted',
+    statuses: ['Cleared', 'Waitlisted', 'Offer Sent', 'Offer Accepted', 'Offer Declined', 'Enrolled'],
+  },
+  { stage: 'Offer Sent', statuses: ['Offer Sent', 'Offer Accepted', 'Offer Declined', 'Enrolled'] },
+  { stage: 'Offer Accepted', statuses: ['Offer Accepted', 'Enrolled'] },
+  { stage: 'Enrolled', statuses: ['Enrolled'] },
+];
+
+export function toAnalyticsParams(filters: AnalyticsFilters): Record<string, string> {
+  return Object.fromEntries(Object.entries(filters).filter(([, value]) => value));
+}
+
+/** Keeps well-formed values only; anything else is ignored rather than rejected. */
+export function parseAnalyticsParams(params: Record<string, unknown>): AnalyticsFilters {
+  const filters: AnalyticsFilters = {};
+  if (typeof params.from === 'string' && DATE_REGEX.test(params.from)) filters.from = params.from;
+  if (typeof params.to === 'string' && DATE_REGEX.test(params.to)) filters.to = params.to;
+  if (QUALIFICATIONS.includes(params.qualification as Qualification)) {
+    filters.qualification = params.qualification as Qualification;
+  }
+  return filters;
+}
+
+function inRange(timestamp: string, { from, to }: AnalyticsFilters): boolean {
+  // Legacy entries may hold locale-formatted timestamps; they have no place on a timeline.
+  if (!/^\d{4}-\d{2}-\d{2}/.test(timestamp)) return false;
+  const day = timestamp.slice(0, 10);
+  return (!from || day >= from) && (!to || day <= to);
+}
+
+function pickInterval(firstDay: string, lastDay: string): AnalyticsInterval {
+  const days = (Date.parse(lastDay) - Date.parse(firstDay)) / DAY_MS;
+  return days <= 31 ? 'day' : days <= 26 * 7 ? 'week' : 'month';
+}
+
+/** First day of the bucket holding `day`; weeks start on Monday. */
+function bucketStart(day: string, interval: AnalyticsInterval): string {
+  if (interval === 'day') return day;
+  if (interval === 'month') return `${day.slice(0, 7)}-01`;
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+function nextBucket(start: string, interval: AnalyticsInterval): string {
+  const date = new Date(`${start}T00:00:00Z`);
+  if (interval === 'month') date.setUTCMonth(date.getUTCMonth() + 1);
+  else date.setUTCDate(date.getUTCDate() + (interval === 'week' ? 7 : 1));
+  return date.toISOString().slice(0, 10);
+}
+
+/** One bucket per period from the first submission to the last, including empty ones. */
+function riskOverTime(entries: AuditLogEntry[]): { interval: AnalyticsInterval; periods: RiskPeriod[] } {
+  const days = entries.map(entry => entry.timestamp.slice(0, 10)).sort();
+  if (days.length === 0) return { interval: 'day', periods: [] };
+  const interval = pickInterval(days[0], days[days.length - 1]);
+  const periods = new Map<string, Record<RiskLevel, number>>();
+  const last = bucketStart(days[days.length - 1], interval);
+  for (let start = bucketStart(days[0], interval); start <= last; start = nextBucket(start, interval)) {
+    periods.set(start, Object.fromEntries(RISK_LEVELS.map(level => [level, 0])) as Record<RiskLevel, number>);
+  }
+  for (const entry of entries) {
+    periods.get(bucketStart(entry.timestamp.slice(0, 10), interval))![entry.riskLevel]++;
+  }
+  return { interval, periods: [...periods].map(([start, counts]) => ({ start, counts })) };
+}
+
+/** Entries scored before exceptions were recorded are left out of the denominator. */
+function exceptionFrequency(entries: AuditLogEntry[]): ExceptionFrequency[] {
+  const scored = entries.filter(entry => entry.exceptions !== undefined);
+  const byRule = new Map<string, ExceptionFrequency>();
+  for (const entry of scored) {
+    for (const exception of entry.exceptions!) {
+      const count = (byRule.get(exception.ruleId)?.count ?? 0) + 1;
+      // Entries are oldest first, so the message reflects the latest thresholds.
+      byRule.set(exception.ruleId, { ruleId: exception.ruleId, message: exception.message, count, rate: 0 });
+    }
+  }
+  return [...byRule.values()]
+    .map(frequency => ({ ...frequency, rate: frequency.count / scored.length }))
+    .sort((a, b) => b.count - a.count || a.ruleId.localeCompare(b.ruleId));
+}
+
+function funnel(candidates: CandidateRecord[]): FunnelStage[] {
+  const stages: FunnelStage[] = [];
+  for (const { stage, statuses } of FUNNEL_STAGES) {
+    const count = statuses
+      ? candidates.filter(c => c.statusHistory.some(change => statuses.includes(change.to))).length
+      : candidates.length;
+    const previous = stages[stages.length - 1];
+    stages.push({ stage, count, conversion: previous && previous.count > 0 ? count / previous.count : null });
+  }
+  return stages;
+}
+
+/**
+ * Aggregates stored submissions and candidates for the dashboard. Risk and
+ * exceptions come from submission entries in the audit log (amendments re-score
+ * a record and would count it twice); the funnel follows candidate status history.
+ */
+export function computeAnalytics(
+  entries: AuditLogEntry[],
+  candidates: CandidateRecord[],
+  filters: AnalyticsFilters,
+): AdmissionsAnalytics {
+  const qualificationOf = new Map(candidates.map(c => [c.id, c.qualification]));
+  const matchesQualification = (candidateId: string | undefined) =>
+    !filters.qualification || (!!candidateId && qualificationOf.get(candidateId) === filters.qualification);
+
+  const submissions = entries.filter(entry =>
+    entry.kind === 'Submission' && inRange(entry.timestamp, filters) && matchesQualification(entry.candidateId));
+  const cohort = candidates.filter(c => inRange(c.createdAt, filters) && matchesQualification(c.id));
+
+  const { interval, periods } = riskOverTime(submissions);
+  const stages = funnel(cohort);
+  const eligible = stages.find(s => s.stage === 'Cleared or Waitlisted')!.count;
+  const sent = stages.find(s => s.stage === 'Offer Sent')!.count;
+
+  return {
+    submissionCount: submissions.length,
+    interval,
+    riskOverTime: periods,
+    exceptionFrequency: exceptionFrequency(submissions),
+    funnel: stages,
+    interviewOutcomes: Object.fromEntries(
+      INTERVIEW_STATUSES.map(status => [status, cohort.filter(c => c.interviewStatus === status).length]),
+    ) as Record<InterviewStatus, number>,
+    offerRate: { eligible, sent, rate: eligible > 0 ? sent / eligible : null },
+  };
+}
@@ -0,0 +1,165 @@
+import { toAnalyticsParams } from './analytics';
+import { toFilterParams } from './auditFilters';
+import {
+  AadhaarRevealRequest,
+  AdmissionsAnalytics,
+  AnalyticsFilters,
+  AadhaarRevealResponse,
+  ApiKey,
+  ApiKeyRequest,
+  AmendmentRequest,
+  ArchiveRequest,
+  AuditArchive,
+  AuditChainReport,
+  AuditExportFormat,
+  AuditExportRequest,
+  AuditLogEntry,
+  AuditLogFilters,
+  CandidateRecord,
+  CreatedApiKey,
+  DuplicateCluster,
+  Draft,
+  DraftSummary,
+  DuplicateMatch,
+  FormSchemaVersion,
+  FormSchemaVersionRequest,
+  FormState,
+  ImportPreviewRow,
+  ImportRowResult,
+  LoginRequest,
+  OfferLetterKind,
+  OfferLetterTemplate,
+  OfferLetterTemplateRequest,
+  Program,
+  ProgramRequest,
+  ReviewRequest,
+  RuleConfig,
+  RuleVersion,
+  RuleVersionRequest,
+  SessionResponse,
+  SetupRequest,
+  SimulationResult,
+  SubmissionRequest,
+  SubmissionResponse,
+  TransitionRequest,
+  User,
+  UserRequest,
+  UserUpdateRequest,
+} from '../types';
+
+/** Dispatched on window when the server rejects a request because the session has ended. */
+export const SESSION_EXPIRED_EVENT = 'admitguard:session-expired';
+
+async function send(path: string, init?: RequestInit): Promise<Response> {
+  const res = await fetch(`/api${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  if (!res.ok) {
+    // A wrong password on the sign-in form is not an expired session.
+    if (res.status === 401 && !path.startsWith('/auth/')) window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Request failed with status ${res.status}`);
+  }
+  return res;
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const res = await send(path, init);
+  return res.status === 204 ? (undefined as T) : res.json();
+}
+
+const programQuery = (programId?: string) => (programId ? `?${new URLSearchParams({ programId })}` : '');
+
+export const api = {
+  getSession: () => request<SessionResponse>('/auth/session'),
+  login: (credentials: LoginRequest) =>
+    request<User>('/auth/login', { method: 'POST', body: JSON.stringify(credentials) }),
+  logout: () => request<void>('/auth/logout', { method: 'POST' }),
+  setup: (admin: SetupRequest) => request<User>('/auth/setup', { method: 'POST', body: JSON.stringify(admin) }),
+
+  listUsers: () => request<User[]>('/users'),
+  createUser: (user: UserRequest) => request<User>('/users', { method: 'POST', body: JSON.stringify(user) }),
+  updateUser: (id: string, changes: UserUpdateRequest) =>
+    request<User>(`/users/${id}`, { method: 'PATCH', body: JSON.stringify(changes) }),
+  listApiKeys: () => request<ApiKey[]>('/api-keys'),
+  createApiKey: (apiKey: ApiKeyRequest) =>
+    request<CreatedApiKey>('/api-keys', { method: 'POST', body: JSON.stringify(apiKey) }),
+  revokeApiKey: (id: string) => request<ApiKey>(`/api-keys/${id}/revoke`, { method: 'POST' }),
+
+  listCandidates: () => request<CandidateRecord[]>('/candidates'),
+  getCandidate: (id: string) => request<CandidateRecord>(`/candidates/${id}`),
+  findDuplicates: (candidate: FormState, excludeId?: string) =>
+    request<DuplicateMatch[]>('/candidates/duplicates', {
+      method: 'POST',
+      body: JSON.stringify({ candidate, excludeId }),
+    }),
+  listDuplicateClusters: () => request<DuplicateCluster[]>('/candidates/duplicate-clusters'),
+  submitCandidate: (submission: SubmissionRequest) =>
+    request<SubmissionResponse>('/candidates', { method: 'POST', body: JSON.stringify(submission) }),
+  previewImport: (candidates: FormState[]) =>
+    request<ImportPreviewRow[]>('/candidates/import/preview', { method: 'POST', body: JSON.stringify({ candidates }) }),
+  importCandidates: (rows: SubmissionRequest[]) =>
+    request<ImportRowResult[]>('/candidates/import', { method: 'POST', body: JSON.stringify({ rows }) }),
+  revealAadhaar: (id: string, body: AadhaarRevealRequest) =>
+    request<AadhaarRevealResponse>(`/candidates/${id}/aadhaar`, { method: 'POST', body: JSON.stringify(body) }),
+  amendCandidate: (id: string, amendment: AmendmentRequest) =>
+    request<SubmissionResponse>(`/candidates/${id}/amendments`, { method: 'POST', body: JSON.stringify(amendment) }),
+  transitionCandidate: (id: string, transition: TransitionRequest) =>
+    request<CandidateRecord>(`/candidates/${id}/transitions`, { method: 'POST', body: JSON.stringify(transition) }),
+  sendOfferLetter: (id: string) => request<CandidateRecord>(`/candidates/${id}/offer-letters`, { method: 'POST' }),
+  /** Plain URLs so the browser can open the letter and print or save it as PDF. */
+  offerLetterPreviewUrl: (id: string) => `/api/candidates/${id}/offer-letters/preview`,
+  offerLetterUrl: (id: string, version: number) => `/api/candidates/${id}/offer-letters/${version}`,
+
+  listDrafts: () => request<DraftSummary[]>('/drafts'),
+  getDraft: (id: string) => request<Draft>(`/drafts/${id}`),
+  saveDraft: (id: string, data: FormState) =>
+    request<Draft>(`/drafts/${id}`, { method: 'PUT', body: JSON.stringify({ data }) }),
+  deleteDraft: (id: string) => request<void>(`/drafts/${id}`, { method: 'DELETE' }),
+
+  listAuditLog: () => request<AuditLogEntry[]>('/audit'),
+  importAuditLog: (entries: AuditLogEntry[]) =>
+    request<{ imported: number }>('/audit/import', { method: 'POST', body: JSON.stringify({ entries }) }),
+  reviewAuditEntry: (id: string, review: ReviewRequest) =>
+    request<AuditLogEntry>(`/audit/${id}/review`, { method: 'POST', body: JSON.stringify(review) }),
+  /** A plain URL so the browser can download or open the masked export directly. */
+  auditExportUrl: (format: AuditExportFormat, filters: AuditLogFilters) =>
+    `/api/audit/export?${new URLSearchParams({ format, ...toFilterParams(filters) })}`,
+  /** The export with full Aadhaar numbers, as text; it is POSTed, so there is no URL to open. */
+  exportUnmaskedAuditLog: async (format: AuditExportFormat, filters: AuditLogFilters, reason: string) => {
+    const body: AuditExportRequest = { format, filters: toFilterParams(filters), reason };
+    const res = await send('/audit/export', { method: 'POST', body: JSON.stringify(body) });
+    return res.text();
+  },
+  verifyAuditLog: () => request<AuditChainReport>('/audit/verify'),
+  listAuditArchives: () => request<AuditArchive[]>('/audit/archives'),
+  archiveAuditLog: (archive: ArchiveRequest) =>
+    request<AuditArchive>('/audit/archives', { method: 'POST', body: JSON.stringify(archive) }),
+
+  getAnalytics: (filters: AnalyticsFilters) =>
+    request<AdmissionsAnalytics>(`/analytics?${new URLSearchParams(toAnalyticsParams(filters))}`),
+
+  listPrograms: () => request<Program[]>('/programs'),
+  createProgram: (program: ProgramRequest) =>
+    request<Program>('/programs', { method: 'POST', body: JSON.stringify(program) }),
+  updateProgram: (id: string, changes: Partial<ProgramRequest>) =>
+    request<Program>(`/programs/${id}`, { method: 'PATCH', body: JSON.stringify(changes) }),
+
+  /** Without a program these address the default rules. */
+  getCurrentRules: (programId?: string) => request<RuleVersion>(`/rules${programQuery(programId)}`),
+  listRuleVersions: (programId?: string) => request<RuleVersion[]>(`/rules/versions${programQuery(programId)}`),
+  saveRuleVersion: (body: RuleVersionRequest) =>
+    request<RuleVersion>('/rules/versions', { method: 'POST', body: JSON.stringify(body) }),
+  simulateRules: (rules: RuleConfig, programId?: string) =>
+    request<SimulationResult>('/rules/simulate', { method: 'POST', body: JSON.stringify({ rules, programId }) }),
+
+  getCurrentFormSchema: () => request<FormSchemaVersion>('/form-schema'),
+  listFormSchemaVersions: () => request<FormSchemaVersion[]>('/form-schema/versions'),
+  saveFormSchemaVersion: (body: FormSchemaVersionRequest) =>
+    request<FormSchemaVersion>('/form-schema/versions', { method: 'POST', body: JSON.stringify(body) }),
+
+  getOfferLetterTemplates: () => request<OfferLetterTemplate[]>('/offer-letter-templates'),
+  saveOfferLetterTemplate: (kind: OfferLetterKind, body: OfferLetterTemplateRequest) =>
+    request<OfferLetterTemplate>(`/offer-letter-templates/${kind}/versions`, { method: 'POST', body: JSON.stringify(body) }),
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { AuditLogEntry } from '../types';
+import {
+  DEFAULT_AUDIT_VIEW,
+  filterAuditLog,
+  parseFilterParams,
+  parseViewParams,
+  sortAuditLog,
+  toFilterParams,
+  toViewParams,
+} from './auditFilters';
+
+function entry(id: string, changes: Partial<AuditLogEntry> = {}): AuditLogEntry {
+  return {
+    id,
+    kind: 'Submission',
+    fullName: 'Asha Rao',
+    email: 'asha@example.com',
+    interviewStatus: 'Cleared',
+    exceptionCount: 0,
+    riskLevel: 'Low',
+    reviewStatus: 'Not Required',
+    timestamp: '2026-03-10T09:00:00.000Z',
+    ...changes,
+  };
+}
+
+const ids = (entries: AuditLogEntry[]) => entries.map(e => e.id);
+
+describe('filterAuditLog', () => {
+  const log = [
+    entry('a'),
+    entry('b', { fullName: 'Ravi Kumar', email: 'ravi@example.com', riskLevel: 'High', exceptionCount: 3 }),
+    entry('c', { reviewStatus: 'Pending', exceptionCount: 1, timestamp: '2026-03-12T18:30:00.000Z' }),
+    entry('d', { timestamp: '3/11/2026, 10:00:00 AM' }),
+  ];
+
+  it('searches name and email without regard to case', () => {
+    expect(ids(filterAuditLog(log, { search: ' RAVI ' }))).toEqual(['b']);
+    expect(ids(filterAuditLog(log, { search: 'asha@' }))).toEqual(['a', 'c', 'd']);
+  });
+
+  it('matches risk level and review status exactly', () => {
+    expect(ids(filterAuditLog(log, { riskLevel: 'High' }))).toEqual(['b']);
+    expect(ids(filterAuditLog(log, { reviewStatus: 'Pending' }))).toEqual(['c']);
+  });
+
+  it('bounds the exception count at both ends, inclusively', () => {
+    expect(ids(filterAuditLog(log, { minExceptions: 1 }))).toEqual(['b', 'c']);
+    expect(ids(filterAuditLog(log, { minExceptions: 1, maxExceptions: 1 }))).toEqual(['c']);
+    expect(ids(filterAuditLog(log, { maxExceptions: 0 }))).toEqual(['a', 'd']);
+  });
+
+  it('compares whole days, and leaves out legacy timestamps once a range is set', () => {
+    expect(ids(filterAuditLog(log, { from: '2026-03-12' }))).toEqual(['c']);
+    expect(ids(filterAuditLog(log, { to: '2026-03-10' }))).toEqual(['a', 'b']);
+    expect(ids(filterAuditLog(log, {}))).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
+
+describe('sortAuditLog', () => {
+  it('orders risk levels by severity', () => {
+    const log = [entry('a', { riskLevel: 'Medium' }), entry('b', { riskLevel: 'High' }), entry('c')];
+    expect(ids(sortAuditLog(log, 'riskLevel', 'desc'))).toEqual(['b', 'a', 'c']);
+    expect(ids(sortAuditLog(log, 'riskLevel', 'asc'))).toEqual(['c', 'a', 'b']);
+  });
+
+  it('keeps the original order for ties', () => {
+    const log = [entry('a'), entry('b'), entry('c')];
+    expect(ids(sortAuditLog(log, 'fullName', 'asc'))).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('parseFilterParams', () => {
+  it('keeps non-empty text filters', () => {
+    expect(parseFilterParams({ search: 'asha', riskLevel: '', from: '2026-01-01' }))
+      .toEqual({ search: 'asha', from: '2026-01-01' });
+  });
+
+  it('keeps exception counts that are whole numbers of zero or more', () => {
+    expect(parseFilterParams({ minExceptions: '0', maxExceptions: '2' })).toEqual({ minExceptions: 0, maxExceptions: 2 });
+    expect(parseFilterParams({ minExceptions: '-1', maxExceptions: '1.5' })).toEqual({});
+    expect(parseFilterParams({ minExceptions: 'many' })).toEqual({});
+  });
+
+  it('ignores keys that are not filters and values that are not strings', () => {
+    expect(parseFilterParams({ sort: 'fullName', search: ['a', 'b'] })).toEqual({});
+  });
+
+  it('reads back what toFilterParams writes', () => {
+    const filters = { search: 'rao', riskLevel: 'High', minExceptions: 0, to: '2026-03-31' } as const;
+    expect(parseFilterParams(toFilterParams(filters))).toEqual(filters);
+  });
+});
+
+describe('view params', () => {
+  it('writes only what differs from the default view', () => {
+    expect(toViewParams(DEFAULT_AUDIT_VIEW).toString()).toBe('');
+    expect(toViewParams({ ...DEFAULT_AUDIT_VIEW, sort: 'fullName', page: 2 }).toString()).toBe('sort=fullName&page=2');
+  });
+
+  it('falls back to the defaults for unknown sorts, directions and pages', () => {
+    expect(parseViewParams(new URLSearchParams('sort=email&direction=up&page=0'))).toEqual(DEFAULT_AUDIT_VIEW);
+  });
+});
@@ -0,0 +1,98 @@
+import { RISK_LEVELS } from '../constants';
+import { AuditLogEntry, AuditLogFilters, AuditLogView, AuditSortKey, SortDirection } from '../types';
+
+const TEXT_FILTER_KEYS = ['search', 'riskLevel', 'interviewStatus', 'reviewStatus', 'from', 'to'] as const;
+const NUMBER_FILTER_KEYS = ['minExceptions', 'maxExceptions'] as const;
+const SORT_KEYS: AuditSortKey[] = ['timestamp', 'fullName', 'riskLevel', 'exceptionCount', 'ruleVersion'];
+
+export const DEFAULT_AUDIT_VIEW: AuditLogView = { sort: 'timestamp', direction: 'desc', page: 1 };
+
+export function filterAuditLog(entries: AuditLogEntry[], filters: AuditLogFilters): AuditLogEntry[] {
+  const search = filters.search?.trim().toLowerCase();
+  return entries.filter(entry => {
+    if (search && !entry.fullName.toLowerCase().includes(search) && !entry.email.toLowerCase().includes(search)) {
+      return false;
+    }
+    if (filters.riskLevel && entry.riskLevel !== filters.riskLevel) return false;
+    if (filters.interviewStatus && entry.interviewStatus !== filters.interviewStatus) return false;
+    if (filters.reviewStatus && entry.reviewStatus !== filters.reviewStatus) return false;
+    if (filters.minExceptions !== undefined && entry.exceptionCount < filters.minExceptions) return false;
+    if (filters.maxExceptions !== undefined && entry.exceptionCount > filters.maxExceptions) return false;
+    if (!filters.from && !filters.to) return true;
+    // Legacy entries may hold locale-formatted timestamps; those never match a date range.
+    if (!/^\d{4}-\d{2}-\d{2}/.test(entry.timestamp)) return false;
+    const day = entry.timestamp.slice(0, 10);
+    return (!filters.from || day >= filters.from) && (!filters.to || day <= filters.to);
+  });
+}
+
+function sortValue(entry: AuditLogEntry, key: AuditSortKey): string | number {
+  switch (key) {
+    case 'fullName':
+      return entry.fullName.toLowerCase();
+    case 'riskLevel':
+      return RISK_LEVELS.indexOf(entry.riskLevel);
+    case 'exceptionCount':
+      return entry.exceptionCount;
+    case 'ruleVersion':
+      return entry.ruleVersion ?? 0;
+    case 'timestamp':
+      return new Date(entry.timestamp).getTime() || 0;
+  }
+}
+
+/** Stable sort; ties keep the server's newest-first order. */
+export function sortAuditLog(entries: AuditLogEntry[], key: AuditSortKey, direction: SortDirection): AuditLogEntry[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...entries].sort((a, b) => {
+    const left = sortValue(a, key);
+    const right = sortValue(b, key);
+    return left < right ? -sign : left > right ? sign : 0;
+  });
+}
+
+/** Drops empty values so filters round-trip cleanly through query strings. */
+export function toFilterParams(filters: AuditLogFilters): Record<string, string> {
+  return Object.fromEntries(
+    [...TEXT_FILTER_KEYS, ...NUMBER_FILTER_KEYS]
+      .filter(key => filters[key] !== undefined && filters[key] !== '')
+      .map(key => [key, String(filters[key])]),
+  );
+}
+
+export function parseFilterParams(params: Record<string, unknown>): AuditLogFilters {
+  const filters: Record<string, string | number> = {};
+  for (const key of TEXT_FILTER_KEYS) {
+    if (typeof params[key] === 'string' && params[key]) filters[key] = params[key] as string;
+  }
+  for (const key of NUMBER_FILTER_KEYS) {
+    const value = typeof params[key] === 'string' && params[key] !== '' ? Number(params[key]) : NaN;
+    if (Number.isInteger(value) && value >= 0) filters[key] = value;
+  }
+  return filters as AuditLogFilters;
+}
+
+export function hasActiveFilters(filters: AuditLogFilters): boolean {
+  return Object.keys(toFilterParams(filters)).length > 0;
+}
+
+/** Only values that differ from the default view are written, keeping shared links short. */
+export function toViewParams(view: AuditLogView): URLSearchParams {
+  const params = new URLSearchParams(toFilterParams(view));
+  if (view.sort !== DEFAULT_AUDIT_VIEW.sort) params.set('sort', view.sort);
+  if (view.direction !== DEFAULT_AUDIT_VIEW.direction) params.set('direction', view.direction);
+  if (view.page !== DEFAULT_AUDIT_VIEW.page) params.set('page', String(view.page));
+  return params;
+}
+
+export function parseViewParams(params: URLSearchParams): AuditLogView {
+  const sort = params.get('sort') as AuditSortKey;
+  const direction = params.get('direction');
+  const page = Number(params.get('page'));
+  return {
+    ...parseFilterParams(Object.fromEntries(params)),
+    sort: SORT_KEYS.includes(sort) ? sort : DEFAULT_AUDIT_VIEW.sort,
+    direction: direction === 'asc' || direction === 'desc' ? direction : DEFAULT_AUDIT_VIEW.direction,
+    page: Number.isInteger(page) && page > 0 ? page : DEFAULT_AUDIT_VIEW.page,
+  };
+}
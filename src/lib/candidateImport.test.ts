@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FORM_SCHEMA, INITIAL_STATE } from '../constants';
+import { FormSchema } from '../types';
+import { detectColumnMapping, importFieldsFor, rowToFormState } from './candidateImport';
+
+describe('detectColumnMapping', () => {
+  it('matches headers by key, label or alias, ignoring case and punctuation', () => {
+    const mapping = detectColumnMapping(['E-mail', 'Candidate Name', 'Mobile Number', 'Date of Birth', 'Aadhar']);
+    expect(mapping).toEqual({ email: 0, fullName: 1, phone: 2, dob: 3, aadhaarNumber: 4 });
+  });
+
+  it('leaves unknown headers and missing fields unmapped', () => {
+    expect(detectColumnMapping(['Notes', 'Name'])).toEqual({ fullName: 1 });
+  });
+
+  it('takes the first of several matching columns', () => {
+    expect(detectColumnMapping(['Name', 'Candidate Name'])).toEqual({ fullName: 0 });
+  });
+
+  it('maps the custom fields of the schema', () => {
+    const schema: FormSchema = {
+      fields: [...DEFAULT_FORM_SCHEMA.fields, { key: 'city', label: 'Home City', type: 'text', icon: 'User' }],
+    };
+    expect(detectColumnMapping(['Home City', 'Name'], importFieldsFor(schema)))
+      .toEqual({ fullName: 1, 'customFields.city': 0 });
+  });
+});
+
+describe('rowToFormState', () => {
+  const headers = ['Name', 'Aadhaar', 'Offer Sent', 'Score', 'Score Mode', 'CGPA Scale'];
+  const mapping = detectColumnMapping(headers);
+
+  it('trims values and strips Aadhaar separators', () => {
+    const data = rowToFormState([' Asha Rao ', '4567 8901-2341', '', '', '', ''], mapping, headers);
+    expect(data.fullName).toBe('Asha Rao');
+    expect(data.aadhaarNumber).toBe('456789012341');
+  });
+
+  it('reads yes-like values as true', () => {
+    for (const value of ['yes', 'Y', 'true', '1']) {
+      expect(rowToFormState(['', '', value, '', '', ''], mapping, headers).offerLetterSent).toBe(true);
+    }
+    expect(rowToFormState(['', '', 'no', '', '', ''], mapping, headers).offerLetterSent).toBe(false);
+  });
+
+  it('takes the score mode and scale from their columns, defaulting to percentages out of 10', () => {
+    const cgpa = rowToFormState(['', '', '', '3.2', 'cgpa', '4'], mapping, headers);
+    expect(cgpa).toMatchObject({ score: '3.2', scoreMode: 'CGPA', cgpaScale: 4 });
+    const plain = rowToFormState(['', '', '', '72', '', ''], mapping, headers);
+    expect(plain).toMatchObject({ scoreMode: 'Percentage', cgpaScale: INITIAL_STATE.cgpaScale });
+  });
+
+  it('treats a CGPA score header as the CGPA mode when no mode is mapped', () => {
+    const data = rowToFormState(['8.1'], detectColumnMapping(['CGPA']), ['CGPA']);
+    expect(data.scoreMode).toBe('CGPA');
+  });
+
+  it('keeps non-empty custom field values', () => {
+    const schema: FormSchema = {
+      fields: [...DEFAULT_FORM_SCHEMA.fields, { key: 'city', label: 'City', type: 'text', icon: 'User' }],
+    };
+    const customHeaders = ['Name', 'City'];
+    const customMapping = detectColumnMapping(customHeaders, importFieldsFor(schema));
+    expect(rowToFormState(['Asha', 'Pune'], customMapping, customHeaders).customFields).toEqual({ city: 'Pune' });
+    expect(rowToFormState(['Asha', ''], customMapping, customHeaders).customFields).toEqual({});
+  });
+});
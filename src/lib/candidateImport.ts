@@ -0,0 +1,94 @@
+import { INITIAL_STATE } from '../constants';
+import { CgpaScale, ColumnMapping, FieldKey, FormSchema, FormState } from '../types';
+import { customFieldsOf } from './formSchema';
+
+export interface ImportField {
+  key: FieldKey;
+  label: string;
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: 'fullName', label: 'Full Name', aliases: ['name', 'candidate', 'candidatename'] },
+  { key: 'email', label: 'Email', aliases: ['emailaddress', 'mail'] },
+  { key: 'phone', label: 'Phone', aliases: ['mobile', 'phonenumber', 'mobilenumber', 'contact'] },
+  { key: 'dob', label: 'Date of Birth', aliases: ['dateofbirth', 'birthdate'] },
+  { key: 'qualification', label: 'Qualification', aliases: ['degree', 'highestqualification'] },
+  { key: 'graduationYear', label: 'Graduation Year', aliases: ['gradyear', 'yearofgraduation', 'passingyear'] },
+  { key: 'score', label: 'Score', aliases: ['percentage', 'cgpa', 'marks'] },
+  { key: 'scoreMode', label: 'Score Mode', aliases: ['scoretype'] },
+  { key: 'cgpaScale', label: 'CGPA Scale', aliases: ['scale', 'cgpaoutof', 'outof'] },
+  { key: 'screeningScore', label: 'Screening Score', aliases: ['screening', 'testscore'] },
+  { key: 'interviewStatus', label: 'Interview Status', aliases: ['interview', 'interviewresult'] },
+  { key: 'aadhaarNumber', label: 'Aadhaar Number', aliases: ['aadhaar', 'aadhar', 'aadharnumber', 'uid'] },
+  { key: 'offerLetterSent', label: 'Offer Letter Sent', aliases: ['offersent', 'offerletter'] },
+];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+/** The built-in import fields plus the custom fields of the form schema. */
+export function importFieldsFor(schema: FormSchema): ImportField[] {
+  return [
+    ...IMPORT_FIELDS,
+    ...customFieldsOf(schema).map((field): ImportField => ({
+      key: `customFields.${field.key}`,
+      label: field.label,
+      aliases: [field.key],
+    })),
+  ];
+}
+
+/** Matches headers by field name, label or a known alias; each column is used at most once. */
+export function detectColumnMapping(headers: string[], fields: ImportField[] = IMPORT_FIELDS): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  for (const field of fields) {
+    const names = [field.key, field.label, ...field.aliases].map(normalizeHeader);
+    const index = normalized.findIndex((header, i) => !used.has(i) && names.includes(header));
+    if (index !== -1) {
+      mapping[field.key] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Builds a form from one CSV row. A "CGPA" header implies the CGPA score mode
+ * when none is mapped; a blank CGPA scale means the 10-point scale.
+ */
+export function rowToFormState(row: string[], mapping: ColumnMapping, headers: string[]): FormState {
+  const value = (key: FieldKey) => {
+    const index = mapping[key];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+  const scoreHeader = mapping.score === undefined ? '' : normalizeHeader(headers[mapping.score]);
+  const customFields: Record<string, string> = {};
+  for (const key of Object.keys(mapping)) {
+    if (key.startsWith('customFields.') && value(key as FieldKey)) {
+      customFields[key.slice('customFields.'.length)] = value(key as FieldKey);
+    }
+  }
+  const scoreMode = value('scoreMode').toUpperCase() === 'CGPA' || (!value('scoreMode') && scoreHeader === 'cgpa')
+    ? 'CGPA'
+    : 'Percentage';
+
+  return {
+    ...INITIAL_STATE,
+    fullName: value('fullName'),
+    email: value('email'),
+    phone: value('phone'),
+    dob: value('dob'),
+    qualification: value('qualification') as FormState['qualification'],
+    graduationYear: value('graduationYear'),
+    score: value('score'),
+    scoreMode,
+    cgpaScale: value('cgpaScale') ? (parseFloat(value('cgpaScale')) as CgpaScale) : INITIAL_STATE.cgpaScale,
+    screeningScore: value('screeningScore'),
+    interviewStatus: value('interviewStatus') as FormState['interviewStatus'],
+    aadhaarNumber: value('aadhaarNumber').replace(/[\s-]/g, ''),
+    offerLetterSent: /^(true|yes|y|1)$/i.test(value('offerLetterSent')),
+    customFields,
+  };
+}
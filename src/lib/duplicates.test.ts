@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_STATE } from '../constants';
+import { CandidateRecord, FormState } from '../types';
+import { duplicateReasons, findDuplicateClusters, findDuplicateMatches, nameSimilarity } from './duplicates';
+
+const asha: FormState = {
+  ...INITIAL_STATE,
+  fullName: 'Asha Rao',
+  email: 'asha@example.com',
+  phone: '9876543210',
+  dob: '2000-01-01',
+  aadhaarNumber: '456789012341',
+};
+
+function record(id: string, changes: Partial<FormState> = {}): CandidateRecord {
+  return {
+    ...asha,
+    ...changes,
+    id,
+    status: 'Applied',
+    statusHistory: [],
+    aadhaarAccessLog: [],
+    amendments: [],
+    offerLetters: [],
+    normalizedPercentage: null,
+    formVersion: 1,
+    createdAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+// Shares nothing with Asha.
+const unrelated: Partial<FormState> = {
+  fullName: 'Ravi Kumar',
+  email: 'ravi@example.com',
+  phone: '9123456780',
+  dob: '1999-05-05',
+  aadhaarNumber: '567890123458',
+};
+
+describe('nameSimilarity', () => {
+  it('ignores case, punctuation and word order', () => {
+    expect(nameSimilarity('Asha Rao', 'rao, ASHA')).toBe(1);
+  });
+
+  it('is 0 when either name is empty', () => {
+    expect(nameSimilarity('', 'Asha Rao')).toBe(0);
+  });
+});
+
+describe('duplicateReasons', () => {
+  it('matches email regardless of case and spacing, and phone regardless of formatting', () => {
+    const other = { ...asha, ...unrelated, email: ' ASHA@example.com ', phone: '98765-43210' };
+    expect(duplicateReasons(asha, other)).toEqual(['email', 'phone']);
+  });
+
+  it('matches the same Aadhaar number', () => {
+    expect(duplicateReasons(asha, { ...asha, ...unrelated, aadhaarNumber: asha.aadhaarNumber })).toEqual(['aadhaar']);
+  });
+
+  it('needs both a similar name and the same DOB', () => {
+    const other = { ...asha, ...unrelated, fullName: 'Asha Raoo', dob: asha.dob };
+    expect(duplicateReasons(asha, other)).toEqual(['nameAndDob']);
+    expect(duplicateReasons(asha, { ...other, dob: '2000-01-02' })).toEqual([]);
+    expect(duplicateReasons(asha, { ...other, fullName: 'Meera Iyer' })).toEqual([]);
+  });
+
+  it('does not match on empty fields', () => {
+    const blank = { ...INITIAL_STATE };
+    expect(duplicateReasons(blank, blank)).toEqual([]);
+  });
+});
+
+describe('findDuplicateMatches', () => {
+  it('lists the matching candidates with their reasons', () => {
+    const matches = findDuplicateMatches(asha, [record('a'), record('b', unrelated)]);
+    expect(matches).toEqual([
+      { candidateId: 'a', fullName: 'Asha Rao', reasons: ['aadhaar', 'email', 'phone', 'nameAndDob'] },
+    ]);
+  });
+
+  it('leaves out the excluded candidate', () => {
+    expect(findDuplicateMatches(asha, [record('a')], 'a')).toEqual([]);
+  });
+});
+
+describe('findDuplicateClusters', () => {
+  it('joins candidates linked through a shared neighbour', () => {
+    const other = { ...unrelated, aadhaarNumber: '' };
+    const clusters = findDuplicateClusters([
+      record('a', { ...unrelated, email: 'shared@example.com' }),
+      record('b', { ...other, fullName: 'Meera Iyer', email: 'shared@example.com', phone: '9000000001' }),
+      record('c', { ...other, fullName: 'Kiran Das', phone: '9000000001', dob: '1990-01-01' }),
+      record('d'),
+    ]);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].candidates.map(c => c.id)).toEqual(['a', 'b', 'c']);
+    expect(clusters[0].reasons.sort()).toEqual(['email', 'phone']);
+  });
+
+  it('returns nothing when no two candidates match', () => {
+    expect(findDuplicateClusters([record('a'), record('b', unrelated)])).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import { CandidateRecord, DuplicateCluster, DuplicateMatch, DuplicateReason, FormState } from '../types';
+
+// Names at or above this similarity (0..1) count as the same person when the DOB also matches.
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  aadhaar: 'same Aadhaar',
+  email: 'same email',
+  phone: 'same phone',
+  nameAndDob: 'similar name and same DOB',
+};
+
+export function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z\s]/g, '').split(/\s+/).filter(Boolean).sort().join(' ');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** 1 for identical names (ignoring case, punctuation and word order), falling towards 0. */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+}
+
+type DuplicateFields = Pick<FormState, 'fullName' | 'email' | 'phone' | 'dob' | 'aadhaarNumber'>;
+
+export function duplicateReasons(a: DuplicateFields, b: DuplicateFields): DuplicateReason[] {
+  const reasons: DuplicateReason[] = [];
+  if (a.aadhaarNumber && a.aadhaarNumber === b.aadhaarNumber) reasons.push('aadhaar');
+  if (a.email && a.email.trim().toLowerCase() === b.email.trim().toLowerCase()) reasons.push('email');
+  if (a.phone && a.phone.replace(/\D/g, '') === b.phone.replace(/\D/g, '')) reasons.push('phone');
+  if (a.dob && a.dob === b.dob && nameSimilarity(a.fullName, b.fullName) >= NAME_SIMILARITY_THRESHOLD) {
+    reasons.push('nameAndDob');
+  }
+  return reasons;
+}
+
+/** Stored candidates that look like the same person as `data`. Needs raw (unmasked) Aadhaar numbers. */
+export function findDuplicateMatches(
+  data: DuplicateFields,
+  candidates: Array<DuplicateFields & Pick<CandidateRecord, 'id'>>,
+  excludeId?: string,
+): DuplicateMatch[] {
+  return candidates
+    .filter(candidate => candidate.id !== excludeId)
+    .map(candidate => ({
+      candidateId: candidate.id,
+      fullName: candidate.fullName,
+      reasons: duplicateReasons(data, candidate),
+    }))
+    .filter(match => match.reasons.length > 0);
+}
+
+/** Groups stored candidates into connected clusters of suspected duplicates. */
+export function findDuplicateClusters(candidates: CandidateRecord[]): DuplicateCluster[] {
+  const parent = candidates.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const clusterReasons = new Map<number, Set<DuplicateReason>>();
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const reasons = duplicateReasons(candidates[i], candidates[j]);
+      if (reasons.length === 0) continue;
+      const root = find(i);
+      const other = find(j);
+      const merged = new Set([...(clusterReasons.get(root) ?? []), ...reasons]);
+      if (other !== root) {
+        clusterReasons.get(other)?.forEach(reason => merged.add(reason));
+        clusterReasons.delete(other);
+        parent[other] = root;
+      }
+      clusterReasons.set(root, merged);
+    }
+  }
+
+  const groups = new Map<number, CandidateRecord[]>();
+  candidates.forEach((candidate, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), candidate]);
+  });
+
+  return [...groups.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      candidates: members.map(({ id, fullName, email, phone, dob, status, createdAt }) => (
+        { id, fullName, email, phone, dob, status, createdAt }
+      )),
+      reasons: [...(clusterReasons.get(root) ?? [])],
+    }));
+}
@@ -0,0 +1,54 @@
+import { DEFAULT_FORM_SCHEMA } from '../constants';
+import { FieldKey, FormFieldDefinition, FormSchema, FormState } from '../types';
+
+/** Where a field's errors and warnings are reported. */
+export function fieldKey(field: FormFieldDefinition): FieldKey {
+  return field.builtIn ? (field.key as keyof FormState) : `customFields.${field.key}`;
+}
+
+export function getFieldValue(data: FormState, field: FormFieldDefinition): string {
+  if (field.builtIn) return String(data[field.key as keyof FormState] ?? '');
+  return data.customFields[field.key] ?? '';
+}
+
+export function setFieldValue(data: FormState, field: FormFieldDefinition, value: string): FormState {
+  if (field.builtIn) return { ...data, [field.key]: value };
+  return { ...data, customFields: { ...data.customFields, [field.key]: value } };
+}
+
+/** Label a field is shown under; keys the schema no longer defines fall back to the bare key. */
+export function fieldLabel(schema: FormSchema, key: FieldKey): string {
+  return schema.fields.find(field => fieldKey(field) === key)?.label ?? key.replace(/^customFields\./, '');
+}
+
+export function customFieldsOf(schema: FormSchema): FormFieldDefinition[] {
+  return schema.fields.filter(field => !field.builtIn);
+}
+
+/** Keeps the values of fields the schema defines, as strings; anything else a client sends is dropped. */
+export function pickCustomFields(values: unknown, schema: FormSchema): Record<string, string> {
+  const source = typeof values === 'object' && values !== null ? (values as Record<string, unknown>) : {};
+  const picked: Record<string, string> = {};
+  for (const field of customFieldsOf(schema)) {
+    const value = source[field.key];
+    if (value !== undefined && value !== null && value !== '') picked[field.key] = String(value);
+  }
+  return picked;
+}
+
+/**
+ * Built-in fields always take their type and options from DEFAULT_FORM_SCHEMA,
+ * keeping only the stored label, icon, placeholder and position. Built-in
+ * fields added after a schema was saved are appended to it.
+ */
+export function upgradeFormSchema(stored: FormSchema): FormSchema {
+  const defaults = new Map(DEFAULT_FORM_SCHEMA.fields.map(field => [field.key, field]));
+  const fields = stored.fields.flatMap((field): FormFieldDefinition[] => {
+    if (!field.builtIn) return [field];
+    const builtIn = defaults.get(field.key);
+    if (!builtIn) return [];
+    defaults.delete(field.key);
+    return [{ ...builtIn, label: field.label, icon: field.icon, placeholder: field.placeholder ?? builtIn.placeholder }];
+  });
+  return { fields: [...fields, ...defaults.values()] };
+}
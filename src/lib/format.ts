@@ -0,0 +1,52 @@
+import { AuditLogEntry, CandidateStatus, GrantedException, ReviewStatus, RiskLevel } from '../types';
+
+/**
+ * Formats a stored ISO timestamp for display. Entries imported from the old
+ * localStorage log may hold pre-formatted strings, which are returned unchanged.
+ */
+export function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+/** An exception's justification in quotes. Partner submissions come without one. */
+export function quoteJustification(exception: GrantedException): string {
+  return exception.justification ? `"${exception.justification}"` : 'No justification given';
+}
+
+/** Who approved an exception: its submitter, or the entry's reviewer when the submitter could not. */
+export function describeApproval(exception: GrantedException, entry: Pick<AuditLogEntry, 'reviews'>): string {
+  if (exception.approvedBy) return `Approved by ${exception.approvedBy}`;
+  const decision = entry.reviews?.[entry.reviews.length - 1];
+  if (!decision) return 'Awaiting approval in review';
+  return decision.decision === 'Approved'
+    ? `Approved in review by ${decision.reviewer}`
+    : `Not approved: review rejected by ${decision.reviewer}`;
+}
+
+export function riskBadgeClassName(level: RiskLevel): string {
+  return `px-2 py-1 rounded-full text-[10px] font-bold uppercase ${
+    level === 'Low' ? 'bg-emerald-100 text-emerald-700' :
+    level === 'Medium' ? 'bg-amber-100 text-amber-700' :
+    'bg-red-100 text-red-700'
+  }`;
+}
+
+export function reviewBadgeClassName(status: ReviewStatus): string {
+  return `px-2 py-0.5 rounded text-[9px] font-bold uppercase tracking-wider border ${
+    status === 'Pending' ? 'bg-amber-50 text-amber-700 border-amber-200' :
+    status === 'Approved' ? 'bg-emerald-50 text-emerald-700 border-emerald-200' :
+    status === 'Rejected' ? 'bg-red-50 text-red-700 border-red-200' :
+    'bg-slate-50 text-slate-400 border-slate-200'
+  }`;
+}
+
+export function statusBadgeClassName(status: CandidateStatus): string {
+  return `px-2 py-1 rounded-full text-[10px] font-bold uppercase ${
+    status === 'Rejected' || status === 'Offer Declined' ? 'bg-red-100 text-red-700' :
+    status === 'Waitlisted' ? 'bg-amber-100 text-amber-700' :
+    status === 'Enrolled' || status === 'Offer Accepted' ? 'bg-emerald-100 text-emerald-700' :
+    status === 'Cleared' || status === 'Offer Sent' ? 'bg-sky-100 text-sky-700' :
+    'bg-slate-100 text-slate-600'
+  }`;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_STATE } from '../constants';
+import { OFFER_PENDING_REVIEW_MESSAGE } from '../validation';
+import {
+  applyStatusToForm,
+  availableTransitions,
+  CANDIDATE_STATUSES,
+  checkTransition,
+  initialStatus,
+  STATUS_TRANSITIONS,
+} from './lifecycle';
+import { NO_SEATS_MESSAGE } from './programs';
+
+describe('STATUS_TRANSITIONS', () => {
+  it('only leads to known statuses', () => {
+    for (const targets of Object.values(STATUS_TRANSITIONS)) {
+      for (const to of targets) expect(CANDIDATE_STATUSES).toContain(to);
+    }
+  });
+
+  it('ends at Rejected, Offer Declined and Withdrawn', () => {
+    const terminal = CANDIDATE_STATUSES.filter(status => STATUS_TRANSITIONS[status].length === 0);
+    expect(terminal).toEqual(['Rejected', 'Offer Declined', 'Withdrawn']);
+  });
+});
+
+describe('checkTransition', () => {
+  it('refuses moves the graph does not list', () => {
+    expect(checkTransition('Applied', 'Enrolled')).toBe('Cannot move a candidate from Applied to Enrolled');
+    expect(checkTransition('Cleared', 'Rejected')).toBe('Cannot move a candidate from Cleared to Rejected');
+  });
+
+  it('allows listed moves without guards', () => {
+    expect(checkTransition('Applied', 'Screened')).toBeNull();
+    expect(checkTransition('Offer Sent', 'Offer Accepted')).toBeNull();
+  });
+
+  it('holds offers while the entry awaits or failed review', () => {
+    expect(checkTransition('Cleared', 'Offer Sent', { reviewStatus: 'Pending' })).toBe(OFFER_PENDING_REVIEW_MESSAGE);
+    expect(checkTransition('Cleared', 'Offer Sent', { reviewStatus: 'Rejected' })).toBe(OFFER_PENDING_REVIEW_MESSAGE);
+    expect(checkTransition('Cleared', 'Offer Sent', { reviewStatus: 'Approved' })).toBeNull();
+    expect(checkTransition('Waitlisted', 'Offer Sent', { reviewStatus: 'Not Required' })).toBeNull();
+  });
+
+  it('refuses to clear a candidate into a full program', () => {
+    expect(checkTransition('Interviewed', 'Cleared', { seatsLeft: 0 })).toBe(NO_SEATS_MESSAGE);
+    expect(checkTransition('Interviewed', 'Cleared', { seatsLeft: 1 })).toBeNull();
+    expect(checkTransition('Interviewed', 'Cleared')).toBeNull();
+  });
+
+  it('lets a waitlisted offer enrol only into a free seat', () => {
+    const waitlisted = { interviewStatus: 'Waitlisted' } as const;
+    expect(checkTransition('Offer Accepted', 'Enrolled', { ...waitlisted, seatsLeft: 0 })).toBe(NO_SEATS_MESSAGE);
+    expect(checkTransition('Offer Accepted', 'Enrolled', { ...waitlisted, seatsLeft: 2 })).toBeNull();
+    expect(checkTransition('Offer Accepted', 'Enrolled', { interviewStatus: 'Cleared', seatsLeft: 0 })).toBeNull();
+  });
+});
+
+describe('availableTransitions', () => {
+  it('drops the moves a guard refuses', () => {
+    expect(availableTransitions('Cleared', { reviewStatus: 'Pending' })).toEqual(['Withdrawn']);
+    expect(availableTransitions('Cleared')).toEqual(['Offer Sent', 'Withdrawn']);
+  });
+});
+
+describe('initialStatus', () => {
+  it('starts from the interview outcome, then the screening score', () => {
+    expect(initialStatus({ ...INITIAL_STATE, interviewStatus: 'Waitlisted', screeningScore: '70' })).toBe('Waitlisted');
+    expect(initialStatus({ ...INITIAL_STATE, screeningScore: '70' })).toBe('Screened');
+    expect(initialStatus(INITIAL_STATE)).toBe('Applied');
+  });
+
+  it('never starts at Offer Sent', () => {
+    expect(initialStatus({ ...INITIAL_STATE, interviewStatus: 'Cleared', offerLetterSent: true })).toBe('Cleared');
+  });
+});
+
+describe('applyStatusToForm', () => {
+  it('keeps the interview outcome and offer flag in step', () => {
+    expect(applyStatusToForm(INITIAL_STATE, 'Waitlisted').interviewStatus).toBe('Waitlisted');
+    expect(applyStatusToForm(INITIAL_STATE, 'Offer Sent').offerLetterSent).toBe(true);
+    expect(applyStatusToForm(INITIAL_STATE, 'Enrolled')).toBe(INITIAL_STATE);
+  });
+});
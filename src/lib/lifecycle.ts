@@ -0,0 +1,124 @@
+import { OFFER_PENDING_REVIEW_MESSAGE } from '../validation';
+import { NO_SEATS_MESSAGE } from './programs';
+import { CandidateStatus, FormState, InterviewStatus, ReviewStatus } from '../types';
+
+export const CANDIDATE_STATUSES: CandidateStatus[] = [
+  'Applied',
+  'Screened',
+  'Interviewed',
+  'Cleared',
+  'Waitlisted',
+  'Rejected',
+  'Offer Sent',
+  'Offer Accepted',
+  'Offer Declined',
+  'Enrolled',
+  'Withdrawn',
+];
+
+// Allowed next states. Anything not listed here is refused outright; the
+// guards below add conditions on top of the graph.
+export const STATUS_TRANSITIONS: Record<CandidateStatus, CandidateStatus[]> = {
+  'Applied': ['Screened', 'Rejected', 'Withdrawn'],
+  'Screened': ['Interviewed', 'Rejected', 'Withdrawn'],
+  'Interviewed': ['Cleared', 'Waitlisted', 'Rejected', 'Withdrawn'],
+  'Cleared': ['Offer Sent', 'Withdrawn'],
+  'Waitlisted': ['Cleared', 'Offer Sent', 'Rejected', 'Withdrawn'],
+  'Rejected': [],
+  'Offer Sent': ['Offer Accepted', 'Offer Declined'],
+  'Offer Accepted': ['Enrolled', 'Offer Declined'],
+  'Offer Declined': [],
+  'Enrolled': ['Withdrawn'],
+  'Withdrawn': [],
+};
+
+export interface TransitionContext {
+  reviewStatus?: ReviewStatus;
+  interviewStatus?: InterviewStatus | '';
+  /** Free seats in the candidate's program; absent when they are not assigned to one. */
+  seatsLeft?: number;
+}
+
+interface TransitionGuard {
+  to: CandidateStatus;
+  /** Returns an error message when the transition must be refused. */
+  check: (from: CandidateStatus, ctx: TransitionContext) => string | null;
+}
+
+const TRANSITION_GUARDS: TransitionGuard[] = [
+  {
+    to: 'Offer Sent',
+    check: (from) => from === 'Cleared' || from === 'Waitlisted'
+      ? null
+      : 'Offer letter can only be sent to Cleared or Waitlisted candidates',
+  },
+  {
+    to: 'Offer Sent',
+    check: (_from, { reviewStatus }) => reviewStatus === 'Pending' || reviewStatus === 'Rejected'
+      ? OFFER_PENDING_REVIEW_MESSAGE
+      : null,
+  },
+  {
+    to: 'Enrolled',
+    check: (from) => from === 'Offer Accepted' ? null : 'Only candidates who accepted an offer can be enrolled',
+  },
+  {
+    to: 'Cleared',
+    check: (_from, { seatsLeft }) => seatsLeft === 0 ? NO_SEATS_MESSAGE : null,
+  },
+  {
+    // A Waitlisted candidate with a conditional offer takes a seat by enrolling.
+    to: 'Enrolled',
+    check: (_from, { seatsLeft, interviewStatus }) => interviewStatus === 'Waitlisted' && seatsLeft === 0
+      ? NO_SEATS_MESSAGE
+      : null,
+  },
+];
+
+/** Returns why `from → to` is not allowed, or null when it is. */
+export function checkTransition(
+  from: CandidateStatus,
+  to: CandidateStatus,
+  ctx: TransitionContext = {},
+): string | null {
+  if (!STATUS_TRANSITIONS[from].includes(to)) {
+    return `Cannot move a candidate from ${from} to ${to}`;
+  }
+  for (const guard of TRANSITION_GUARDS) {
+    if (guard.to !== to) continue;
+    const error = guard.check(from, ctx);
+    if (error) return error;
+  }
+  return null;
+}
+
+export function availableTransitions(from: CandidateStatus, ctx: TransitionContext = {}): CandidateStatus[] {
+  return STATUS_TRANSITIONS[from].filter(to => checkTransition(from, to, ctx) === null);
+}
+
+/** Where a freshly submitted record enters the lifecycle, based on what the form captured. */
+export function initialStatus(data: FormState): CandidateStatus {
+  if (data.interviewStatus) return data.interviewStatus;
+  if (data.screeningScore) return 'Screened';
+  return 'Applied';
+}
+
+/** Form fields kept in step with the candidate's status; once submitted, only transitions change them. */
+export const STATUS_MANAGED_FIELDS: Array<keyof FormState> = ['interviewStatus', 'offerLetterSent'];
+
+/**
+ * Keeps the form-era fields in step with the lifecycle so that existing
+ * consumers of `interviewStatus` and `offerLetterSent` stay correct.
+ */
+export function applyStatusToForm(data: FormState, status: CandidateStatus): FormState {
+  switch (status) {
+    case 'Cleared':
+    case 'Waitlisted':
+    case 'Rejected':
+      return { ...data, interviewStatus: status };
+    case 'Offer Sent':
+      return { ...data, offerLetterSent: true };
+    default:
+      return data;
+  }
+}
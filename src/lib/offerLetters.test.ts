@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_STATE } from '../constants';
+import { FormState } from '../types';
+import { fillOfferLetter, findUnknownPlaceholders, offerLetterKindOf } from './offerLetters';
+
+const candidate: FormState = {
+  ...INITIAL_STATE,
+  fullName: 'Asha Rao',
+  email: 'asha@example.com',
+  qualification: 'MBA',
+  graduationYear: '2024',
+  interviewStatus: 'Cleared',
+};
+
+describe('fillOfferLetter', () => {
+  const issuedAt = new Date('2026-03-10T09:00:00.000Z');
+
+  it('fills candidate fields in the subject and body', () => {
+    const template = {
+      subject: 'Offer for {{fullName}}',
+      body: 'Dear {{ fullName }},\n\nYour {{qualification}} ({{graduationYear}}) application was {{interviewStatus}}.',
+      responseDays: 7,
+    };
+    const letter = fillOfferLetter(template, candidate, issuedAt);
+    expect(letter).toEqual({
+      subject: 'Offer for Asha Rao',
+      body: 'Dear Asha Rao,\n\nYour MBA (2024) application was Cleared.',
+    });
+  });
+
+  it('dates the letter and the response deadline', () => {
+    const template = { subject: '', body: '{{issueDate}} / {{respondBy}}', responseDays: 7 };
+    expect(fillOfferLetter(template, candidate, issuedAt).body).toBe('10 March 2026 / 17 March 2026');
+  });
+
+  it('leaves unknown placeholders as written', () => {
+    const letter = fillOfferLetter({ subject: '{{salary}}', body: '', responseDays: 7 }, candidate, issuedAt);
+    expect(letter.subject).toBe('{{salary}}');
+  });
+});
+
+describe('findUnknownPlaceholders', () => {
+  it('lists each unknown placeholder once', () => {
+    expect(findUnknownPlaceholders('{{fullName}} {{salary}} {{ salary }} {{joiningDate}}'))
+      .toEqual(['salary', 'joiningDate']);
+  });
+});
+
+describe('offerLetterKindOf', () => {
+  it('picks the template from the interview outcome', () => {
+    expect(offerLetterKindOf(candidate)).toBe('Cleared');
+    expect(offerLetterKindOf({ ...candidate, interviewStatus: 'Waitlisted' })).toBe('Waitlisted');
+    expect(offerLetterKindOf({ ...candidate, interviewStatus: 'Rejected' })).toBeNull();
+  });
+});
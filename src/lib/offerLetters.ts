@@ -0,0 +1,49 @@
+import { FormState, OfferLetterKind, OfferLetterTemplateRequest } from '../types';
+
+const PLACEHOLDER_REGEX = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Placeholders a template may use, with the help text shown in the template editor. */
+export const OFFER_LETTER_PLACEHOLDERS: Record<string, string> = {
+  fullName: 'Candidate name',
+  email: 'Candidate email',
+  qualification: 'Highest qualification',
+  graduationYear: 'Graduation year',
+  interviewStatus: 'Cleared or Waitlisted',
+  issueDate: 'Date the letter is generated',
+  respondBy: 'Issue date plus the response days',
+};
+
+/** Template used for a candidate, or null when their interview outcome does not receive an offer. */
+export function offerLetterKindOf(data: FormState): OfferLetterKind | null {
+  return data.interviewStatus === 'Cleared' || data.interviewStatus === 'Waitlisted' ? data.interviewStatus : null;
+}
+
+/** Placeholders in `text` that OFFER_LETTER_PLACEHOLDERS does not define. */
+export function findUnknownPlaceholders(text: string): string[] {
+  const names = [...text.matchAll(PLACEHOLDER_REGEX)].map(match => match[1]);
+  return [...new Set(names.filter(name => !(name in OFFER_LETTER_PLACEHOLDERS)))];
+}
+
+export function formatLetterDate(date: Date): string {
+  return date.toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' });
+}
+
+/** Fills a template's subject and body for one candidate. */
+export function fillOfferLetter(
+  template: OfferLetterTemplateRequest,
+  data: FormState,
+  issuedAt: Date,
+): { subject: string; body: string } {
+  const respondBy = new Date(issuedAt.getTime() + template.responseDays * 24 * 60 * 60 * 1000);
+  const values: Record<string, string> = {
+    fullName: data.fullName,
+    email: data.email,
+    qualification: data.qualification,
+    graduationYear: data.graduationYear,
+    interviewStatus: data.interviewStatus,
+    issueDate: formatLetterDate(issuedAt),
+    respondBy: formatLetterDate(respondBy),
+  };
+  const fill = (text: string) => text.replace(PLACEHOLDER_REGEX, (token, name: string) => values[name] ?? token);
+  return { subject: fill(template.subject), body: fill(template.body) };
+}
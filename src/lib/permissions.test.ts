@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { can, ROLE_PERMISSIONS } from './permissions';
+
+describe('can', () => {
+  it('follows the role table', () => {
+    expect(can({ role: 'screener' }, 'enterCandidates')).toBe(true);
+    expect(can({ role: 'screener' }, 'reviewCandidates')).toBe(false);
+    expect(can({ role: 'reviewer' }, 'reviewCandidates')).toBe(true);
+    expect(can({ role: 'reviewer' }, 'revealAadhaar')).toBe(false);
+  });
+
+  it('gives admins every permission', () => {
+    const every = new Set(Object.values(ROLE_PERMISSIONS).flat());
+    for (const permission of every) expect(can({ role: 'admin' }, permission)).toBe(true);
+  });
+
+  it('gives nothing without a user', () => {
+    expect(can(null, 'enterCandidates')).toBe(false);
+    expect(can(undefined, 'enterCandidates')).toBe(false);
+  });
+});
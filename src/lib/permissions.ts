@@ -0,0 +1,26 @@
+import { User, UserRole } from '../types';
+
+export type Permission =
+  /** Submit, import and amend candidates, and keep drafts. */
+  | 'enterCandidates'
+  /** See a candidate's full Aadhaar number, each time for a logged reason. Amending a record needs it too. */
+  | 'revealAadhaar'
+  /** Sign off flagged applications, move candidates through the lifecycle and send offer letters. */
+  | 'reviewCandidates'
+  /** Publish rule, form schema and offer letter template versions, and set up programs and their seats. */
+  | 'manageRules'
+  /** Manage sign-in accounts and the API keys partner portals submit candidates with. */
+  | 'manageUsers'
+  /** Archive settled audit entries, and import the log kept by the browser-only version of the app. */
+  | 'archiveAuditLog';
+
+// The server enforces this table; the UI reads it only to hide what a role cannot use.
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  screener: ['enterCandidates', 'revealAadhaar'],
+  reviewer: ['reviewCandidates'],
+  admin: ['enterCandidates', 'revealAadhaar', 'reviewCandidates', 'manageRules', 'manageUsers', 'archiveAuditLog'],
+};
+
+export function can(user: Pick<User, 'role'> | null | undefined, permission: Permission): boolean {
+  return !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+}
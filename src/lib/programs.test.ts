@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_STATE } from '../constants';
+import { CandidateRecord } from '../types';
+import { compareWaitlistPriority, holdsSeat, isOnWaitlist, seatsLeft } from './programs';
+
+function candidate(id: string, changes: Partial<CandidateRecord> = {}): CandidateRecord {
+  return {
+    ...INITIAL_STATE,
+    id,
+    status: 'Waitlisted',
+    statusHistory: [],
+    aadhaarAccessLog: [],
+    amendments: [],
+    offerLetters: [],
+    normalizedPercentage: null,
+    formVersion: 1,
+    createdAt: '2026-03-02T10:00:00.000Z',
+    ...changes,
+  };
+}
+
+describe('holdsSeat', () => {
+  it('holds a seat once cleared and until the candidate leaves', () => {
+    expect(holdsSeat({ status: 'Cleared', interviewStatus: 'Cleared' })).toBe(true);
+    expect(holdsSeat({ status: 'Offer Sent', interviewStatus: 'Cleared' })).toBe(true);
+    expect(holdsSeat({ status: 'Offer Accepted', interviewStatus: 'Cleared' })).toBe(true);
+    expect(holdsSeat({ status: 'Enrolled', interviewStatus: 'Cleared' })).toBe(true);
+    expect(holdsSeat({ status: 'Offer Declined', interviewStatus: 'Cleared' })).toBe(false);
+    expect(holdsSeat({ status: 'Applied', interviewStatus: '' })).toBe(false);
+  });
+
+  it('does not count a conditional offer to a waitlisted candidate', () => {
+    expect(holdsSeat({ status: 'Offer Sent', interviewStatus: 'Waitlisted' })).toBe(false);
+    expect(isOnWaitlist({ status: 'Offer Sent', interviewStatus: 'Waitlisted' })).toBe(true);
+    expect(isOnWaitlist({ status: 'Waitlisted', interviewStatus: 'Waitlisted' })).toBe(true);
+    expect(isOnWaitlist({ status: 'Withdrawn', interviewStatus: 'Waitlisted' })).toBe(false);
+  });
+});
+
+describe('seatsLeft', () => {
+  it('never goes below zero', () => {
+    expect(seatsLeft({ seats: 10, seatsHeld: 4 })).toBe(6);
+    expect(seatsLeft({ seats: 2, seatsHeld: 3 })).toBe(0);
+  });
+});
+
+describe('compareWaitlistPriority', () => {
+  const order = (candidates: CandidateRecord[]) => [...candidates].sort(compareWaitlistPriority).map(c => c.id);
+
+  it('puts the higher screening score first', () => {
+    expect(order([candidate('low', { screeningScore: '6' }), candidate('high', { screeningScore: '8.5' })]))
+      .toEqual(['high', 'low']);
+  });
+
+  it('breaks ties on the normalized score, then on the earlier submission', () => {
+    const candidates = [
+      candidate('later', { screeningScore: '7', normalizedPercentage: 80, createdAt: '2026-03-05T10:00:00.000Z' }),
+      candidate('weaker', { screeningScore: '7', normalizedPercentage: 70 }),
+      candidate('earlier', { screeningScore: '7', normalizedPercentage: 80, createdAt: '2026-03-01T10:00:00.000Z' }),
+    ];
+    expect(order(candidates)).toEqual(['earlier', 'later', 'weaker']);
+  });
+
+  it('puts candidates without scores last', () => {
+    expect(order([candidate('unscored'), candidate('scored', { screeningScore: '5', normalizedPercentage: 60 })]))
+      .toEqual(['scored', 'unscored']);
+  });
+});
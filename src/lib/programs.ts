@@ -0,0 +1,41 @@
+import { CandidateRecord, CandidateStatus, Program } from '../types';
+
+type SeatState = Pick<CandidateRecord, 'status' | 'interviewStatus'>;
+
+export const NO_SEATS_MESSAGE = "No seats left in the candidate's program";
+
+const OFFER_STATUSES: CandidateStatus[] = ['Offer Sent', 'Offer Accepted'];
+
+/**
+ * Cleared candidates hold a seat until they decline, withdraw or enrol and
+ * later leave. A Waitlisted candidate's conditional offer does not take one.
+ */
+export function holdsSeat({ status, interviewStatus }: SeatState): boolean {
+  return status === 'Cleared' || status === 'Enrolled'
+    || (OFFER_STATUSES.includes(status) && interviewStatus === 'Cleared');
+}
+
+/** Waitlisted at interview and still in the running, with or without a conditional offer. */
+export function isOnWaitlist({ status, interviewStatus }: SeatState): boolean {
+  return interviewStatus === 'Waitlisted' && (status === 'Waitlisted' || OFFER_STATUSES.includes(status));
+}
+
+export function seatsLeft(program: Pick<Program, 'seats' | 'seatsHeld'>): number {
+  return Math.max(0, program.seats - program.seatsHeld);
+}
+
+export function programLabel(program: Pick<Program, 'name' | 'cohort'>): string {
+  return `${program.name} (${program.cohort})`;
+}
+
+const scoreOf = (value: string) => {
+  const score = parseFloat(value);
+  return Number.isNaN(score) ? -Infinity : score;
+};
+
+/** Waitlist order: higher screening score, then higher normalized score, then the earlier submission. */
+export function compareWaitlistPriority(a: CandidateRecord, b: CandidateRecord): number {
+  return scoreOf(b.screeningScore) - scoreOf(a.screeningScore)
+    || (b.normalizedPercentage ?? -Infinity) - (a.normalizedPercentage ?? -Infinity)
+    || a.createdAt.localeCompare(b.createdAt);
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_RULES } from '../constants';
+import { RuleConfig } from '../types';
+import { parseRuleConfig, RuleConfigError, rulesForQualification, upgradeRuleConfig } from './rules';
+
+describe('upgradeRuleConfig', () => {
+  it('fills in keys a stored version predates', () => {
+    const rules = upgradeRuleConfig({ minAge: 21, minPercentage: 55 });
+    expect(rules).toEqual({ ...INITIAL_RULES, minAge: 21, minPercentage: 55 });
+  });
+
+  it('drops retired keys', () => {
+    const rules = upgradeRuleConfig({ minCgpa4: 2.5, minCgpa10: 6 });
+    expect(rules).toEqual(INITIAL_RULES);
+  });
+
+  it('moves the exception-count threshold to the score just above it', () => {
+    expect(upgradeRuleConfig({ highRiskThreshold: 2 }).highRiskScore).toBe(3);
+    expect(upgradeRuleConfig({ highRiskThreshold: 4 }).highRiskScore).toBe(5);
+  });
+
+  it('keeps a stored highRiskScore over the old threshold', () => {
+    expect(upgradeRuleConfig({ highRiskThreshold: 4, highRiskScore: 2 }).highRiskScore).toBe(2);
+  });
+
+  it('keeps only overridable keys in qualification overrides', () => {
+    const rules = upgradeRuleConfig({
+      qualificationOverrides: {
+        MBA: { minPercentage: 65, minAge: 25 },
+        BCA: { minAge: 17 },
+        'M.Sc': null,
+      },
+    });
+    expect(rules.qualificationOverrides).toEqual({ MBA: { minPercentage: 65 } });
+  });
+
+  it('treats a missing overrides object as none', () => {
+    expect(upgradeRuleConfig({ qualificationOverrides: null }).qualificationOverrides).toEqual({});
+  });
+});
+
+describe('rulesForQualification', () => {
+  const rules: RuleConfig = {
+    ...INITIAL_RULES,
+    qualificationOverrides: { MBA: { minPercentage: 65 }, 'M.Tech': { minScreeningScore: 55 } },
+  };
+
+  it('applies the override for the qualification', () => {
+    expect(rulesForQualification(rules, 'MBA')).toEqual({ ...rules, minPercentage: 65 });
+    expect(rulesForQualification(rules, 'M.Tech')).toEqual({ ...rules, minScreeningScore: 55 });
+  });
+
+  it('leaves keys the override does not set at their defaults', () => {
+    expect(rulesForQualification(rules, 'MBA').minScreeningScore).toBe(INITIAL_RULES.minScreeningScore);
+  });
+
+  it('returns the rules unchanged without an override or a qualification', () => {
+    expect(rulesForQualification(rules, 'B.Tech')).toBe(rules);
+    expect(rulesForQualification(rules, '')).toBe(rules);
+  });
+});
+
+describe('parseRuleConfig', () => {
+  it('accepts a complete config and drops unknown keys', () => {
+    const rules = { ...INITIAL_RULES, minAge: 21, qualificationOverrides: { MBA: { minPercentage: 65 } } };
+    expect(parseRuleConfig({ ...rules, highRiskThreshold: 2 })).toEqual(rules);
+  });
+
+  it('requires every key with the type of its default', () => {
+    const { minAge, ...missing } = INITIAL_RULES;
+    expect(() => parseRuleConfig(missing)).toThrow('minAge must be a number');
+    expect(() => parseRuleConfig({ ...INITIAL_RULES, minAge: '18' })).toThrow('minAge must be a number');
+    expect(() => parseRuleConfig({ ...INITIAL_RULES, minAge: Infinity })).toThrow(RuleConfigError);
+  });
+
+  it('rejects a medium risk score above the high one', () => {
+    expect(() => parseRuleConfig({ ...INITIAL_RULES, mediumRiskScore: 5, highRiskScore: 4 }))
+      .toThrow('mediumRiskScore cannot be above highRiskScore');
+  });
+
+  it('rejects overrides that would otherwise be dropped', () => {
+    const withOverrides = (qualificationOverrides: unknown) =>
+      () => parseRuleConfig({ ...INITIAL_RULES, qualificationOverrides });
+    expect(withOverrides({ PhD: { minPercentage: 65 } })).toThrow('Unknown qualification in overrides: PhD');
+    expect(withOverrides({ MBA: { minAge: 25 } })).toThrow('minAge cannot be overridden per qualification');
+    expect(withOverrides({ MBA: { minPercentage: '65' } })).toThrow('MBA minPercentage must be a number');
+    expect(withOverrides({ MBA: 65 })).toThrow('The MBA override must be an object');
+    expect(withOverrides([])).toThrow('qualificationOverrides must be an object');
+  });
+});
@@ -0,0 +1,110 @@
+import { INITIAL_RULES, OVERRIDABLE_RULE_KEYS, QUALIFICATIONS } from '../constants';
+import { OverridableRuleKey, Qualification, QualificationOverrides, RuleChange, RuleConfig } from '../types';
+
+export function diffRules(from: RuleConfig, to: RuleConfig): RuleChange[] {
+  const changes: RuleChange[] = (Object.keys(INITIAL_RULES) as Array<keyof RuleConfig>)
+    .filter(key => key !== 'qualificationOverrides' && from[key] !== to[key])
+    .map(key => ({ key, from: from[key] as number | boolean, to: to[key] as number | boolean }));
+
+  for (const qualification of QUALIFICATIONS) {
+    for (const key of OVERRIDABLE_RULE_KEYS) {
+      const before = from.qualificationOverrides[qualification]?.[key] ?? null;
+      const after = to.qualificationOverrides[qualification]?.[key] ?? null;
+      if (before !== after) changes.push({ key: `${qualification} ${key}`, from: before, to: after });
+    }
+  }
+  return changes;
+}
+
+/** e.g. "minPercentage 60 → 55", "MBA minPercentage default → 65" */
+export function formatRuleChange(change: RuleChange): string {
+  return `${change.key} ${change.from ?? 'default'} → ${change.to ?? 'default'}`;
+}
+
+/** The rule config with any override for this qualification applied. */
+export function rulesForQualification(rules: RuleConfig, qualification: Qualification | ''): RuleConfig {
+  const override = qualification ? rules.qualificationOverrides[qualification] : undefined;
+  return override ? { ...rules, ...override } : rules;
+}
+
+/**
+ * Fills in keys added after a version was saved and drops retired ones (the
+ * CGPA thresholds went away when CGPA started being compared as a percentage).
+ * Versions from before weighted scoring went High above `highRiskThreshold`
+ * exceptions at one point each.
+ */
+export function upgradeRuleConfig(stored: Record<string, unknown>): RuleConfig {
+  const rules = { ...INITIAL_RULES };
+  for (const key of Object.keys(INITIAL_RULES)) {
+    if (key in stored) (rules as Record<string, unknown>)[key] = stored[key];
+  }
+  if (typeof stored.highRiskThreshold === 'number' && !('highRiskScore' in stored)) {
+    rules.highRiskScore = stored.highRiskThreshold + 1;
+  }
+
+  const overrides: RuleConfig['qualificationOverrides'] = {};
+  for (const [qualification, override] of Object.entries(rules.qualificationOverrides ?? {})) {
+    const kept = Object.fromEntries(
+      Object.entries(override ?? {}).filter(([key]) => (OVERRIDABLE_RULE_KEYS as string[]).includes(key)),
+    );
+    if (Object.keys(kept).length > 0) overrides[qualification as Qualification] = kept;
+  }
+  rules.qualificationOverrides = overrides;
+  return rules;
+}
+
+/** A rule config that cannot be published: a missing or mistyped key, or thresholds that contradict each other. */
+export class RuleConfigError extends Error {}
+
+function parseQualificationOverrides(value: unknown): QualificationOverrides {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new RuleConfigError('qualificationOverrides must be an object');
+  }
+  const overrides: QualificationOverrides = {};
+  for (const [qualification, override] of Object.entries(value)) {
+    if (!QUALIFICATIONS.includes(qualification as Qualification)) {
+      throw new RuleConfigError(`Unknown qualification in overrides: ${qualification}`);
+    }
+    if (typeof override !== 'object' || Array.isArray(override)) {
+      throw new RuleConfigError(`The ${qualification} override must be an object`);
+    }
+    const parsed: Partial<Record<OverridableRuleKey, number>> = {};
+    for (const [key, threshold] of Object.entries(override ?? {})) {
+      if (!OVERRIDABLE_RULE_KEYS.includes(key as OverridableRuleKey)) {
+        throw new RuleConfigError(`${key} cannot be overridden per qualification`);
+      }
+      if (typeof threshold !== 'number' || !Number.isFinite(threshold)) {
+        throw new RuleConfigError(`${qualification} ${key} must be a number`);
+      }
+      parsed[key as OverridableRuleKey] = threshold;
+    }
+    if (Object.keys(parsed).length > 0) overrides[qualification as Qualification] = parsed;
+  }
+  return overrides;
+}
+
+/**
+ * Checks a rule config before it is published or simulated: every key of
+ * INITIAL_RULES with its type, and risk thresholds in order. Unknown keys are dropped.
+ */
+export function parseRuleConfig(input: unknown): RuleConfig {
+  const body = (typeof input === 'object' && input !== null ? input : {}) as Partial<RuleConfig>;
+  const rules: Record<string, unknown> = { ...INITIAL_RULES };
+  for (const key of Object.keys(INITIAL_RULES) as Array<keyof RuleConfig>) {
+    const value = body[key];
+    if (key === 'qualificationOverrides') {
+      rules[key] = parseQualificationOverrides(value);
+      continue;
+    }
+    const expected = typeof INITIAL_RULES[key];
+    if (typeof value !== expected || (typeof value === 'number' && !Number.isFinite(value))) {
+      throw new RuleConfigError(`${key} must be a ${expected}`);
+    }
+    rules[key] = value;
+  }
+  const parsed = rules as unknown as RuleConfig;
+  if (parsed.mediumRiskScore > parsed.highRiskScore) {
+    throw new RuleConfigError('mediumRiskScore cannot be above highRiskScore');
+  }
+  return parsed;
+}
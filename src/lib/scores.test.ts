@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_RULES } from '../constants';
+import { normalizePercentage } from './scores';
+
+describe('normalizePercentage', () => {
+  it('passes percentages through', () => {
+    expect(normalizePercentage({ score: '72.5', scoreMode: 'Percentage', cgpaScale: 10 }, INITIAL_RULES)).toBe(72.5);
+  });
+
+  it('converts CGPA with the multiplier and offset of its scale', () => {
+    expect(normalizePercentage({ score: '8.2', scoreMode: 'CGPA', cgpaScale: 10 }, INITIAL_RULES)).toBe(77.9);
+    expect(normalizePercentage({ score: '3.2', scoreMode: 'CGPA', cgpaScale: 4 }, INITIAL_RULES)).toBe(80);
+    const rules = { ...INITIAL_RULES, cgpa10Multiplier: 10, cgpa10Offset: -7.5 };
+    expect(normalizePercentage({ score: '8.2', scoreMode: 'CGPA', cgpaScale: 10 }, rules)).toBe(74.5);
+  });
+
+  it('rounds converted scores to two decimals', () => {
+    expect(normalizePercentage({ score: '7.33', scoreMode: 'CGPA', cgpaScale: 10 }, INITIAL_RULES)).toBe(69.64);
+  });
+
+  it('clamps both modes to 0–100', () => {
+    expect(normalizePercentage({ score: '104', scoreMode: 'Percentage', cgpaScale: 10 }, INITIAL_RULES)).toBe(100);
+    expect(normalizePercentage({ score: '-3', scoreMode: 'Percentage', cgpaScale: 10 }, INITIAL_RULES)).toBe(0);
+    const rules = { ...INITIAL_RULES, cgpa10Offset: 10 };
+    expect(normalizePercentage({ score: '10', scoreMode: 'CGPA', cgpaScale: 10 }, rules)).toBe(100);
+  });
+
+  it('is null without a score', () => {
+    expect(normalizePercentage({ score: '', scoreMode: 'CGPA', cgpaScale: 10 }, INITIAL_RULES)).toBeNull();
+  });
+});
@@ -0,0 +1,18 @@
+import { FormState, RuleConfig } from '../types';
+
+type ScoreFields = Pick<FormState, 'score' | 'scoreMode' | 'cgpaScale'>;
+
+/**
+ * The score on the percentage scale, clamped to 0–100. CGPA is converted with
+ * the linear formula configured for its scale. Null when no score is entered.
+ */
+export function normalizePercentage(data: ScoreFields, rules: RuleConfig): number | null {
+  const score = parseFloat(data.score);
+  if (isNaN(score)) return null;
+  if (data.scoreMode === 'Percentage') return Math.min(100, Math.max(0, score));
+
+  const multiplier = rules[`cgpa${data.cgpaScale}Multiplier`];
+  const offset = rules[`cgpa${data.cgpaScale}Offset`];
+  const percentage = Math.min(100, Math.max(0, score * multiplier + offset));
+  return Math.round(percentage * 100) / 100;
+}
@@ -1,10 +1,13 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import SessionGate from './components/SessionGate';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <SessionGate>
+      {(user, signOut) => <App user={user} onSignOut={signOut} />}
+    </SessionGate>
   </StrictMode>,
 );
@@ -0,0 +1,629 @@
+export type Qualification = 'B.Tech' | 'B.E.' | 'B.Sc' | 'BCA' | 'M.Tech' | 'M.Sc' | 'MCA' | 'MBA';
+export type InterviewStatus = 'Cleared' | 'Waitlisted' | 'Rejected';
+export type ScoreMode = 'Percentage' | 'CGPA';
+export type CgpaScale = 4 | 5 | 10;
+export type RiskLevel = 'Low' | 'Medium' | 'High';
+export type CandidateStatus =
+  | 'Applied'
+  | 'Screened'
+  | 'Interviewed'
+  | 'Cleared'
+  | 'Waitlisted'
+  | 'Rejected'
+  | 'Offer Sent'
+  | 'Offer Accepted'
+  | 'Offer Declined'
+  | 'Enrolled'
+  | 'Withdrawn';
+export type ReviewStatus = 'Not Required' | 'Pending' | 'Approved' | 'Rejected';
+export type ReviewDecisionType = 'Approved' | 'Rejected';
+export type FormFieldType = 'text' | 'email' | 'tel' | 'number' | 'date' | 'select' | 'textarea' | 'score';
+export type FormFieldIcon =
+  | 'User'
+  | 'Mail'
+  | 'Phone'
+  | 'Calendar'
+  | 'GraduationCap'
+  | 'Award'
+  | 'FileText'
+  | 'Fingerprint'
+  | 'Clock'
+  | 'Briefcase'
+  | 'MapPin'
+  | 'Tag'
+  | 'Hash';
+
+export interface FormState {
+  fullName: string;
+  email: string;
+  phone: string;
+  dob: string;
+  qualification: Qualification | '';
+  graduationYear: string;
+  score: string;
+  scoreMode: ScoreMode;
+  /** Maximum of the CGPA scale; ignored in Percentage mode. */
+  cgpaScale: CgpaScale;
+  screeningScore: string;
+  interviewStatus: InterviewStatus | '';
+  aadhaarNumber: string;
+  offerLetterSent: boolean;
+  /** Program the candidate applies to; '' when they are not assigned to one. */
+  programId: string;
+  /** Values of the fields added through the form schema, by field key. */
+  customFields: Record<string, string>;
+}
+
+/** A field added through the form schema, addressed inside `customFields`. */
+export type CustomFieldKey = `customFields.${string}`;
+export type FieldKey = keyof FormState | CustomFieldKey;
+
+export interface FormFieldDefinition {
+  /** The FormState key of a built-in field, or the key within `customFields`. */
+  key: string;
+  label: string;
+  type: FormFieldType;
+  icon: FormFieldIcon;
+  placeholder?: string;
+  /** Choices of a select field. */
+  options?: string[];
+  /** Built-in fields keep their own widget and rules; only the label, icon, placeholder and position can change. */
+  builtIn?: boolean;
+  required?: boolean;
+  /** Strict bounds: the value of a number field, the length of a text field. */
+  min?: number;
+  max?: number;
+  /** Soft bounds of a number field; a value outside them is an exception worth `softWeight` risk points. */
+  softMin?: number;
+  softMax?: number;
+  softWeight?: number;
+}
+
+export interface FormSchema {
+  /** In display order. */
+  fields: FormFieldDefinition[];
+}
+
+export interface FormSchemaVersion {
+  version: number;
+  schema: FormSchema;
+  author: string;
+  createdAt: string;
+}
+
+export interface FormSchemaVersionRequest {
+  schema: FormSchema;
+}
+
+export interface ValidationErrors {
+  fullName?: string;
+  email?: string;
+  phone?: string;
+  dob?: string;
+  qualification?: string;
+  graduationYear?: string;
+  score?: string;
+  screeningScore?: string;
+  aadhaarNumber?: string;
+  interviewStatus?: string;
+  offerLetterSent?: string;
+  programId?: string;
+  [customField: CustomFieldKey]: string | undefined;
+}
+
+export interface ValidationWarnings {
+  fullName?: string;
+  dob?: string;
+  qualification?: string;
+  graduationYear?: string;
+  score?: string;
+  screeningScore?: string;
+  [customField: CustomFieldKey]: string | undefined;
+}
+
+export interface RuleConfig {
+  minAge: number;
+  maxFutureGradYears: number;
+  minPercentage: number;
+  minScreeningScore: number;
+  /** Percentage = CGPA × multiplier + offset, per CGPA scale. */
+  cgpa4Multiplier: number;
+  cgpa4Offset: number;
+  cgpa5Multiplier: number;
+  cgpa5Offset: number;
+  cgpa10Multiplier: number;
+  cgpa10Offset: number;
+  /** Youngest plausible age at graduation, and at completing a postgraduate degree. */
+  minGraduationAge: number;
+  minPostgraduateAge: number;
+  /** Stricter (or looser) thresholds for particular qualifications. */
+  qualificationOverrides: QualificationOverrides;
+  /** Risk points each soft rule adds when it triggers. */
+  minAgeWeight: number;
+  maxFutureGradYearsWeight: number;
+  minPercentageWeight: number;
+  minScreeningScoreWeight: number;
+  duplicateWeight: number;
+  graduationAgeWeight: number;
+  postgraduateAgeWeight: number;
+  /** Grows a rule's points, up to double, with how far the value misses its threshold. */
+  scaleByShortfall: boolean;
+  /** Lowest risk score counted as Medium / High. */
+  mediumRiskScore: number;
+  highRiskScore: number;
+  /** High-risk submissions always need a second sign-off; this adds Medium ones. */
+  reviewMediumRisk: boolean;
+}
+
+export type OverridableRuleKey = 'minPercentage' | 'minScreeningScore';
+export type QualificationOverrides = Partial<Record<Qualification, Partial<Pick<RuleConfig, OverridableRuleKey>>>>;
+
+export type RiskWeightKey = Extract<keyof RuleConfig, `${string}Weight`>;
+
+/** How one triggered soft rule contributed to a submission's risk score. */
+export interface RiskContribution {
+  ruleId: string;
+  weight: number;
+  /** Fraction (0–1) by which the value missed its threshold; absent for rules without one. */
+  shortfall?: number;
+  points: number;
+}
+
+export type DuplicateReason = 'aadhaar' | 'email' | 'phone' | 'nameAndDob';
+
+export interface DuplicateMatch {
+  candidateId: string;
+  fullName: string;
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicateCluster {
+  candidates: Array<Pick<CandidateRecord, 'id' | 'fullName' | 'email' | 'phone' | 'dob' | 'status' | 'createdAt'>>;
+  reasons: DuplicateReason[];
+}
+
+export interface RuleVersion {
+  version: number;
+  /** Program the rule set applies to; null for the default rules. */
+  programId: string | null;
+  rules: RuleConfig;
+  author: string;
+  createdAt: string;
+}
+
+export interface RuleChange {
+  /** A rule config key, or `<qualification> <key>` for a qualification override. */
+  key: string;
+  /** null when a qualification override is not set. */
+  from: number | boolean | null;
+  to: number | boolean | null;
+}
+
+export interface StatusChange {
+  from: CandidateStatus | null;
+  to: CandidateStatus;
+  changedBy: string;
+  note: string;
+  timestamp: string;
+}
+
+/** One field changed by an amendment. Aadhaar numbers are recorded masked. */
+export interface FieldChange {
+  field: FieldKey;
+  from: string;
+  to: string;
+  changedBy: string;
+  reason: string;
+  /** Audit entry that re-scored the candidate after the amendment. */
+  auditId: string;
+  timestamp: string;
+}
+
+export interface AadhaarAccess {
+  revealedBy: string;
+  reason: string;
+  timestamp: string;
+}
+
+/** A stored candidate. `aadhaarNumber` is masked in every API response. */
+export interface CandidateRecord extends FormState {
+  id: string;
+  status: CandidateStatus;
+  statusHistory: StatusChange[];
+  aadhaarAccessLog: AadhaarAccess[];
+  /** Field-level history of amendments made after submission, oldest first. */
+  amendments: FieldChange[];
+  /** Offer letters generated for the candidate, oldest first. */
+  offerLetters: OfferLetter[];
+  /** Score on the percentage scale, converted with the rules in force when it was last scored; null without a score. */
+  normalizedPercentage: number | null;
+  /** Form schema version the candidate was submitted or last amended under; null for records that predate form schemas. */
+  formVersion: number | null;
+  createdAt: string;
+}
+
+/** Interview outcomes that receive an offer letter; each has its own template. */
+export type OfferLetterKind = 'Cleared' | 'Waitlisted';
+
+export interface OfferLetterTemplateRequest {
+  subject: string;
+  /** Plain text with {{placeholder}} tokens; blank lines separate paragraphs. */
+  body: string;
+  /** Days the candidate has to respond, used for the {{respondBy}} date. */
+  responseDays: number;
+}
+
+export interface OfferLetterTemplate extends OfferLetterTemplateRequest {
+  kind: OfferLetterKind;
+  version: number;
+  author: string;
+  createdAt: string;
+}
+
+/** A generated letter as listed on the candidate. The rendered document is fetched on its own. */
+export interface OfferLetter {
+  /** Numbered per candidate; a reissued letter gets the next version. */
+  version: number;
+  kind: OfferLetterKind;
+  templateVersion: number;
+  subject: string;
+  generatedBy: string;
+  generatedAt: string;
+}
+
+export interface ProgramRequest {
+  name: string;
+  /** Intake the program runs for, such as "2026 Fall". */
+  cohort: string;
+  seats: number;
+}
+
+export interface Program extends ProgramRequest {
+  id: string;
+  createdBy: string;
+  createdAt: string;
+  /** Candidates holding one of the seats: Cleared, or further along to Enrolled. */
+  seatsHeld: number;
+  waitlisted: number;
+}
+
+export interface AadhaarRevealRequest {
+  reason: string;
+}
+
+export interface AadhaarRevealResponse {
+  aadhaarNumber: string;
+  access: AadhaarAccess;
+}
+
+/**
+ * A corrected version of a stored candidate. Interview status and the offer
+ * letter flag follow the candidate's status and cannot be amended.
+ */
+export interface AmendmentRequest {
+  candidate: FormState;
+  exceptions: ExceptionRequest[];
+  reason: string;
+}
+
+export interface TransitionRequest {
+  to: CandidateStatus;
+  note?: string;
+}
+
+/** The reason for one triggered soft rule, supplied with the submission. */
+export interface ExceptionRequest {
+  ruleId: string;
+  justification: string;
+}
+
+/** An exception as recorded on the audit entry. */
+export interface GrantedException extends ExceptionRequest {
+  field: string;
+  message: string;
+  /**
+   * Username of the reviewer or admin who submitted it. Absent when the submitter
+   * cannot approve exceptions; the entry's review decision settles it instead.
+   */
+  approvedBy?: string;
+}
+
+export interface ReviewDecision {
+  decision: ReviewDecisionType;
+  reviewer: string;
+  comment: string;
+  timestamp: string;
+}
+
+export type AuditEntryKind = 'Submission' | 'Amendment';
+
+export interface AuditLogEntry {
+  id: string;
+  candidateId?: string;
+  /** Amendments re-score an existing candidate and add a new entry rather than rewriting the old one. */
+  kind: AuditEntryKind;
+  /** Username of whoever submitted or amended the record; absent on entries from before sign-in. */
+  submittedBy?: string;
+  /** Partner whose portal pushed the submission through the intake API; absent for entries made in the app. */
+  source?: string;
+  fullName: string;
+  email: string;
+  interviewStatus: string;
+  exceptionCount: number;
+  /** Absent on entries scored before weighted risk, which only counted exceptions. */
+  riskScore?: number;
+  riskBreakdown?: RiskContribution[];
+  riskLevel: RiskLevel;
+  /** Rule version the entry was scored under; absent on imported legacy entries. */
+  ruleVersion?: number;
+  /** Absent on imported legacy entries, which only recorded a count. */
+  exceptions?: GrantedException[];
+  reviewStatus: ReviewStatus;
+  reviews?: ReviewDecision[];
+  /** Set once the entry has been archived out of the active log. */
+  archiveId?: string;
+  timestamp: string;
+}
+
+/** Entries moved out of the active log in one archive action. Nothing is ever deleted. */
+export interface AuditArchive {
+  id: string;
+  archivedBy: string;
+  reason: string;
+  entryCount: number;
+  timestamp: string;
+}
+
+export interface ArchiveRequest {
+  reason: string;
+}
+
+/** Records linked into the audit hash chain, each vouched for by one link. */
+export type AuditChainRecordType = 'entry' | 'review' | 'archive';
+
+/** A place where the stored audit trail no longer matches its hash chain. */
+export interface AuditChainBreak {
+  /** Position of the offending link; null for records written without one. */
+  seq: number | null;
+  recordType: AuditChainRecordType;
+  recordId: string;
+  reason: string;
+}
+
+export interface AuditChainReport {
+  intact: boolean;
+  linkCount: number;
+  /** Hash of the newest link. Noting it down lets a later check spot a rewritten tail. */
+  headHash: string | null;
+  breaks: AuditChainBreak[];
+  verifiedAt: string;
+}
+
+export interface SubmissionRequest {
+  candidate: FormState;
+  exceptions: ExceptionRequest[];
+  /** Draft the candidate was entered in; it is discarded once the submission is stored. */
+  draftId?: string;
+}
+
+/** An application saved while it is being entered, before it is submitted. */
+export interface Draft {
+  id: string;
+  data: FormState;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DraftSummary {
+  id: string;
+  fullName: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DraftRequest {
+  data: FormState;
+}
+
+export interface ReviewRequest {
+  decision: ReviewDecisionType;
+  comment: string;
+}
+
+export interface RuleVersionRequest {
+  rules: RuleConfig;
+  /** Omitted for the default rules. */
+  programId?: string;
+}
+
+export interface RiskMovement {
+  candidateId: string;
+  fullName: string;
+  from: RiskLevel;
+  to: RiskLevel;
+}
+
+export interface RuleFrequencyChange {
+  ruleId: string;
+  current: number;
+  draft: number;
+}
+
+export interface SimulationResult {
+  evaluated: number;
+  distribution: {
+    current: Record<RiskLevel, number>;
+    draft: Record<RiskLevel, number>;
+  };
+  ruleFrequency: RuleFrequencyChange[];
+  movements: RiskMovement[];
+}
+
+export interface SubmissionResponse {
+  candidate: CandidateRecord;
+  auditEntry: AuditLogEntry;
+}
+
+/** CSV column index for each form field. Unmapped fields keep their empty form value. */
+export type ColumnMapping = Partial<Record<FieldKey, number>>;
+
+export interface ImportPreviewRequest {
+  candidates: FormState[];
+}
+
+/** The server's verdict on one CSV row before anything is stored. */
+export interface ImportPreviewRow {
+  errors: ValidationErrors;
+  warnings: ValidationWarnings;
+  /** Soft rules the row triggers; each needs an approved exception to commit. */
+  softRuleIds: string[];
+  riskScore: number;
+  riskLevel: RiskLevel;
+  needsReview: boolean;
+}
+
+export interface ImportRequest {
+  rows: SubmissionRequest[];
+}
+
+/** Outcome of committing one row: the audit entry it created, or why it was refused. */
+export interface ImportRowResult {
+  auditEntry?: AuditLogEntry;
+  errors?: string[];
+}
+
+/** Audit log filters shared by the on-screen table and exports. Dates are YYYY-MM-DD, inclusive. */
+export interface AuditLogFilters {
+  /** Case-insensitive match on name or email. */
+  search?: string;
+  riskLevel?: RiskLevel;
+  interviewStatus?: string;
+  reviewStatus?: ReviewStatus;
+  minExceptions?: number;
+  maxExceptions?: number;
+  from?: string;
+  to?: string;
+}
+
+export type AuditSortKey = 'timestamp' | 'fullName' | 'riskLevel' | 'exceptionCount' | 'ruleVersion';
+export type SortDirection = 'asc' | 'desc';
+
+/** Everything needed to reproduce an audit log view, as kept in the page URL. */
+export interface AuditLogView extends AuditLogFilters {
+  sort: AuditSortKey;
+  direction: SortDirection;
+  page: number;
+}
+
+export type AuditExportFormat = 'csv' | 'json' | 'html';
+
+/** An export with full Aadhaar numbers, logged as a reveal for every candidate in it. */
+export interface AuditExportRequest {
+  format: AuditExportFormat;
+  /** As written by toFilterParams. */
+  filters: Record<string, string>;
+  reason: string;
+}
+
+export interface AnalyticsFilters {
+  /** Inclusive YYYY-MM-DD bounds on the submission date. */
+  from?: string;
+  to?: string;
+  qualification?: Qualification;
+}
+
+/** Bucket size for time series, picked from the span of the data. */
+export type AnalyticsInterval = 'day' | 'week' | 'month';
+
+export interface RiskPeriod {
+  /** First day of the bucket, YYYY-MM-DD. */
+  start: string;
+  counts: Record<RiskLevel, number>;
+}
+
+export interface ExceptionFrequency {
+  ruleId: string;
+  message: string;
+  count: number;
+  /** Share of scored submissions that triggered the rule, 0 to 1. */
+  rate: number;
+}
+
+export interface FunnelStage {
+  stage: string;
+  count: number;
+  /** Share of the previous stage that reached this one, 0 to 1; null for the first stage or an empty previous stage. */
+  conversion: number | null;
+}
+
+export interface AdmissionsAnalytics {
+  submissionCount: number;
+  interval: AnalyticsInterval;
+  riskOverTime: RiskPeriod[];
+  exceptionFrequency: ExceptionFrequency[];
+  funnel: FunnelStage[];
+  interviewOutcomes: Record<InterviewStatus, number>;
+  /** Candidates sent an offer out of those who cleared or were waitlisted at interview. */
+  offerRate: { eligible: number; sent: number; rate: number | null };
+}
+
+export type UserRole = 'screener' | 'reviewer' | 'admin';
+
+/** A sign-in account. Every action is attributed to its username. */
+export interface User {
+  id: string;
+  username: string;
+  displayName: string;
+  role: UserRole;
+  /** Deactivated accounts cannot sign in but stay on record for the actions they took. */
+  active: boolean;
+  createdAt: string;
+}
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+export interface SessionResponse {
+  user: User | null;
+  /** True until the first admin account has been created. */
+  needsSetup: boolean;
+}
+
+export interface UserRequest {
+  username: string;
+  displayName: string;
+  role: UserRole;
+  password: string;
+}
+
+/** Creates the first admin account on a fresh install. */
+export type SetupRequest = Omit<UserRequest, 'role'>;
+
+export interface UserUpdateRequest {
+  displayName?: string;
+  role?: UserRole;
+  password?: string;
+  active?: boolean;
+}
+
+export interface ApiKeyRequest {
+  /** Tag recorded on every submission made with the key, e.g. "sunrise-institute". */
+  source: string;
+}
+
+/** A partner portal's credential for the intake API. */
+export interface ApiKey extends ApiKeyRequest {
+  id: string;
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  /** Revoked keys are refused but kept for the submissions made with them. */
+  revokedAt?: string;
+}
+
+/** The secret is only ever returned once, when the key is created. */
+export interface CreatedApiKey extends ApiKey {
+  token: string;
+}
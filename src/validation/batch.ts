@@ -0,0 +1,42 @@
+import { findDuplicateMatches } from '../lib/duplicates';
+import { CandidateRecord, FormState, ImportPreviewRow, RuleConfig } from '../types';
+import { assessRisk, requiresReview } from './engine';
+import { AdmissionOptions, validateAdmission } from './index';
+
+export interface BatchOptions extends Omit<AdmissionOptions, 'duplicates'> {
+  /** Stored candidates a row is checked against for duplicates; any sharing none of its identifiers may be left out. */
+  pool?: (data: FormState) => Array<FormState & Pick<CandidateRecord, 'id'>>;
+  /** False when the submitter cannot approve exceptions, so every row that triggers a soft rule goes to review. */
+  approvesExceptions?: boolean;
+}
+
+/**
+ * Scores a batch of candidates as if each were submitted in turn: a row is
+ * checked for duplicates against the pool and the earlier rows that passed
+ * strict validation. `rulesFor` picks the rule config for each row.
+ */
+export function screenBatch(
+  candidates: FormState[],
+  rulesFor: (data: FormState) => RuleConfig,
+  { pool = () => [], approvesExceptions = true, ...options }: BatchOptions = {},
+): ImportPreviewRow[] {
+  const seen: Array<FormState & Pick<CandidateRecord, 'id'>> = [];
+  return candidates.map((data, index): ImportPreviewRow => {
+    const rules = rulesFor(data);
+    const result = validateAdmission(data, rules, {
+      ...options,
+      duplicates: findDuplicateMatches(data, [...pool(data), ...seen]),
+    });
+    const risk = assessRisk(result, rules);
+    const needsReview = requiresReview(risk.riskLevel, rules, !approvesExceptions && risk.exceptionCount > 0);
+    if (Object.keys(result.errors).length === 0) seen.push({ ...data, id: `row-${index + 1}` });
+    return {
+      errors: result.errors,
+      warnings: result.warnings,
+      softRuleIds: result.violations.filter(v => v.severity === 'soft').map(v => v.ruleId),
+      riskScore: risk.riskScore,
+      riskLevel: risk.riskLevel,
+      needsReview,
+    };
+  });
+}
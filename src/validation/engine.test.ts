@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_RULES } from '../constants';
+import { RuleConfig } from '../types';
+import { assessRisk, classifyRisk, requiresReview, RuleViolation, ValidationResult } from './engine';
+
+const rules: RuleConfig = { ...INITIAL_RULES, mediumRiskScore: 2, highRiskScore: 4 };
+
+function resultOf(violations: RuleViolation[]): ValidationResult {
+  return { errors: {}, warnings: {}, violations };
+}
+
+const soft = (ruleId: string, weight?: number, shortfall?: number): RuleViolation =>
+  ({ ruleId, field: 'score', severity: 'soft', message: '', weight, shortfall });
+
+describe('classifyRisk', () => {
+  it('places the score against the configured thresholds, inclusively', () => {
+    expect(classifyRisk(0, rules)).toBe('Low');
+    expect(classifyRisk(1.5, rules)).toBe('Low');
+    expect(classifyRisk(2, rules)).toBe('Medium');
+    expect(classifyRisk(4, rules)).toBe('High');
+  });
+
+  it('keeps a zero score Low even when the medium threshold is zero', () => {
+    const lenient = { ...rules, mediumRiskScore: 0 };
+    expect(classifyRisk(0, lenient)).toBe('Low');
+    expect(classifyRisk(0.5, lenient)).toBe('Medium');
+  });
+});
+
+describe('assessRisk', () => {
+  it('adds up the weights of soft violations and ignores strict ones', () => {
+    const strict: RuleViolation = { ruleId: 'fullName.required', field: 'fullName', severity: 'strict', message: '' };
+    const risk = assessRisk(resultOf([strict, soft('a', 2), soft('b')]), rules);
+    expect(risk).toEqual({
+      exceptionCount: 2,
+      riskScore: 3,
+      riskBreakdown: [
+        { ruleId: 'a', weight: 2, shortfall: undefined, points: 2 },
+        { ruleId: 'b', weight: 1, shortfall: undefined, points: 1 },
+      ],
+      riskLevel: 'Medium',
+    });
+  });
+
+  it('scales points by the shortfall only when configured to', () => {
+    const violations = [soft('a', 2, 0.25)];
+    expect(assessRisk(resultOf(violations), rules).riskScore).toBe(2);
+    expect(assessRisk(resultOf(violations), { ...rules, scaleByShortfall: true }).riskScore).toBe(2.5);
+  });
+
+  it('scores a clean result Low with nothing to break down', () => {
+    expect(assessRisk(resultOf([]), rules)).toEqual({ exceptionCount: 0, riskScore: 0, riskBreakdown: [], riskLevel: 'Low' });
+  });
+});
+
+describe('requiresReview', () => {
+  it('always reviews High risk and never Low', () => {
+    expect(requiresReview('High', rules)).toBe(true);
+    expect(requiresReview('Low', rules)).toBe(false);
+  });
+
+  it('reviews Medium risk only when configured to', () => {
+    expect(requiresReview('Medium', rules)).toBe(false);
+    expect(requiresReview('Medium', { ...rules, reviewMediumRisk: true })).toBe(true);
+  });
+
+  it('reviews any entry whose exceptions still wait for approval', () => {
+    expect(requiresReview('Low', rules, true)).toBe(true);
+  });
+});
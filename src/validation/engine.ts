@@ -0,0 +1,146 @@
+import {
+  DuplicateMatch,
+  FieldKey,
+  FormState,
+  RiskContribution,
+  RiskLevel,
+  RiskWeightKey,
+  RuleConfig,
+  ValidationErrors,
+  ValidationWarnings,
+} from '../types';
+import { rulesForQualification } from '../lib/rules';
+
+export type RuleSeverity = 'strict' | 'soft';
+
+export interface RuleContext {
+  rules: RuleConfig;
+  now: Date;
+  /** Stored candidates matching this one, looked up by the server. Empty when unknown. */
+  duplicates: DuplicateMatch[];
+}
+
+export interface ValidationOptions {
+  now?: Date;
+  duplicates?: DuplicateMatch[];
+}
+
+export interface ValidationRule {
+  id: string;
+  /** Fields the rule reads. The message is reported against the first one. */
+  fields: FieldKey[];
+  severity: RuleSeverity;
+  /** Returns true when the data satisfies the rule. */
+  predicate: (data: FormState, ctx: RuleContext) => boolean;
+  /** Message shown on failure; `{key}` is replaced from the rule config and `params`. */
+  message: string;
+  params?: (data: FormState, ctx: RuleContext) => Record<string, string | number>;
+  /**
+   * Soft rules: config key holding the risk points the rule adds, or the points
+   * themselves for rules defined outside the rule config. Without one it adds 1.
+   */
+  weight?: RiskWeightKey | number;
+  /** Soft rules: how far the value misses its threshold, as a fraction of it. Clamped to 0–1. */
+  shortfall?: (data: FormState, ctx: RuleContext) => number;
+}
+
+export interface RuleViolation {
+  ruleId: string;
+  field: FieldKey;
+  severity: RuleSeverity;
+  message: string;
+  /** Set on soft violations only. */
+  weight?: number;
+  shortfall?: number;
+}
+
+export interface ValidationResult {
+  errors: ValidationErrors;
+  warnings: ValidationWarnings;
+  violations: RuleViolation[];
+}
+
+export function renderMessage(template: string, values: Record<string, unknown>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match,
+  );
+}
+
+/**
+ * Runs every rule in order. Only the first failing rule per field and severity
+ * is reported, so rules for a field should be listed from most to least basic
+ * (e.g. "required" before "format").
+ */
+export function validate(
+  data: FormState,
+  rules: RuleConfig,
+  ruleSet: ValidationRule[],
+  { now = new Date(), duplicates = [] }: ValidationOptions = {},
+): ValidationResult {
+  // Rules see the thresholds for this candidate's qualification.
+  const ctx: RuleContext = { rules: rulesForQualification(rules, data.qualification), now, duplicates };
+  const errors: Record<string, string> = {};
+  const warnings: Record<string, string> = {};
+  const violations: RuleViolation[] = [];
+
+  for (const rule of ruleSet) {
+    const field = rule.fields[0];
+    const target = rule.severity === 'strict' ? errors : warnings;
+    if (target[field] || rule.predicate(data, ctx)) continue;
+
+    const message = renderMessage(rule.message, {
+      ...ctx.rules,
+      ...rule.params?.(data, ctx),
+    });
+    target[field] = message;
+    const violation: RuleViolation = { ruleId: rule.id, field, severity: rule.severity, message };
+    if (rule.severity === 'soft') {
+      violation.weight = typeof rule.weight === 'number' ? rule.weight : rule.weight ? ctx.rules[rule.weight] : 1;
+      if (rule.shortfall) violation.shortfall = Math.min(1, Math.max(0, rule.shortfall(data, ctx)));
+    }
+    violations.push(violation);
+  }
+
+  return { errors, warnings, violations };
+}
+
+export function hasStrictErrors(result: ValidationResult): boolean {
+  return Object.values(result.errors).some(error => !!error);
+}
+
+export function classifyRisk(riskScore: number, rules: RuleConfig): RiskLevel {
+  if (riskScore >= rules.highRiskScore) return 'High';
+  if (riskScore > 0 && riskScore >= rules.mediumRiskScore) return 'Medium';
+  return 'Low';
+}
+
+export const OFFER_PENDING_REVIEW_MESSAGE =
+  'Offer letter cannot be sent until this application is approved in review';
+
+/**
+ * Whether a submission must pass a second sign-off before it is final: for its
+ * risk level, or because its exceptions still wait for a reviewer's approval.
+ */
+export function requiresReview(riskLevel: RiskLevel, rules: RuleConfig, exceptionsPending = false): boolean {
+  return exceptionsPending || riskLevel === 'High' || (riskLevel === 'Medium' && rules.reviewMediumRisk);
+}
+
+const roundPoints = (value: number) => Math.round(value * 100) / 100;
+
+/** Sums the weighted points of every triggered soft rule into a risk score and level. */
+export function assessRisk(result: ValidationResult, rules: RuleConfig) {
+  const riskBreakdown: RiskContribution[] = result.violations
+    .filter(v => v.severity === 'soft')
+    .map(v => {
+      const weight = v.weight ?? 1;
+      const scale = rules.scaleByShortfall && v.shortfall !== undefined ? 1 + v.shortfall : 1;
+      return { ruleId: v.ruleId, weight, shortfall: v.shortfall, points: roundPoints(weight * scale) };
+    });
+  const riskScore = roundPoints(riskBreakdown.reduce((sum, c) => sum + c.points, 0));
+  return {
+    exceptionCount: riskBreakdown.length,
+    riskScore,
+    riskBreakdown,
+    riskLevel: classifyRisk(riskScore, rules),
+  };
+}
@@ -0,0 +1,43 @@
+import { MIN_JUSTIFICATION_LENGTH } from '../constants';
+import { ExceptionRequest, GrantedException } from '../types';
+import { RuleViolation } from './engine';
+
+/**
+ * Checks that every triggered soft rule has a written justification. Returns an
+ * error message per rule id; an empty object means all clear.
+ */
+export function validateExceptionRequests(
+  violations: RuleViolation[],
+  requests: ExceptionRequest[],
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const violation of violations) {
+    if (violation.severity !== 'soft') continue;
+    const request = requests.find(r => r.ruleId === violation.ruleId);
+    if (!request || request.justification.trim().length < MIN_JUSTIFICATION_LENGTH) {
+      errors[violation.ruleId] = `Justification of at least ${MIN_JUSTIFICATION_LENGTH} characters is required`;
+    }
+  }
+  return errors;
+}
+
+/**
+ * Pairs each triggered soft rule with its justification, dropping requests for
+ * rules that did not fire. `approvedBy` is the signed-in reviewer or admin
+ * submitting them; without one the exceptions wait for the entry's review.
+ */
+export function grantExceptions(
+  violations: RuleViolation[],
+  requests: ExceptionRequest[],
+  approvedBy?: string,
+): GrantedException[] {
+  return violations
+    .filter(v => v.severity === 'soft')
+    .map(v => ({
+      ruleId: v.ruleId,
+      field: v.field,
+      message: v.message,
+      justification: requests.find(r => r.ruleId === v.ruleId)!.justification.trim(),
+      approvedBy,
+    }));
+}
@@ -0,0 +1,29 @@
+import { FieldKey, FormSchema, FormState, RuleConfig } from '../types';
+import { validate, ValidationOptions, ValidationRule } from './engine';
+import { ADMISSION_RULES, customFieldRules } from './rules';
+
+export * from './batch';
+export * from './engine';
+export * from './exceptions';
+export * from './rules';
+export * from './simulation';
+
+export interface AdmissionOptions extends ValidationOptions {
+  /** Form schema whose custom fields are validated alongside the built-in ones. */
+  schema?: FormSchema;
+  /**
+   * Rules reading only these fields are skipped. Amendments pass the fields
+   * status transitions manage, whose rules judged the original submission.
+   */
+  skipFields?: FieldKey[];
+}
+
+export function admissionRules(schema?: FormSchema): ValidationRule[] {
+  return schema ? [...ADMISSION_RULES, ...customFieldRules(schema)] : ADMISSION_RULES;
+}
+
+export function validateAdmission(data: FormState, rules: RuleConfig, options: AdmissionOptions = {}) {
+  const { schema, skipFields = [] } = options;
+  const ruleSet = admissionRules(schema).filter(rule => !rule.fields.every(field => skipFields.includes(field)));
+  return validate(data, rules, ruleSet, options);
+}
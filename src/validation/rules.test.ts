@@ -0,0 +1,292 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_RULES, INITIAL_STATE } from '../constants';
+import { DuplicateMatch, FormFieldDefinition, FormState, RuleConfig } from '../types';
+import { validate } from './engine';
+import { ADMISSION_RULES, calculateAge, customFieldRules } from './rules';
+
+const NOW = new Date('2026-06-15T00:00:00Z');
+
+const VALID: FormState = {
+  ...INITIAL_STATE,
+  fullName: 'Asha Rao',
+  email: 'asha@example.com',
+  phone: '9876543210',
+  dob: '2000-01-01',
+  qualification: 'B.Tech',
+  graduationYear: '2022',
+  score: '75',
+  screeningScore: '70',
+  interviewStatus: 'Cleared',
+  aadhaarNumber: '456789012341',
+};
+
+interface CheckOptions {
+  rules?: RuleConfig;
+  duplicates?: DuplicateMatch[];
+}
+
+/** Runs one rule against the valid candidate with `changes` applied; returns its message, or null when it passes. */
+function check(
+  ruleId: string,
+  changes: Partial<FormState> = {},
+  { rules = INITIAL_RULES, duplicates = [] }: CheckOptions = {},
+) {
+  const rule = ADMISSION_RULES.find(r => r.id === ruleId);
+  if (!rule) throw new Error(`No rule ${ruleId}`);
+  const { violations } = validate({ ...VALID, ...changes }, rules, [rule], { now: NOW, duplicates });
+  return violations[0]?.message ?? null;
+}
+
+const match = (reasons: DuplicateMatch['reasons']): DuplicateMatch => ({
+  candidateId: 'c1',
+  fullName: 'Existing Candidate',
+  reasons,
+});
+
+describe('the valid candidate', () => {
+  it('passes every admission rule', () => {
+    expect(validate(VALID, INITIAL_RULES, ADMISSION_RULES, { now: NOW }).violations).toEqual([]);
+  });
+});
+
+describe('strict rules', () => {
+  it('fullName.required', () => {
+    expect(check('fullName.required', { fullName: '   ' })).toBe('Full Name is required');
+    expect(check('fullName.required')).toBeNull();
+  });
+
+  it('fullName.minLength', () => {
+    expect(check('fullName.minLength', { fullName: ' A ' })).toBe('Minimum 2 characters required');
+    expect(check('fullName.minLength', { fullName: 'Al' })).toBeNull();
+  });
+
+  it('fullName.noDigits', () => {
+    expect(check('fullName.noDigits', { fullName: 'Asha 2' })).toBe('Numbers are not allowed in name');
+    expect(check('fullName.noDigits')).toBeNull();
+  });
+
+  it('email.required', () => {
+    expect(check('email.required', { email: '' })).toBe('Email is required');
+    expect(check('email.required')).toBeNull();
+  });
+
+  it('email.format', () => {
+    expect(check('email.format', { email: 'asha@example' })).toBe('Invalid email format (e.g. user@domain.com)');
+    expect(check('email.format', { email: 'asha rao@example.com' })).not.toBeNull();
+    expect(check('email.format')).toBeNull();
+  });
+
+  it('phone.required', () => {
+    expect(check('phone.required', { phone: '' })).toBe('Phone number is required');
+    expect(check('phone.required')).toBeNull();
+  });
+
+  it('phone.format', () => {
+    expect(check('phone.format', { phone: '5876543210' })).toBe('Must be 10 digits starting with 6, 7, 8, or 9');
+    expect(check('phone.format', { phone: '987654321' })).not.toBeNull();
+    expect(check('phone.format', { phone: '6000000000' })).toBeNull();
+  });
+
+  it('qualification.required', () => {
+    expect(check('qualification.required', { qualification: '' })).toBe('Please select a qualification');
+    expect(check('qualification.required')).toBeNull();
+  });
+
+  it('qualification.known', () => {
+    expect(check('qualification.known', { qualification: 'PhD' as FormState['qualification'] }))
+      .toBe('Qualification must be one of B.Tech, B.E., B.Sc, BCA, M.Tech, M.Sc, MCA, MBA');
+    expect(check('qualification.known', { qualification: 'MBA' })).toBeNull();
+    expect(check('qualification.known', { qualification: '' })).toBeNull();
+  });
+
+  it('aadhaarNumber.required', () => {
+    expect(check('aadhaarNumber.required', { aadhaarNumber: '' })).toBe('Aadhaar Number is required');
+    expect(check('aadhaarNumber.required')).toBeNull();
+  });
+
+  it('aadhaarNumber.format', () => {
+    expect(check('aadhaarNumber.format', { aadhaarNumber: '45678901234' })).toBe('Must be exactly 12 digits (numbers only)');
+    expect(check('aadhaarNumber.format', { aadhaarNumber: '4567-8901-2341' })).not.toBeNull();
+    expect(check('aadhaarNumber.format')).toBeNull();
+  });
+
+  it('aadhaarNumber.firstDigit', () => {
+    expect(check('aadhaarNumber.firstDigit', { aadhaarNumber: '056789012341' })).toBe('Aadhaar Number cannot start with 0 or 1');
+    expect(check('aadhaarNumber.firstDigit', { aadhaarNumber: '156789012341' })).not.toBeNull();
+    expect(check('aadhaarNumber.firstDigit')).toBeNull();
+  });
+
+  it('aadhaarNumber.checksum', () => {
+    expect(check('aadhaarNumber.checksum', { aadhaarNumber: '456789012342' }))
+      .toBe('Invalid Aadhaar Number (check digit does not match)');
+    expect(check('aadhaarNumber.checksum')).toBeNull();
+  });
+
+  it('aadhaarNumber.unique', () => {
+    expect(check('aadhaarNumber.unique', {}, { duplicates: [match(['aadhaar', 'email'])] }))
+      .toBe('A candidate with this Aadhaar Number already exists (Existing Candidate)');
+    expect(check('aadhaarNumber.unique', {}, { duplicates: [match(['email'])] })).toBeNull();
+  });
+
+  it('scoreMode.known', () => {
+    expect(check('scoreMode.known', { scoreMode: 'Grade' as FormState['scoreMode'] }))
+      .toBe('Score mode must be one of Percentage, CGPA');
+    expect(check('scoreMode.known', { scoreMode: 'CGPA' })).toBeNull();
+  });
+
+  it('cgpaScale.supported', () => {
+    const cgpa = { scoreMode: 'CGPA', score: '8' } as const;
+    expect(check('cgpaScale.supported', { ...cgpa, cgpaScale: 7 as FormState['cgpaScale'] }))
+      .toBe('CGPA scale must be one of 4, 5, 10');
+    expect(check('cgpaScale.supported', { ...cgpa, cgpaScale: 4 })).toBeNull();
+    expect(check('cgpaScale.supported', { cgpaScale: 7 as FormState['cgpaScale'] })).toBeNull();
+  });
+
+  it('score.percentageRange', () => {
+    expect(check('score.percentageRange', { score: '101' })).toBe('Percentage must be between 0 and 100');
+    expect(check('score.percentageRange', { score: '-1' })).not.toBeNull();
+    expect(check('score.percentageRange', { score: '100' })).toBeNull();
+    expect(check('score.percentageRange', { score: '' })).toBeNull();
+  });
+
+  it('score.cgpaRange', () => {
+    const cgpa = { scoreMode: 'CGPA', cgpaScale: 4 } as const;
+    expect(check('score.cgpaRange', { ...cgpa, score: '4.5' })).toBe('CGPA must be between 0 and 4');
+    expect(check('score.cgpaRange', { ...cgpa, score: '4' })).toBeNull();
+    expect(check('score.cgpaRange', { score: '75' })).toBeNull();
+  });
+
+  it('offerLetterSent.notOnEntry', () => {
+    expect(check('offerLetterSent.notOnEntry', { offerLetterSent: true }))
+      .toBe('Offer letters are sent from the candidate record once it is saved');
+    expect(check('offerLetterSent.notOnEntry')).toBeNull();
+  });
+
+  it('interviewStatus.notRejected', () => {
+    expect(check('interviewStatus.notRejected', { interviewStatus: 'Rejected' })).toBe('Rejected candidates cannot be enrolled');
+    expect(check('interviewStatus.notRejected', { interviewStatus: '' })).toBeNull();
+  });
+
+  it('interviewStatus.known', () => {
+    expect(check('interviewStatus.known', { interviewStatus: 'Hired' as FormState['interviewStatus'] }))
+      .toBe('Interview status must be one of Cleared, Waitlisted, Rejected');
+    expect(check('interviewStatus.known', { interviewStatus: 'Waitlisted' })).toBeNull();
+    expect(check('interviewStatus.known', { interviewStatus: '' })).toBeNull();
+  });
+});
+
+describe('soft rules', () => {
+  it('dob.minAge', () => {
+    expect(check('dob.minAge', { dob: '2010-01-01' })).toBe('Candidate is under 18 years old (Exception)');
+    expect(check('dob.minAge', { dob: '2008-06-15' })).toBeNull();
+    expect(check('dob.minAge', { dob: '' })).toBeNull();
+  });
+
+  it('graduationYear.maxFuture', () => {
+    expect(check('graduationYear.maxFuture', { graduationYear: '2029' })).toBe('Graduation year is beyond 2028 (Exception)');
+    expect(check('graduationYear.maxFuture', { graduationYear: '2028' })).toBeNull();
+  });
+
+  it('score.minPercentage', () => {
+    expect(check('score.minPercentage', { score: '55' })).toBe('Score of 55% is below 60% (Exception)');
+    expect(check('score.minPercentage', { score: '60' })).toBeNull();
+    expect(check('score.minPercentage', { score: '' })).toBeNull();
+  });
+
+  it('score.minPercentage compares CGPA on the percentage scale', () => {
+    expect(check('score.minPercentage', { scoreMode: 'CGPA', cgpaScale: 10, score: '6' }))
+      .toBe('Score of 57% is below 60% (Exception)');
+    expect(check('score.minPercentage', { scoreMode: 'CGPA', cgpaScale: 4, score: '2.4' })).toBeNull();
+  });
+
+  it('screeningScore.min', () => {
+    expect(check('screeningScore.min', { screeningScore: '39' })).toBe('Screening score is below 40 (Exception)');
+    expect(check('screeningScore.min', { screeningScore: '40' })).toBeNull();
+    expect(check('screeningScore.min', { screeningScore: '' })).toBeNull();
+  });
+
+  it('graduationYear.plausibleForDob', () => {
+    expect(check('graduationYear.plausibleForDob', { dob: '2006-01-01', graduationYear: '2022' }))
+      .toBe('Graduating at age 16 is implausible; expected at least 18 (Exception)');
+    expect(check('graduationYear.plausibleForDob', { dob: '2004-01-01', graduationYear: '2022' })).toBeNull();
+    expect(check('graduationYear.plausibleForDob', { graduationYear: '' })).toBeNull();
+  });
+
+  it('qualification.postgraduateAge', () => {
+    expect(check('qualification.postgraduateAge', { qualification: 'MBA', dob: '2003-01-01', graduationYear: '2022' }))
+      .toBe('MBA completed at age 19; postgraduate degrees are expected from 20 (Exception)');
+    expect(check('qualification.postgraduateAge', { qualification: 'MBA' })).toBeNull();
+    expect(check('qualification.postgraduateAge', { dob: '2003-01-01', graduationYear: '2022' })).toBeNull();
+  });
+
+  it('duplicate.likely', () => {
+    expect(check('duplicate.likely', {}, { duplicates: [match(['email', 'phone'])] }))
+      .toBe('Possible duplicate of Existing Candidate (same email, same phone) (Exception)');
+    expect(check('duplicate.likely', {}, { duplicates: [match(['aadhaar'])] })).toBeNull();
+    expect(check('duplicate.likely')).toBeNull();
+  });
+
+  it('use the thresholds of the candidate\'s qualification', () => {
+    const rules = { ...INITIAL_RULES, qualificationOverrides: { MBA: { minScreeningScore: 50 } } };
+    expect(check('screeningScore.min', { qualification: 'MBA', screeningScore: '45' }, { rules }))
+      .toBe('Screening score is below 50 (Exception)');
+    expect(check('screeningScore.min', { screeningScore: '45' }, { rules })).toBeNull();
+  });
+});
+
+describe('custom field rules', () => {
+  const field = (definition: Partial<FormFieldDefinition>): FormFieldDefinition => ({
+    key: 'extra',
+    label: 'Extra',
+    type: 'text',
+    icon: 'FileText',
+    ...definition,
+  });
+
+  /** The message for the custom field's value, or null when every rule for it passes. */
+  const checkField = (definition: Partial<FormFieldDefinition>, value: string) => {
+    const rules = customFieldRules({ fields: [field(definition)] });
+    const data = { ...VALID, customFields: { extra: value } };
+    return validate(data, INITIAL_RULES, rules, { now: NOW }).violations.map(v => v.message)[0] ?? null;
+  };
+
+  it('skips built-in fields', () => {
+    expect(customFieldRules({ fields: [field({ builtIn: true, required: true })] })).toEqual([]);
+  });
+
+  it('required', () => {
+    expect(checkField({ required: true }, '  ')).toBe('Extra is required');
+    expect(checkField({}, '')).toBeNull();
+  });
+
+  it('number and range', () => {
+    expect(checkField({ type: 'number' }, 'ten')).toBe('Extra must be a number');
+    expect(checkField({ type: 'number', min: 1, max: 5 }, '6')).toBe('Extra must be between 1 and 5');
+    expect(checkField({ type: 'number', min: 1 }, '0')).toBe('Extra must be at least 1');
+    expect(checkField({ type: 'number', min: 1, max: 5 }, '5')).toBeNull();
+  });
+
+  it('option', () => {
+    expect(checkField({ type: 'select', options: ['A', 'B'] }, 'C')).toBe('Extra must be one of the listed options');
+    expect(checkField({ type: 'select', options: ['A', 'B'] }, 'B')).toBeNull();
+  });
+
+  it('format and length', () => {
+    expect(checkField({ type: 'email' }, 'not-an-email')).toBe('Extra must be a valid email');
+    expect(checkField({ max: 3 }, 'abcd')).toBe('Extra must be at most 3 characters');
+    expect(checkField({ max: 3 }, 'abc')).toBeNull();
+  });
+
+  it('softMin and softMax', () => {
+    expect(checkField({ type: 'number', softMin: 10 }, '9')).toBe('Extra is below 10 (Exception)');
+    expect(checkField({ type: 'number', softMax: 10 }, '11')).toBe('Extra is above 10 (Exception)');
+    expect(checkField({ type: 'number', softMin: 10, softMax: 20 }, '15')).toBeNull();
+  });
+});
+
+describe('calculateAge', () => {
+  it('counts a birthday only once it has passed', () => {
+    expect(calculateAge('2000-06-16', NOW)).toBe(25);
+    expect(calculateAge('2000-06-15', NOW)).toBe(26);
+  });
+});
@@ -0,0 +1,384 @@
+import { CGPA_SCALES, INTERVIEW_STATUSES, POSTGRADUATE_QUALIFICATIONS, QUALIFICATIONS, SCORE_MODES } from '../constants';
+import { isValidVerhoeff } from '../lib/aadhaar';
+import { DUPLICATE_REASON_LABELS } from '../lib/duplicates';
+import { customFieldsOf } from '../lib/formSchema';
+import { normalizePercentage } from '../lib/scores';
+import { CustomFieldKey, FormFieldDefinition, FormSchema, FormState, Qualification } from '../types';
+import { ValidationRule } from './engine';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_REGEX = /^[6-9]\d{9}$/;
+const AADHAAR_REGEX = /^\d{12}$/;
+
+/** Fraction by which `value` falls short of `threshold`; 0 when the threshold is not positive. */
+function relativeShortfall(value: number, threshold: number): number {
+  return threshold > 0 ? (threshold - value) / threshold : 0;
+}
+
+/** Age in the graduation year; NaN when either field is missing. */
+function graduationAge(data: FormState): number {
+  return parseInt(data.graduationYear) - new Date(data.dob).getFullYear();
+}
+
+export function calculateAge(dob: string, today: Date): number {
+  const birthDate = new Date(dob);
+  let age = today.getFullYear() - birthDate.getFullYear();
+  const m = today.getMonth() - birthDate.getMonth();
+  if (m < 0 || (m === 0 && today.getDate() < birthDate.getDate())) {
+    age--;
+  }
+  return age;
+}
+
+// --- STRICT RULES ---
+export const STRICT_RULES: ValidationRule[] = [
+  {
+    id: 'fullName.required',
+    fields: ['fullName'],
+    severity: 'strict',
+    predicate: (data) => !!data.fullName.trim(),
+    message: 'Full Name is required',
+  },
+  {
+    id: 'fullName.minLength',
+    fields: ['fullName'],
+    severity: 'strict',
+    predicate: (data) => data.fullName.trim().length >= 2,
+    message: 'Minimum 2 characters required',
+  },
+  {
+    id: 'fullName.noDigits',
+    fields: ['fullName'],
+    severity: 'strict',
+    predicate: (data) => !/\d/.test(data.fullName),
+    message: 'Numbers are not allowed in name',
+  },
+  {
+    id: 'email.required',
+    fields: ['email'],
+    severity: 'strict',
+    predicate: (data) => !!data.email,
+    message: 'Email is required',
+  },
+  {
+    id: 'email.format',
+    fields: ['email'],
+    severity: 'strict',
+    predicate: (data) => EMAIL_REGEX.test(data.email),
+    message: 'Invalid email format (e.g. user@domain.com)',
+  },
+  {
+    id: 'phone.required',
+    fields: ['phone'],
+    severity: 'strict',
+    predicate: (data) => !!data.phone,
+    message: 'Phone number is required',
+  },
+  {
+    id: 'phone.format',
+    fields: ['phone'],
+    severity: 'strict',
+    predicate: (data) => PHONE_REGEX.test(data.phone),
+    message: 'Must be 10 digits starting with 6, 7, 8, or 9',
+  },
+  {
+    id: 'qualification.required',
+    fields: ['qualification'],
+    severity: 'strict',
+    predicate: (data) => !!data.qualification,
+    message: 'Please select a qualification',
+  },
+  {
+    id: 'qualification.known',
+    fields: ['qualification'],
+    severity: 'strict',
+    predicate: (data) => !data.qualification || QUALIFICATIONS.includes(data.qualification),
+    message: 'Qualification must be one of {qualifications}',
+    params: () => ({ qualifications: QUALIFICATIONS.join(', ') }),
+  },
+  {
+    id: 'aadhaarNumber.required',
+    fields: ['aadhaarNumber'],
+    severity: 'strict',
+    predicate: (data) => !!data.aadhaarNumber,
+    message: 'Aadhaar Number is required',
+  },
+  {
+    id: 'aadhaarNumber.format',
+    fields: ['aadhaarNumber'],
+    severity: 'strict',
+    predicate: (data) => AADHAAR_REGEX.test(data.aadhaarNumber),
+    message: 'Must be exactly 12 digits (numbers only)',
+  },
+  {
+    id: 'aadhaarNumber.firstDigit',
+    fields: ['aadhaarNumber'],
+    severity: 'strict',
+    predicate: (data) => !/^[01]/.test(data.aadhaarNumber),
+    message: 'Aadhaar Number cannot start with 0 or 1',
+  },
+  {
+    id: 'aadhaarNumber.checksum',
+    fields: ['aadhaarNumber'],
+    severity: 'strict',
+    predicate: (data) => isValidVerhoeff(data.aadhaarNumber),
+    message: 'Invalid Aadhaar Number (check digit does not match)',
+  },
+  {
+    id: 'aadhaarNumber.unique',
+    fields: ['aadhaarNumber'],
+    severity: 'strict',
+    predicate: (_data, { duplicates }) => !duplicates.some(match => match.reasons.includes('aadhaar')),
+    message: 'A candidate with this Aadhaar Number already exists ({existingName})',
+    params: (_data, { duplicates }) => ({
+      existingName: duplicates.find(match => match.reasons.includes('aadhaar'))?.fullName ?? '',
+    }),
+  },
+  {
+    id: 'scoreMode.known',
+    fields: ['scoreMode'],
+    severity: 'strict',
+    predicate: (data) => SCORE_MODES.includes(data.scoreMode),
+    message: 'Score mode must be one of {modes}',
+    params: () => ({ modes: SCORE_MODES.join(', ') }),
+  },
+  {
+    id: 'cgpaScale.supported',
+    fields: ['cgpaScale', 'scoreMode'],
+    severity: 'strict',
+    predicate: (data) => data.scoreMode !== 'CGPA' || CGPA_SCALES.includes(data.cgpaScale),
+    message: 'CGPA scale must be one of {scales}',
+    params: () => ({ scales: CGPA_SCALES.join(', ') }),
+  },
+  {
+    id: 'score.percentageRange',
+    fields: ['score', 'scoreMode'],
+    severity: 'strict',
+    predicate: (data) => {
+      const score = parseFloat(data.score);
+      return !data.score || data.scoreMode !== 'Percentage' || (score >= 0 && score <= 100);
+    },
+    message: 'Percentage must be between 0 and 100',
+  },
+  {
+    id: 'score.cgpaRange',
+    fields: ['score', 'scoreMode', 'cgpaScale'],
+    severity: 'strict',
+    predicate: (data) => {
+      const score = parseFloat(data.score);
+      return !data.score || data.scoreMode !== 'CGPA' || (score >= 0 && score <= data.cgpaScale);
+    },
+    message: 'CGPA must be between 0 and {cgpaScale}',
+    params: (data) => ({ cgpaScale: data.cgpaScale }),
+  },
+  {
+    // Offers go out from the saved record, once a reviewer sends the letter; amendments skip this rule.
+    id: 'offerLetterSent.notOnEntry',
+    fields: ['offerLetterSent'],
+    severity: 'strict',
+    predicate: (data) => !data.offerLetterSent,
+    message: 'Offer letters are sent from the candidate record once it is saved',
+  },
+  {
+    id: 'interviewStatus.known',
+    fields: ['interviewStatus'],
+    severity: 'strict',
+    predicate: (data) => !data.interviewStatus || INTERVIEW_STATUSES.includes(data.interviewStatus),
+    message: 'Interview status must be one of {statuses}',
+    params: () => ({ statuses: INTERVIEW_STATUSES.join(', ') }),
+  },
+  {
+    id: 'interviewStatus.notRejected',
+    fields: ['interviewStatus'],
+    severity: 'strict',
+    predicate: (data) => data.interviewStatus !== 'Rejected',
+    message: 'Rejected candidates cannot be enrolled',
+  },
+];
+
+// --- SOFT RULES (Exceptions) ---
+export const SOFT_RULES: ValidationRule[] = [
+  {
+    id: 'dob.minAge',
+    fields: ['dob'],
+    severity: 'soft',
+    predicate: (data, { rules, now }) => !data.dob || calculateAge(data.dob, now) >= rules.minAge,
+    message: 'Candidate is under {minAge} years old (Exception)',
+    weight: 'minAgeWeight',
+    shortfall: (data, { rules, now }) => relativeShortfall(calculateAge(data.dob, now), rules.minAge),
+  },
+  {
+    id: 'graduationYear.maxFuture',
+    fields: ['graduationYear'],
+    severity: 'soft',
+    predicate: (data, { rules, now }) =>
+      !data.graduationYear || !(parseInt(data.graduationYear) > now.getFullYear() + rules.maxFutureGradYears),
+    message: 'Graduation year is beyond {maxGradYear} (Exception)',
+    params: (_data, { rules, now }) => ({ maxGradYear: now.getFullYear() + rules.maxFutureGradYears }),
+    weight: 'maxFutureGradYearsWeight',
+    // One more year than the allowed window counts as a full miss.
+    shortfall: (data, { rules, now }) =>
+      (parseInt(data.graduationYear) - now.getFullYear() - rules.maxFutureGradYears) / (rules.maxFutureGradYears + 1),
+  },
+  {
+    // CGPA is compared on the percentage scale so every mode shares one threshold.
+    id: 'score.minPercentage',
+    fields: ['score', 'scoreMode', 'cgpaScale'],
+    severity: 'soft',
+    predicate: (data, { rules }) => {
+      const normalized = normalizePercentage(data, rules);
+      return normalized === null || normalized >= rules.minPercentage;
+    },
+    message: 'Score of {normalized}% is below {minPercentage}% (Exception)',
+    params: (data, { rules }) => ({ normalized: normalizePercentage(data, rules) }),
+    weight: 'minPercentageWeight',
+    shortfall: (data, { rules }) => relativeShortfall(normalizePercentage(data, rules), rules.minPercentage),
+  },
+  {
+    id: 'screeningScore.min',
+    fields: ['screeningScore'],
+    severity: 'soft',
+    predicate: (data, { rules }) =>
+      !data.screeningScore || !(parseFloat(data.screeningScore) < rules.minScreeningScore),
+    message: 'Screening score is below {minScreeningScore} (Exception)',
+    weight: 'minScreeningScoreWeight',
+    shortfall: (data, { rules }) => relativeShortfall(parseFloat(data.screeningScore), rules.minScreeningScore),
+  },
+];
+
+// --- CROSS-FIELD RULES (Exceptions) ---
+export const CONSISTENCY_RULES: ValidationRule[] = [
+  {
+    id: 'graduationYear.plausibleForDob',
+    fields: ['graduationYear', 'dob'],
+    severity: 'soft',
+    predicate: (data, { rules }) => !(graduationAge(data) < rules.minGraduationAge),
+    message: 'Graduating at age {graduationAge} is implausible; expected at least {minGraduationAge} (Exception)',
+    params: (data) => ({ graduationAge: graduationAge(data) }),
+    weight: 'graduationAgeWeight',
+    shortfall: (data, { rules }) => relativeShortfall(graduationAge(data), rules.minGraduationAge),
+  },
+  {
+    id: 'qualification.postgraduateAge',
+    fields: ['qualification', 'graduationYear', 'dob'],
+    severity: 'soft',
+    predicate: (data, { rules }) =>
+      !POSTGRADUATE_QUALIFICATIONS.includes(data.qualification as Qualification) ||
+      !(graduationAge(data) < rules.minPostgraduateAge),
+    message: '{qualification} completed at age {graduationAge}; postgraduate degrees are expected from {minPostgraduateAge} (Exception)',
+    params: (data) => ({ qualification: data.qualification, graduationAge: graduationAge(data) }),
+    weight: 'postgraduateAgeWeight',
+    shortfall: (data, { rules }) => relativeShortfall(graduationAge(data), rules.minPostgraduateAge),
+  },
+];
+
+// Exact Aadhaar matches are strict errors above; this covers the fuzzier signals.
+export const DUPLICATE_RULES: ValidationRule[] = [
+  {
+    id: 'duplicate.likely',
+    fields: ['fullName', 'email', 'phone', 'dob'],
+    severity: 'soft',
+    predicate: (_data, { duplicates }) => duplicates.every(match => match.reasons.includes('aadhaar')),
+    message: 'Possible duplicate of {existingName} ({reasons}) (Exception)',
+    params: (_data, { duplicates }) => {
+      const match = duplicates.find(m => !m.reasons.includes('aadhaar'))!;
+      return {
+        existingName: match.fullName,
+        reasons: match.reasons.map(reason => DUPLICATE_REASON_LABELS[reason]).join(', '),
+      };
+    },
+    weight: 'duplicateWeight',
+  },
+];
+
+// --- FORM SCHEMA RULES ---
+
+/** e.g. "between {min} and {max}", "at least {min}" */
+function boundsMessage(field: FormFieldDefinition, unit = ''): string {
+  if (field.min !== undefined && field.max !== undefined) return `{label} must be between {min} and {max}${unit}`;
+  return field.min !== undefined ? `{label} must be at least {min}${unit}` : `{label} must be at most {max}${unit}`;
+}
+
+function customFieldRulesFor(field: FormFieldDefinition): ValidationRule[] {
+  const key: CustomFieldKey = `customFields.${field.key}`;
+  const value = (data: FormState) => (data.customFields[field.key] ?? '').trim();
+  const params = () => ({
+    label: field.label,
+    min: field.min ?? '',
+    max: field.max ?? '',
+    softMin: field.softMin ?? '',
+    softMax: field.softMax ?? '',
+  });
+  const strict = (id: string, predicate: (value: string) => boolean, message: string): ValidationRule => ({
+    id: `${key}.${id}`,
+    fields: [key],
+    severity: 'strict',
+    predicate: (data) => !value(data) || predicate(value(data)),
+    message,
+    params,
+  });
+  const hasBounds = field.min !== undefined || field.max !== undefined;
+  const withinBounds = (n: number) =>
+    (field.min === undefined || n >= field.min) && (field.max === undefined || n <= field.max);
+
+  const rules: ValidationRule[] = [];
+  if (field.required) {
+    rules.push({
+      id: `${key}.required`,
+      fields: [key],
+      severity: 'strict',
+      predicate: (data) => !!value(data),
+      message: '{label} is required',
+      params,
+    });
+  }
+  if (field.type === 'number') {
+    rules.push(strict('number', v => !isNaN(Number(v)), '{label} must be a number'));
+    if (hasBounds) rules.push(strict('range', v => withinBounds(Number(v)), boundsMessage(field)));
+  } else if (field.type === 'select') {
+    rules.push(strict('option', v => (field.options ?? []).includes(v), '{label} must be one of the listed options'));
+  } else if (field.type !== 'date') {
+    if (field.type === 'email') rules.push(strict('format', v => EMAIL_REGEX.test(v), '{label} must be a valid email'));
+    if (hasBounds) rules.push(strict('length', v => withinBounds(v.length), boundsMessage(field, ' characters')));
+  }
+
+  if (field.type === 'number' && field.softMin !== undefined) {
+    const softMin = field.softMin;
+    rules.push({
+      id: `${key}.softMin`,
+      fields: [key],
+      severity: 'soft',
+      predicate: (data) => !(parseFloat(value(data)) < softMin),
+      message: '{label} is below {softMin} (Exception)',
+      params,
+      weight: field.softWeight ?? 1,
+      shortfall: (data) => relativeShortfall(parseFloat(value(data)), softMin),
+    });
+  }
+  if (field.type === 'number' && field.softMax !== undefined) {
+    const softMax = field.softMax;
+    rules.push({
+      id: `${key}.softMax`,
+      fields: [key],
+      severity: 'soft',
+      predicate: (data) => !(parseFloat(value(data)) > softMax),
+      message: '{label} is above {softMax} (Exception)',
+      params,
+      weight: field.softWeight ?? 1,
+      shortfall: (data) => (softMax > 0 ? (parseFloat(value(data)) - softMax) / softMax : 0),
+    });
+  }
+  return rules;
+}
+
+/** Rules for the fields an admin added to the form schema; built-in fields keep the rule sets above. */
+export function customFieldRules(schema: FormSchema): ValidationRule[] {
+  return customFieldsOf(schema).flatMap(customFieldRulesFor);
+}
+
+export const ADMISSION_RULES: ValidationRule[] = [
+  ...STRICT_RULES,
+  ...SOFT_RULES,
+  ...CONSISTENCY_RULES,
+  ...DUPLICATE_RULES,
+];
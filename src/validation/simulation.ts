@@ -0,0 +1,51 @@
+import { CandidateRecord, RiskLevel, RuleConfig, SimulationResult } from '../types';
+import { assessRisk, validate, ValidationRule } from './engine';
+
+const emptyDistribution = (): Record<RiskLevel, number> => ({ Low: 0, Medium: 0, High: 0 });
+
+/**
+ * Re-scores stored candidates under both the active and the draft rule config.
+ * Both passes use the same `now` so that only the rule change, not the passage
+ * of time since submission, shows up in the comparison.
+ */
+export function simulateRuleChange(
+  candidates: CandidateRecord[],
+  currentRules: RuleConfig,
+  draftRules: RuleConfig,
+  ruleSet: ValidationRule[],
+  now: Date = new Date(),
+): SimulationResult {
+  const result: SimulationResult = {
+    evaluated: candidates.length,
+    distribution: { current: emptyDistribution(), draft: emptyDistribution() },
+    ruleFrequency: [],
+    movements: [],
+  };
+  const frequency = new Map<string, { current: number; draft: number }>();
+  const countRule = (ruleId: string, side: 'current' | 'draft') => {
+    const entry = frequency.get(ruleId) ?? { current: 0, draft: 0 };
+    entry[side]++;
+    frequency.set(ruleId, entry);
+  };
+
+  for (const candidate of candidates) {
+    const before = validate(candidate, currentRules, ruleSet, { now });
+    const after = validate(candidate, draftRules, ruleSet, { now });
+    const from = assessRisk(before, currentRules).riskLevel;
+    const to = assessRisk(after, draftRules).riskLevel;
+
+    result.distribution.current[from]++;
+    result.distribution.draft[to]++;
+    before.violations.filter(v => v.severity === 'soft').forEach(v => countRule(v.ruleId, 'current'));
+    after.violations.filter(v => v.severity === 'soft').forEach(v => countRule(v.ruleId, 'draft'));
+
+    if (from !== to) {
+      result.movements.push({ candidateId: candidate.id, fullName: candidate.fullName, from, to });
+    }
+  }
+
+  result.ruleFrequency = [...frequency.entries()]
+    .map(([ruleId, counts]) => ({ ruleId, ...counts }))
+    .sort((a, b) => Math.abs(b.draft - b.current) - Math.abs(a.draft - a.current));
+  return result;
+}